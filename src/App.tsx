@@ -1,22 +1,78 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { wagmiConfig } from './lib/wagmi';
-import { initializeFarcasterSdk } from './lib/farcasterSdk';
+import { initializeFarcasterSdk, composeCast, getFarcasterContext } from './lib/farcasterSdk';
 import HomeScreen from './components/HomeScreen';
 import GameScreen from './components/GameScreen';
 import PostGameScreen from './components/PostGameScreen';
 import RouletteScreen from './components/RouletteScreen';
 import RewardClaimedModal from './components/RewardClaimedModal';
 import LeaderboardScreen from './components/LeaderboardScreen';
-import { GameState, GameResult, RouletteReward } from './types/game';
+import MatchHistoryScreen from './components/MatchHistoryScreen';
+import ReplayScreen from './components/ReplayScreen';
+import PvpLobbyScreen from './components/PvpLobbyScreen';
+import ChallengeScreen from './components/ChallengeScreen';
+import ArenaEditorScreen from './components/ArenaEditorScreen';
+import TournamentScreen from './components/TournamentScreen';
+import { ArenaDefinition, BotPersonality, DifficultyChoice, DifficultyLevel, GameState, GameResult, MatchLog, MatchRecording, MatchVerificationStatus, RouletteReward, TeamMode } from './types/game';
 import { useRouletteKeys } from './hooks/useGameTokens';
 import { useWallet } from './hooks/useWallet';
-import { useLeaderboard } from './hooks/useLeaderboard';
+import { useLeaderboard, useRatingLeaderboard } from './hooks/useLeaderboard';
+import { useMatchHistory } from './hooks/useMatchHistory';
+import { usePvpLobby } from './hooks/usePvpLobby';
+import { useChallenge, useSentChallenges } from './hooks/useChallenges';
+import { useDailyChallenge } from './hooks/useDailyChallenge';
+import { useTournaments } from './hooks/useTournaments';
 import { useAuth } from './hooks/useAuth';
 import { useToast } from './hooks/useToast';
 import ToastContainer from './components/ToastContainer';
-import { ROULETTE_REWARDS } from './config/gameConfig';
+import { DEFAULT_MATCH_LENGTH, ROULETTE_REWARDS } from './config/gameConfig';
+import { arenaById, DEFAULT_ARENA_ID, newArenaDraft } from './config/arenas';
+import { DEFAULT_TEAM_MODE } from './config/teamModes';
+import { getArena, getArenaLink, saveArena } from './services/arenaService';
+import { fetchMatchResult, requestMatchTicket, submitMatchLog } from './services/matchVerificationService';
+import { createChallenge, getChallengeLink } from './services/challengeService';
+import { joinTournament, TournamentSummary } from './services/tournamentService';
+import { DriverSetup } from './engine/simulationHost';
+
+interface MatchTicket {
+  matchId: string;
+  seed: number;
+  difficulty?: DifficultyLevel;
+  botRating?: number;
+  arena?: ArenaDefinition;
+  teamMode?: TeamMode;
+  matchLength?: number;
+  suddenDeath?: boolean;
+  brushPhysics?: boolean;
+  // Daily and tournament tickets fix the bot everyone plays against
+  daily?: boolean;
+  tournamentId?: string;
+  botPersonality?: BotPersonality;
+  lobbyId?: string;
+  challengeId?: string;
+  ghostInputs?: number[];
+  opponentName?: string;
+}
+
+// How long to wait on a PvP opponent's log. The server voids the match a
+// minute after the first log is in, so this outlasts that.
+const RESULT_POLLS = 25;
+const RESULT_POLL_MS = 3000;
+
+// Invite links look like ?lobby=ABC123
+const readInviteCode = () => new URLSearchParams(window.location.search).get('lobby') ?? undefined;
+// Challenge links look like ?challenge=<id>
+const readChallengeId = () => new URLSearchParams(window.location.search).get('challenge') ?? undefined;
+// Arena links look like ?arena=<id>
+const readArenaLinkId = () => new URLSearchParams(window.location.search).get('arena') ?? undefined;
+
+const getInitialState = (inviteCode?: string, challengeId?: string): GameState => {
+  if (inviteCode) return 'lobby';
+  if (challengeId) return 'challenge';
+  return 'home';
+};
 
 // Create a client for React Query with proper error handling hello
 const queryClient = new QueryClient({
@@ -55,16 +111,57 @@ declare global {
 }
 
 function AppContent() {
-  const [gameState, setGameState] = useState<GameState | 'leaderboard'>('home');
+  const [inviteCode] = useState(readInviteCode);
+  const [challengeId] = useState(readChallengeId);
+  const [arenaLinkId] = useState(readArenaLinkId);
+  const [gameState, setGameState] = useState<GameState | 'leaderboard'>(() => getInitialState(inviteCode, challengeId));
   const [gameResult, setGameResult] = useState<GameResult | null>(null);
-  const [claimedReward, setClaimedReward] = useState<RouletteReward | null>(null);
+  const [claimedSpin, setClaimedSpin] = useState<{ spinId: string; reward: RouletteReward } | null>(null);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
-  const { rouletteKeys, addRouletteKeys, spendRouletteKeys, dailyGames, canPlayToday, incrementDailyGames } = useRouletteKeys();
+  const [matchTicket, setMatchTicket] = useState<MatchTicket | null>(null);
+  const [verificationStatus, setVerificationStatus] = useState<MatchVerificationStatus>('pending');
+  const [lastRecording, setLastRecording] = useState<MatchRecording | null>(null);
+  const [lastLog, setLastLog] = useState<MatchLog | null>(null);
+  const [isStartingChallenge, setIsStartingChallenge] = useState(false);
+  const [isJoiningTournament, setIsJoiningTournament] = useState(false);
+  const [isStartingTournament, setIsStartingTournament] = useState(false);
+  const [botPersonality, setBotPersonality] = useState<BotPersonality>('classic');
+  const [difficulty, setDifficulty] = useState<DifficultyChoice>('ADAPTIVE');
+  const [arenaId, setArenaId] = useState(DEFAULT_ARENA_ID);
+  const [teamMode, setTeamMode] = useState<TeamMode>(DEFAULT_TEAM_MODE);
+  const [matchLength, setMatchLength] = useState(DEFAULT_MATCH_LENGTH);
+  const [suddenDeath, setSuddenDeath] = useState(false);
+  const [brushPhysics, setBrushPhysics] = useState(false);
+  // An arena from a shared link or the editor, offered next to the built-in ones
+  const [customArena, setCustomArena] = useState<ArenaDefinition | null>(null);
+  const [arenaDraft, setArenaDraft] = useState(newArenaDraft);
+  const [isSavingArena, setIsSavingArena] = useState(false);
+  const [arenaTestSeed, setArenaTestSeed] = useState(0);
+  const [keysAwarded, setKeysAwarded] = useState(0);
+  const [ratingChange, setRatingChange] = useState<number | undefined>(undefined);
+  const [replayRecording, setReplayRecording] = useState<MatchRecording | null>(null);
+  const [replayReturnState, setReplayReturnState] = useState<GameState>('history');
   const { connectWallet, authenticateUser, isConnected, isAuthenticated, walletAddress } = useWallet();
-  const { user, updateUserStats } = useAuth();
+  const { rouletteKeys, refreshRouletteKeys, spinRouletteKey, dailyGames, canPlayToday, incrementDailyGames } = useRouletteKeys(isAuthenticated);
+  const { user, updateUserStats, updateSkillRating } = useAuth();
   const { leaderboard, updateLeaderboard } = useLeaderboard();
+  const ratingLeaderboard = useRatingLeaderboard(gameState === 'leaderboard');
+  const { recordings, addRecording } = useMatchHistory();
+  const pvp = usePvpLobby(user?.username || walletAddress?.slice(0, 8) || 'Player', getFarcasterContext()?.pfpUrl);
+  const linkedChallenge = useChallenge(challengeId);
+  const sentChallenges = useSentChallenges(gameState === 'history' && isAuthenticated);
+  const daily = useDailyChallenge(gameState === 'home' || gameState === 'leaderboard', isAuthenticated);
+  const tournaments = useTournaments(gameState === 'tournaments', isAuthenticated);
   const { toasts, removeToast, success, error, info, warning } = useToast();
 
+  // Challenge tickets carry the run to play against as a ghost
+  const ghostDriver = useMemo<DriverSetup | undefined>(
+    () => matchTicket?.ghostInputs ? { kind: 'ghost', ghostInputs: matchTicket.ghostInputs } : undefined,
+    [matchTicket]
+  );
+  const opponentName = matchTicket?.lobbyId ? pvp.opponentName ?? 'Opponent' : matchTicket?.opponentName;
+  const isSoloMatch = !!matchTicket && !matchTicket.lobbyId && !matchTicket.challengeId && !matchTicket.daily && !matchTicket.tournamentId;
+
   useEffect(() => {
     const initApp = async () => {
       await initializeFarcasterSdk();
@@ -73,6 +170,37 @@ function AppContent() {
     initApp();
   }, []);
 
+  // Preselect the arena a shared link points at
+  useEffect(() => {
+    if (!arenaLinkId) return;
+
+    getArena(arenaLinkId).then(response => {
+      if (!response.success || !response.arena) {
+        error(`Could not load arena: ${response.error || 'Unknown error'}`);
+        return;
+      }
+      setCustomArena(response.arena);
+      setArenaId(response.arena.id);
+      info(`Playing on ${response.arena.name} by ${response.creatorName ?? 'someone'}`);
+    });
+  }, [arenaLinkId, error, info]);
+
+  // Both players hold a ticket for the lobby and the host said go
+  useEffect(() => {
+    if (gameState === 'lobby' && pvp.hasStarted && pvp.lobby && matchTicket?.lobbyId === pvp.lobby.lobbyId) {
+      setGameResult(null);
+      setGameState('playing');
+    }
+  }, [gameState, pvp.hasStarted, pvp.lobby, matchTicket]);
+
+  useEffect(() => {
+    if (pvp.opponentLeft && (gameState === 'lobby' || gameState === 'playing')) {
+      warning('Your opponent left the match.');
+      pvp.leaveLobby();
+      setGameState('home');
+    }
+  }, [pvp, gameState, warning]);
+
 
   const handleAuthenticate = async () => {
     if (!isConnected || isAuthenticating) return;
@@ -96,38 +224,151 @@ function AppContent() {
     }
   };
 
+  // The arena a ticket was issued for, which the match must be played on
+  const resolveArena = async (id?: string): Promise<ArenaDefinition | undefined> => {
+    if (!id) return undefined;
+    if (customArena?.id === id) return customArena;
+    return arenaById(id) ?? (await getArena(id)).arena;
+  };
+
+  // Every match starts with a server-issued id and seed so the result can be
+  // re-simulated and verified afterwards
+  const beginMatch = async () => {
+    const ticket = await requestMatchTicket({ difficulty, arena: arenaId, teamMode, matchLength, suddenDeath, brushPhysics });
+    const arena = await resolveArena(ticket.arenaId);
+
+    if (!ticket.success || !ticket.matchId || ticket.seed === undefined || (ticket.arenaId && !arena)) {
+      error(`Could not start match: ${ticket.error || 'Unknown error'}`);
+      return;
+    }
+
+    setMatchTicket({
+      matchId: ticket.matchId,
+      seed: ticket.seed,
+      difficulty: ticket.difficulty,
+      botRating: ticket.botRating,
+      arena,
+      teamMode: ticket.teamMode,
+      matchLength: ticket.matchLength,
+      suddenDeath: ticket.suddenDeath,
+      brushPhysics: ticket.brushPhysics,
+    });
+    setGameResult(null);
+    setGameState('playing');
+  };
+
   const handleStartGame = () => {
     if (!canPlayToday || !isAuthenticated) return;
+    beginMatch();
+  };
+
+  // Everyone plays the same daily match; the server issues one ticket per day
+  const handleStartDaily = async () => {
+    if (!canPlayToday || !isAuthenticated) return;
+
+    const ticket = await requestMatchTicket({ daily: true });
+    const arena = await resolveArena(ticket.arenaId);
+
+    if (!ticket.success || !ticket.matchId || ticket.seed === undefined || !ticket.botPersonality || (ticket.arenaId && !arena)) {
+      error(`Could not start the daily challenge: ${ticket.error || 'Unknown error'}`);
+      daily.refresh();
+      return;
+    }
+
+    setMatchTicket({
+      matchId: ticket.matchId,
+      seed: ticket.seed,
+      difficulty: ticket.difficulty,
+      arena,
+      daily: true,
+      botPersonality: ticket.botPersonality,
+    });
+    setGameResult(null);
     setGameState('playing');
   };
 
-  const handleGameEnd = (result: GameResult) => {
-    setGameResult(result);
-    
-    // Increment daily game count
-    incrementDailyGames();
-    
-    // Award roulette key for win or draw
-    if (result.playerScore >= result.botScore) {
-      addRouletteKeys(1);
-      
+  const verifyMatch = async (matchId: string, log: MatchLog) => {
+    setVerificationStatus('pending');
+    setKeysAwarded(0);
+    setRatingChange(undefined);
+    let response = await submitMatchLog(matchId, log);
+
+    // A PvP result is held until the opponent's log is in too
+    for (let attempt = 0; response.pending && attempt < RESULT_POLLS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, RESULT_POLL_MS));
+      response = await fetchMatchResult(matchId);
+    }
+
+    if (response.voided) {
+      setVerificationStatus('voided');
+      info('Your opponent\'s match never came in, so this one doesn\'t count');
+      return;
+    }
+
+    if (response.pending) {
+      setVerificationStatus('rejected');
+      error('Could not get your match result from the server');
+      return;
+    }
+
+    if (!response.success || !response.verified || !response.result) {
+      setVerificationStatus('rejected');
+      error(`Match could not be verified: ${response.error || 'Unknown error'}`);
+      return;
+    }
+
+    const verifiedResult = response.result;
+    setVerificationStatus('verified');
+    setGameResult(verifiedResult);
+
+    if (response.rating) {
+      updateSkillRating(response.rating.rating);
+      setRatingChange(response.rating.change);
+    }
+
+    // The server stored the keys for a win or draw along with the result
+    const keys = response.rouletteKeysAwarded ?? 0;
+    if (keys > 0) {
+      refreshRouletteKeys();
+      setKeysAwarded(keys);
+
       // Update user stats if authenticated
       if (isAuthenticated && user) {
-        const wins = result.winner === 'player' ? 1 : 0;
+        const wins = verifiedResult.winner === 'player' ? 1 : 0;
         updateUserStats(1, wins, 0);
       }
     }
+  };
+
+  const handleGameEnd = (result: GameResult, log: MatchLog, recording: MatchRecording) => {
+    if (matchTicket?.lobbyId) {
+      pvp.endMatch();
+    }
+
+    setGameResult(result);
+    setLastRecording(recording);
+    setLastLog(log);
+    addRecording(recording);
+    
+    // Increment daily game count
+    incrementDailyGames();
     
     setGameState('postGame');
+
+    if (matchTicket) {
+      verifyMatch(matchTicket.matchId, log);
+    }
   };
 
   const handlePlayAgain = () => {
     if (!canPlayToday) return;
-    setGameResult(null);
-    setGameState('playing');
+    beginMatch();
   };
 
   const handleBackToHome = () => {
+    if (pvp.lobby) {
+      pvp.leaveLobby();
+    }
     setGameResult(null);
     setGameState('home');
   };
@@ -140,20 +381,175 @@ function AppContent() {
     setGameState('leaderboard');
   };
 
-  const handleRouletteResult = (reward: RouletteReward) => {
-    if (reward.type === 'inGameCurrency') {
-      addRouletteKeys(reward.amount);
-    } else if (reward.type === 'onChainToken') {
-      if (isAuthenticated && user) {
-        updateUserStats(0, 0, reward.amount);
-      }
+  const handlePlayFriend = () => {
+    setGameState('lobby');
+  };
+
+  const handleShowTournaments = () => {
+    setGameState('tournaments');
+  };
+
+  const handleJoinTournament = async (tournamentId: string) => {
+    setIsJoiningTournament(true);
+    const response = await joinTournament(tournamentId);
+    setIsJoiningTournament(false);
+
+    if (!response.success) {
+      error(`Could not join tournament: ${response.error || 'Unknown error'}`);
+    } else {
+      success('You are in! Come back when the first round starts.');
     }
+    tournaments.refresh();
+  };
 
-    setClaimedReward(reward);
+  // Play this round's pairing; the server knows which one is ours
+  const handlePlayTournament = async (tournament: TournamentSummary) => {
+    if (!canPlayToday || !isAuthenticated) return;
+
+    setIsStartingTournament(true);
+    const ticket = await requestMatchTicket({ tournamentId: tournament.id });
+    const arena = await resolveArena(ticket.arenaId);
+    setIsStartingTournament(false);
+
+    if (!ticket.success || !ticket.matchId || ticket.seed === undefined || !ticket.botPersonality || (ticket.arenaId && !arena)) {
+      error(`Could not start the tournament match: ${ticket.error || 'Unknown error'}`);
+      tournaments.refresh();
+      return;
+    }
+
+    setMatchTicket({
+      matchId: ticket.matchId,
+      seed: ticket.seed,
+      difficulty: ticket.difficulty,
+      arena,
+      tournamentId: tournament.id,
+      botPersonality: ticket.botPersonality,
+    });
+    setGameResult(null);
+    setGameState('playing');
+  };
+
+  // Take a ticket for the lobby's match before telling the opponent we're ready
+  const handlePvpReady = async () => {
+    if (!pvp.lobby) return;
+
+    const ticket = await requestMatchTicket({ lobbyId: pvp.lobby.lobbyId });
+    if (!ticket.success || !ticket.matchId || ticket.seed === undefined) {
+      error(`Could not start match: ${ticket.error || 'Unknown error'}`);
+      return;
+    }
+
+    setMatchTicket({ matchId: ticket.matchId, seed: ticket.seed, lobbyId: pvp.lobby.lobbyId });
+    pvp.markReady();
+  };
+
+  // Race the challenger's recorded run on the seed they played
+  const handleAcceptChallenge = async () => {
+    const challenge = linkedChallenge.challenge;
+    if (!challenge || !canPlayToday || !isAuthenticated) return;
+
+    setIsStartingChallenge(true);
+    const ticket = await requestMatchTicket({ challengeId: challenge.id });
+    const arena = await resolveArena(ticket.arenaId);
+    setIsStartingChallenge(false);
+
+    if (!ticket.success || !ticket.matchId || ticket.seed === undefined || !ticket.ghostInputs || (ticket.arenaId && !arena)) {
+      error(`Could not start challenge: ${ticket.error || 'Unknown error'}`);
+      return;
+    }
+
+    setMatchTicket({
+      matchId: ticket.matchId,
+      seed: ticket.seed,
+      challengeId: challenge.id,
+      ghostInputs: ticket.ghostInputs,
+      opponentName: challenge.challengerName,
+      arena,
+      matchLength: ticket.matchLength,
+      suddenDeath: ticket.suddenDeath,
+      brushPhysics: ticket.brushPhysics,
+    });
+    setGameResult(null);
+    setGameState('playing');
+  };
+
+  const handleChallengeFriend = async () => {
+    if (!matchTicket || !lastLog || !gameResult) return;
+
+    info('Creating challenge...');
+    const response = await createChallenge(matchTicket.matchId, lastLog);
+
+    if (!response.success || !response.challengeId) {
+      error(`Could not create challenge: ${response.error || 'Unknown error'}`);
+      return;
+    }
+
+    composeCast(
+      `I painted ${gameResult.playerScore}% in Color Clash. Think you can beat my ghost? 👻`,
+      [getChallengeLink(response.challengeId)]
+    );
+  };
+
+  const handleShareInvite = (inviteLink: string) => {
+    composeCast('Think you can out-paint me? Join my Color Clash match! 🎨', [inviteLink]);
+  };
+
+  const handleOpenArenaEditor = () => {
+    setGameState('arenaEditor');
+  };
+
+  // Test matches against the bot are local only: no ticket, no verification
+  const handleTestArena = () => {
+    setArenaTestSeed(crypto.getRandomValues(new Uint32Array(1))[0]);
+    setGameState('arenaTest');
+  };
+
+  const handleArenaTestEnd = (result: GameResult) => {
+    info(`Test match: you ${result.playerScore}% - bot ${result.botScore}%`);
+    setGameState('arenaEditor');
+  };
+
+  const handleSaveArena = async () => {
+    setIsSavingArena(true);
+    const response = await saveArena(arenaDraft);
+    setIsSavingArena(false);
+
+    if (!response.success || !response.arena) {
+      error(`Could not save arena: ${response.error || 'Unknown error'}`);
+      return;
+    }
+
+    setArenaDraft(response.arena);
+    setCustomArena(response.arena);
+    setArenaId(response.arena.id);
+    success('Arena saved! Share it with your friends.');
+  };
+
+  const handleShareArena = (id: string) => {
+    composeCast('I built a Color Clash arena. Think you can win on it? 🧱', [getArenaLink(id)]);
+  };
+
+  const handleShowHistory = () => {
+    setGameState('history');
+  };
+
+  const handleWatchReplay = (recording: MatchRecording, returnTo: GameState) => {
+    setReplayRecording(recording);
+    setReplayReturnState(returnTo);
+    setGameState('replay');
+  };
+
+  // Keys won on the wheel are already in the count the spin returned
+  const handleRouletteResult = (spinId: string, reward: RouletteReward) => {
+    if (reward.type === 'onChainToken' && isAuthenticated && user) {
+      updateUserStats(0, 0, reward.amount);
+    }
+
+    setClaimedSpin({ spinId, reward });
   };
 
   const handleCloseRewardModal = () => {
-    setClaimedReward(null);
+    setClaimedSpin(null);
   };
 
   return (
@@ -168,32 +564,77 @@ function AppContent() {
               isConnected={isConnected}
               isAuthenticated={isAuthenticated}
               isAuthenticating={isAuthenticating}
+              botPersonality={botPersonality}
+              onSelectBotPersonality={setBotPersonality}
+              difficulty={difficulty}
+              onSelectDifficulty={setDifficulty}
+              teamMode={teamMode}
+              onSelectTeamMode={setTeamMode}
+              matchLength={matchLength}
+              onSelectMatchLength={setMatchLength}
+              suddenDeath={suddenDeath}
+              onToggleSuddenDeath={() => setSuddenDeath(prev => !prev)}
+              brushPhysics={brushPhysics}
+              onSelectBrushPhysics={setBrushPhysics}
+              dailyChallenge={daily.challenge}
+              dailyStanding={daily.standing}
+              dailyPlayers={daily.totalPlayers}
+              hasPlayedDaily={daily.hasPlayed}
+              onStartDaily={handleStartDaily}
+              arenaId={arenaId}
+              customArena={customArena}
+              onSelectArena={setArenaId}
+              onOpenArenaEditor={handleOpenArenaEditor}
+              skillRating={user?.skill_rating}
               onStartGame={handleStartGame}
               onSpinRoulette={handleSpinRoulette}
               onShowLeaderboard={handleShowLeaderboard}
+              onShowHistory={handleShowHistory}
+              onShowTournaments={handleShowTournaments}
+              onPlayFriend={handlePlayFriend}
               onConnectWallet={connectWallet}
               onAuthenticate={handleAuthenticate}
             />
           )}
           
-          {gameState === 'playing' && (
+          {gameState === 'playing' && matchTicket && (
             <GameScreen 
+              key={matchTicket.matchId}
+              matchId={matchTicket.matchId}
+              seed={matchTicket.seed}
               onGameEnd={handleGameEnd}
               onExit={handleBackToHome}
+              driver={matchTicket.lobbyId ? pvp.driver ?? undefined : ghostDriver}
+              opponentName={opponentName}
+              opponentAvatar={matchTicket.lobbyId ? pvp.opponentAvatar ?? undefined : undefined}
+              botPersonality={matchTicket.botPersonality ?? botPersonality}
+              difficulty={matchTicket.difficulty}
+              botRating={matchTicket.botRating}
+              arena={matchTicket.arena}
+              teamMode={matchTicket.teamMode}
+              matchLength={matchTicket.matchLength}
+              suddenDeath={matchTicket.suddenDeath}
+              brushPhysics={matchTicket.brushPhysics}
             />
           )}
           
           {gameState === 'postGame' && gameResult && (
             <PostGameScreen
+              matchId={matchTicket?.matchId}
               result={gameResult}
+              verificationStatus={verificationStatus}
               onPlayAgain={handlePlayAgain}
               onSpinRoulette={handleSpinRoulette}
               onBackToHome={handleBackToHome}
+              onWatchReplay={lastRecording ? () => handleWatchReplay(lastRecording, 'postGame') : undefined}
+              onChallengeFriend={isSoloMatch && !matchTicket?.teamMode && lastLog ? handleChallengeFriend : undefined}
+              opponentName={opponentName}
+              keysAwarded={keysAwarded}
+              ratingChange={ratingChange}
               isWalletConnected={isConnected && isAuthenticated}
               onConnectWallet={connectWallet}
               canPlayToday={canPlayToday}
               walletAddress={walletAddress}
-              username={user?.username}
               showToast={{ success, error, info, warning }}
             />
           )}
@@ -202,7 +643,7 @@ function AppContent() {
             <RouletteScreen
               rouletteRewards={ROULETTE_REWARDS}
               rouletteKeys={rouletteKeys}
-              onSpendKeys={spendRouletteKeys}
+              onSpin={spinRouletteKey}
               onResult={handleRouletteResult}
               onBack={gameResult ? () => setGameState('postGame') : handleBackToHome}
               walletAddress={walletAddress}
@@ -216,18 +657,113 @@ function AppContent() {
           {gameState === 'leaderboard' && (
             <LeaderboardScreen 
               leaderboard={leaderboard}
+              ratings={ratingLeaderboard.ratings}
+              isLoadingRatings={ratingLeaderboard.isLoading}
+              dailyLeaderboard={daily.leaderboard}
+              isLoadingDaily={daily.isLoading}
               onBack={handleBackToHome}
               currentUserAddress={walletAddress}
             />
           )}
           
-          {claimedReward && (
+          {gameState === 'lobby' && (
+            <PvpLobbyScreen
+              lobby={pvp.lobby}
+              opponentName={pvp.opponentName}
+              isReady={pvp.isReady}
+              isOpponentReady={pvp.isOpponentReady}
+              isConnecting={pvp.isConnecting}
+              isAuthenticated={isAuthenticated}
+              error={pvp.error}
+              initialInviteCode={inviteCode}
+              onCreateLobby={pvp.createLobby}
+              onJoinLobby={pvp.joinLobby}
+              onReady={handlePvpReady}
+              onShareInvite={handleShareInvite}
+              onLeave={handleBackToHome}
+            />
+          )}
+
+          {gameState === 'challenge' && (
+            <ChallengeScreen
+              challenge={linkedChallenge.challenge}
+              isLoading={linkedChallenge.isLoading}
+              error={linkedChallenge.error}
+              isAuthenticated={isAuthenticated}
+              canPlayToday={canPlayToday}
+              isStarting={isStartingChallenge}
+              onAccept={handleAcceptChallenge}
+              onBack={handleBackToHome}
+            />
+          )}
+
+          {gameState === 'tournaments' && (
+            <TournamentScreen
+              tournaments={tournaments.tournaments}
+              detail={tournaments.detail}
+              selectedId={tournaments.selectedId}
+              isLoading={tournaments.isLoading}
+              isAuthenticated={isAuthenticated}
+              canPlayToday={canPlayToday}
+              isJoining={isJoiningTournament}
+              isStarting={isStartingTournament}
+              onSelect={tournaments.select}
+              onJoin={handleJoinTournament}
+              onPlay={handlePlayTournament}
+              onBack={handleBackToHome}
+            />
+          )}
+
+          {gameState === 'arenaEditor' && (
+            <ArenaEditorScreen
+              draft={arenaDraft}
+              onChange={setArenaDraft}
+              isSaving={isSavingArena}
+              onTestPlay={handleTestArena}
+              onSave={handleSaveArena}
+              onShare={handleShareArena}
+              onBack={handleBackToHome}
+            />
+          )}
+
+          {gameState === 'arenaTest' && (
+            <GameScreen
+              key={arenaTestSeed}
+              matchId={`arena-test-${arenaTestSeed}`}
+              seed={arenaTestSeed}
+              onGameEnd={handleArenaTestEnd}
+              onExit={() => setGameState('arenaEditor')}
+              botPersonality={botPersonality}
+              arena={arenaDraft}
+            />
+          )}
+
+          {gameState === 'history' && (
+            <MatchHistoryScreen
+              recordings={recordings}
+              challenges={sentChallenges.challenges}
+              onWatchReplay={(recording) => handleWatchReplay(recording, 'history')}
+              onBack={handleBackToHome}
+            />
+          )}
+
+          {gameState === 'replay' && replayRecording && (
+            <ReplayScreen
+              key={replayRecording.id}
+              recording={replayRecording}
+              onBack={() => setGameState(replayReturnState)}
+            />
+          )}
+
+          {claimedSpin && (
             <RewardClaimedModal
-              reward={claimedReward}
+              reward={claimedSpin.reward}
+              spinId={claimedSpin.spinId}
               onClose={handleCloseRewardModal}
               walletAddress={walletAddress}
               onSpinAgain={handleSpinRoulette}
               hasMoreKeys={rouletteKeys > 0}
+              recording={lastRecording}
             />
           )}
         </div>
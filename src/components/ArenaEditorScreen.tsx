@@ -0,0 +1,320 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Eraser, Play, Save, Share2, Trash2, Undo2 } from 'lucide-react';
+import { ArenaDefinition, ArenaShape, Point, Team } from '../types/game';
+import { GAME_SETTINGS } from '../config/gameConfig';
+import { DRAFT_ARENA_ID, newArenaDraft } from '../config/arenas';
+import { isPaintable, MIN_PAINTABLE_SHARE, paintableShare, parseArena, shapeContains } from '../engine/arena';
+import { ARENA_COLORS, drawArena, fillArenaShapes, teamColors } from '../render/paintLayer';
+
+type EditorTool = 'wall' | 'hole' | 'bonus' | 'playerSpawn' | 'botSpawn' | 'erase';
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'wall', label: 'WALL' },
+  { tool: 'hole', label: 'HOLE' },
+  { tool: 'bonus', label: 'BONUS' },
+  { tool: 'playerSpawn', label: 'YOU' },
+  { tool: 'botSpawn', label: 'BOT' },
+  { tool: 'erase', label: 'ERASE' },
+];
+
+const SPAWN_TOOLS: Partial<Record<EditorTool, Team>> = { playerSpawn: 'player', botSpawn: 'bot' };
+const TEAM_COLORS = teamColors(GAME_SETTINGS);
+
+const PREVIEW_COLORS: Partial<Record<EditorTool, string>> = {
+  wall: ARENA_COLORS.wall,
+  hole: ARENA_COLORS.hole,
+  bonus: ARENA_COLORS.bonus,
+};
+
+// Everything snaps to a 10px grid
+const GRID = 10;
+const SPAWN_MARKER_RADIUS = 14;
+
+const snap = (value: number) => Math.round(value / GRID) * GRID;
+
+// The shape a drag from `start` to `end` draws with the current tool
+const shapeForDrag = (tool: EditorTool, start: Point, end: Point): ArenaShape | null => {
+  if (tool === 'wall') {
+    const x = Math.min(start.x, end.x);
+    const y = Math.min(start.y, end.y);
+    const width = Math.abs(end.x - start.x);
+    const height = Math.abs(end.y - start.y);
+    return width >= GRID && height >= GRID ? { kind: 'rect', x, y, width, height } : null;
+  }
+  if (tool === 'hole' || tool === 'bonus') {
+    const radius = snap(Math.hypot(end.x - start.x, end.y - start.y));
+    return radius >= GRID ? { kind: 'circle', x: start.x, y: start.y, radius } : null;
+  }
+  return null;
+};
+
+// Topmost shape under the point goes first: walls, then holes, then bonus zones
+const eraseAt = (arena: ArenaDefinition, { x, y }: Point): ArenaDefinition | null => {
+  for (const key of ['walls', 'holes', 'bonusZones'] as const) {
+    const shapes = arena[key];
+    const index = shapes.map(shape => shapeContains(shape, x, y)).lastIndexOf(true);
+    if (index >= 0) {
+      return { ...arena, [key]: shapes.filter((_, i) => i !== index) };
+    }
+  }
+  return null;
+};
+
+interface ArenaEditorScreenProps {
+  draft: ArenaDefinition;
+  onChange: (draft: ArenaDefinition) => void;
+  isSaving: boolean;
+  onTestPlay: () => void;
+  onSave: () => void;
+  onShare: (arenaId: string) => void;
+  onBack: () => void;
+}
+
+const ArenaEditorScreen: React.FC<ArenaEditorScreenProps> = ({
+  draft,
+  onChange,
+  isSaving,
+  onTestPlay,
+  onSave,
+  onShare,
+  onBack,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<EditorTool>('wall');
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const [history, setHistory] = useState<ArenaDefinition[]>([]);
+  const [hint, setHint] = useState<string | null>(null);
+
+  const { canvasWidth, canvasHeight } = GAME_SETTINGS;
+  const isPlayable = parseArena(draft, GAME_SETTINGS) !== null;
+  // A saved arena keeps its id until it is edited again
+  const savedArenaId = draft.id !== DRAFT_ARENA_ID ? draft.id : null;
+  const preview = dragStart && dragEnd ? shapeForDrag(tool, dragStart, dragEnd) : null;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    drawArena(ctx, { ...GAME_SETTINGS, arena: draft });
+
+    for (const team of ['player', 'bot'] as Team[]) {
+      const { x, y } = draft.spawns[team];
+      ctx.fillStyle = TEAM_COLORS[team];
+      ctx.strokeStyle = '#333333';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(x, y, SPAWN_MARKER_RADIUS, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = '900 14px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(team === 'player' ? 'P' : 'B', x, y);
+    }
+
+    const previewColor = PREVIEW_COLORS[tool];
+    if (preview && previewColor) {
+      ctx.globalAlpha = 0.6;
+      fillArenaShapes(ctx, [preview], previewColor);
+      ctx.globalAlpha = 1;
+    }
+  }, [draft, preview, tool]);
+
+  const edit = (next: ArenaDefinition) => {
+    setHistory(prev => [...prev, draft]);
+    setHint(null);
+    onChange({ ...next, id: DRAFT_ARENA_ID });
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent): Point | null => {
+    if (!canvasRef.current) return null;
+    const rect = canvasRef.current.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(canvasWidth, snap(((e.clientX - rect.left) / rect.width) * canvasWidth))),
+      y: Math.max(0, Math.min(canvasHeight, snap(((e.clientY - rect.top) / rect.height) * canvasHeight))),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const point = toCanvasPoint(e);
+    if (!point) return;
+
+    const spawnTeam = SPAWN_TOOLS[tool];
+    if (spawnTeam) {
+      if (isPaintable(draft, point.x, point.y)) {
+        edit({ ...draft, spawns: { ...draft.spawns, [spawnTeam]: point } });
+      } else {
+        setHint('Spawn points must be off walls and holes');
+      }
+      return;
+    }
+
+    if (tool === 'erase') {
+      const erased = eraseAt(draft, point);
+      if (erased) edit(erased);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    setDragEnd(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (preview) {
+      if (tool === 'wall') edit({ ...draft, walls: [...draft.walls, preview] });
+      if (tool === 'hole') edit({ ...draft, holes: [...draft.holes, preview] });
+      if (tool === 'bonus') edit({ ...draft, bonusZones: [...draft.bonusZones, preview] });
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory(prev => prev.slice(0, -1));
+    onChange(previous);
+  };
+
+  const handleClear = () => {
+    edit({ ...newArenaDraft(), name: draft.name, description: draft.description });
+  };
+
+  const getBlockingReason = () => {
+    if (!draft.name.trim()) return 'Give your arena a name';
+    if (paintableShare(draft, GAME_SETTINGS) < MIN_PAINTABLE_SHARE) return 'Leave more of the board open to paint';
+    if (!isPlayable) return 'A spawn point is blocked or a shape is off the board';
+    return null;
+  };
+
+  const blockingReason = getBlockingReason();
+
+  return (
+    <div className="h-screen flex flex-col p-4 bg-[#D8CFAF]">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={onBack}
+          className="w-12 h-12 bg-white rounded-full border-3 border-[#333333]
+                     flex items-center justify-center shadow-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={24} color="#333333" />
+        </button>
+
+        <input
+          value={draft.name}
+          onChange={e => onChange({ ...draft, id: DRAFT_ARENA_ID, name: e.target.value })}
+          maxLength={24}
+          className="mx-3 flex-1 min-w-0 bg-white rounded-xl border-3 border-[#333333] px-3 py-2
+                     text-[#333333] text-lg font-black text-center"
+        />
+
+        <button
+          onClick={handleUndo}
+          disabled={history.length === 0}
+          className="w-12 h-12 bg-white rounded-full border-3 border-[#333333]
+                     flex items-center justify-center shadow-lg hover:bg-gray-100 disabled:opacity-40"
+        >
+          <Undo2 size={24} color="#333333" />
+        </button>
+      </div>
+
+      {/* Tools */}
+      <div className="grid grid-cols-6 gap-1 mb-3">
+        {TOOLS.map(option => (
+          <button
+            key={option.tool}
+            onClick={() => setTool(option.tool)}
+            className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                       active:transform active:scale-95 transition-all duration-200
+                       flex items-center justify-center
+                       ${option.tool === tool
+                         ? 'bg-[#333333] text-white'
+                         : 'bg-white text-[#333333] hover:bg-gray-100'
+                       }`}
+          >
+            {option.tool === 'erase' ? <Eraser size={16} /> : option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Board */}
+      <div className="flex-1 relative min-h-0">
+        <canvas
+          ref={canvasRef}
+          width={canvasWidth}
+          height={canvasHeight}
+          className="w-full h-full touch-none border-4 border-[#333333] shadow-2xl rounded-lg"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          style={{ imageRendering: 'pixelated' }}
+        />
+      </div>
+
+      {(blockingReason || hint) && (
+        <p className="text-[#333333] text-xs text-center font-bold opacity-70 mt-2">{blockingReason ?? hint}</p>
+      )}
+
+      {/* Actions */}
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        <button
+          onClick={handleClear}
+          className="bg-white text-[#333333] py-3 rounded-2xl border-4 border-[#333333] shadow-lg
+                     hover:bg-gray-100 active:transform active:scale-95 transition-all duration-200
+                     flex items-center justify-center space-x-2 font-black"
+        >
+          <Trash2 size={20} />
+          <span>CLEAR</span>
+        </button>
+
+        <button
+          onClick={onTestPlay}
+          disabled={!isPlayable}
+          className="bg-[#3DB4D8] text-white py-3 rounded-2xl border-4 border-[#333333] shadow-lg
+                     hover:bg-[#2A9BC1] active:transform active:scale-95 transition-all duration-200
+                     disabled:bg-gray-400 disabled:cursor-not-allowed
+                     flex items-center justify-center space-x-2 font-black"
+        >
+          <Play size={20} />
+          <span>TEST</span>
+        </button>
+
+        {savedArenaId ? (
+          <button
+            onClick={() => onShare(savedArenaId)}
+            className="bg-[#E86A5D] text-white py-3 rounded-2xl border-4 border-[#333333] shadow-lg
+                       hover:bg-[#d85a4c] active:transform active:scale-95 transition-all duration-200
+                       flex items-center justify-center space-x-2 font-black"
+          >
+            <Share2 size={20} />
+            <span>SHARE</span>
+          </button>
+        ) : (
+          <button
+            onClick={onSave}
+            disabled={!!blockingReason || isSaving}
+            className="bg-[#E86A5D] text-white py-3 rounded-2xl border-4 border-[#333333] shadow-lg
+                       hover:bg-[#d85a4c] active:transform active:scale-95 transition-all duration-200
+                       disabled:bg-gray-400 disabled:cursor-not-allowed
+                       flex items-center justify-center space-x-2 font-black"
+          >
+            <Save size={20} />
+            <span>{isSaving ? 'SAVING' : 'SAVE'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArenaEditorScreen;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { ArrowLeft, Ghost, Swords } from 'lucide-react';
+import { Challenge } from '../services/challengeService';
+
+interface ChallengeScreenProps {
+  challenge: Challenge | null;
+  isLoading: boolean;
+  error: string | null;
+  isAuthenticated: boolean;
+  canPlayToday: boolean;
+  isStarting: boolean;
+  onAccept: () => void;
+  onBack: () => void;
+}
+
+const ChallengeScreen: React.FC<ChallengeScreenProps> = ({
+  challenge,
+  isLoading,
+  error,
+  isAuthenticated,
+  canPlayToday,
+  isStarting,
+  onAccept,
+  onBack,
+}) => {
+  const getBlockingReason = () => {
+    if (!challenge) return null;
+    if (challenge.isCompleted) return 'This challenge has already been played';
+    if (!isAuthenticated) return 'Sign in to accept the challenge';
+    if (!canPlayToday) return 'Daily limit reached! Come back tomorrow.';
+    return null;
+  };
+
+  const blockingReason = getBlockingReason();
+
+  return (
+    <div className="h-screen flex flex-col p-6 bg-[#D8CFAF]">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <button
+          onClick={onBack}
+          className="w-12 h-12 bg-white rounded-full border-3 border-[#333333]
+                     flex items-center justify-center shadow-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={24} color="#333333" />
+        </button>
+
+        <h1 className="text-3xl font-black text-[#333333]">CHALLENGE</h1>
+
+        <div className="w-12 h-12"></div> {/* Spacer */}
+      </div>
+
+      {isLoading ? (
+        <p className="text-[#333333] text-center font-bold animate-pulse py-12">Loading challenge...</p>
+      ) : !challenge ? (
+        <div className="text-center py-12">
+          <Ghost size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
+          <p className="text-[#333333] text-xl font-bold opacity-70">
+            {error || 'Challenge not found'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6 w-full max-w-sm mx-auto">
+          <div className="bg-white rounded-2xl border-4 border-[#333333] p-6 shadow-lg text-center space-y-3">
+            <Swords size={48} color="#333333" className="mx-auto" />
+            <p className="text-[#333333] text-xl font-black">
+              {challenge.challengerName} painted {challenge.challengerScore}% of the board
+            </p>
+            <p className="text-[#333333] text-sm opacity-70">
+              Race their recorded run on the same board. Every stroke they made replays against you.
+            </p>
+          </div>
+
+          <button
+            onClick={onAccept}
+            disabled={!!blockingReason || isStarting}
+            className="w-full bg-[#E86A5D] text-white text-2xl py-4 px-8 rounded-2xl
+                       border-4 border-[#333333] shadow-lg hover:bg-[#d85a4c]
+                       active:transform active:scale-95 transition-all duration-200
+                       disabled:bg-gray-400 disabled:cursor-not-allowed
+                       flex items-center justify-center space-x-3"
+          >
+            <Ghost size={32} />
+            <span>{isStarting ? 'STARTING...' : 'ACCEPT'}</span>
+          </button>
+
+          {blockingReason && (
+            <p className="text-[#333333] text-center font-bold opacity-70">{blockingReason}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChallengeScreen;
@@ -1,174 +1,276 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { X, Zap, Bomb, Maximize2 } from 'lucide-react';
-import { GameResult, PowerUp } from '../types/game';
-import { GAME_SETTINGS } from '../config/gameConfig';
-import { usePaintCanvas } from '../hooks/usePaintCanvas';
-import { useBotAI } from '../hooks/useBotAI';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { Bot, Pause, Play, X } from 'lucide-react';
+import {
+  ArenaDefinition,
+  BotPersonality,
+  DifficultyLevel,
+  GameResult,
+  MatchLog,
+  MatchRecording,
+  Point,
+  SimulationInputType,
+  Team,
+  TeamMode
+} from '../types/game';
+import { BOT_PERSONALITY_OPTIONS, DIFFICULTY_OPTIONS, settingsForMatch } from '../config/gameConfig';
+import { useCanvasLayers } from '../hooks/useCanvasLayers';
+import { teamColors } from '../render/paintLayer';
+import { useGameSimulation } from '../hooks/useGameSimulation';
 import { usePowerUps } from '../hooks/usePowerUps';
 import { useGameTimer } from '../hooks/useGameTimer';
+import { useGameLoop } from '../hooks/useGameLoop';
+import { LockstepLink } from '../engine/lockstep';
+import { DriverSetup } from '../engine/simulationHost';
+import { POWER_UP_DEFINITIONS } from '../engine/powerUps';
+import PowerUpIcon from './PowerUpIcon';
+
+// Power-ups that leave an effect on a brush, shown while it lasts
+const TIMED_POWER_UPS = POWER_UP_DEFINITIONS.filter(definition => definition.effect);
+
+// The intro shows the opponent and the arena for this long, then counts down
+const INTRO_MS = 2500;
+const COUNTDOWN_SECONDS = 3;
+// How long "GO!" stays up once the match is live
+const GO_FLASH_MS = 600;
+
+// Seconds counted down before a paused match picks up again
+const RESUME_COUNTDOWN_SECONDS = 3;
 
 interface GameScreenProps {
-  onGameEnd: (result: GameResult) => void;
+  matchId: string;
+  seed: number;
+  onGameEnd: (result: GameResult, log: MatchLog, recording: MatchRecording) => void;
   onExit: () => void;
+  // Defaults to single player against the bot
+  driver?: DriverSetup | LockstepLink;
+  opponentName?: string;
+  opponentAvatar?: string;
+  // Only used against the built-in bot
+  botPersonality?: BotPersonality;
+  difficulty?: DifficultyLevel;
+  // Set for adaptive matches, whose bot is sized to this rating
+  botRating?: number;
+  // Defaults to the classic arena
+  arena?: ArenaDefinition;
+  // Defaults to a duel
+  teamMode?: TeamMode;
+  // Seconds; defaults to DEFAULT_MATCH_LENGTH
+  matchLength?: number;
+  suddenDeath?: boolean;
+  // Brushes chase the pointer instead of jumping to it
+  brushPhysics?: boolean;
 }
 
-const GameScreen: React.FC<GameScreenProps> = ({ onGameEnd, onExit }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [gameStarted, setGameStarted] = useState(false);
-  const [playerScore, setPlayerScore] = useState(0);
-  const [botScore, setBotScore] = useState(0);
+const GameScreen: React.FC<GameScreenProps> = ({
+  matchId,
+  seed,
+  onGameEnd,
+  onExit,
+  driver,
+  opponentName,
+  opponentAvatar,
+  botPersonality,
+  difficulty,
+  botRating,
+  arena,
+  teamMode,
+  matchLength,
+  suddenDeath,
+  brushPhysics
+}) => {
+  const boardRef = useRef<HTMLDivElement>(null);
   const [isPointerDown, setIsPointerDown] = useState(false);
+  const [resumeCountdown, setResumeCountdown] = useState<number | null>(null);
+  // Must match the settings the server replays this ticket with
+  const [settings] = useState(() => settingsForMatch({ difficulty, botRating, arena, teamMode, matchLength, suddenDeath, brushPhysics }));
+  const colors = useMemo(() => teamColors(settings), [settings]);
+
+  const {
+    isRunning,
+    isPaused,
+    countdown,
+    startTimer,
+    extendTimer,
+    stopTimer,
+    pauseTimer,
+    resumeTimer,
+    getElapsed
+  } = useGameTimer();
+  const { initializeCanvas, renderer, setScene } = useCanvasLayers(boardRef, settings);
+  const {
+    state,
+    localTeam,
+    opponent,
+    botPersonality: matchPersonality,
+    duration,
+    isWaitingForOpponent,
+    outcome,
+    advance,
+    hold,
+    sendInput
+  } = useGameSimulation(settings, renderer, { matchId, seed, driver, botPersonality });
+
+  const { timeLeft, isOvertime, brushes, effects, scores, zones } = state;
+  const { powerUps } = usePowerUps(state);
+  const [playerTeam, ...rivalTeams] = settings.teams;
+  // Team names only matter once a side has more than one brush or there are more than two sides
+  const showTeamNames = rivalTeams.length > 1 || settings.teams.some(team => team.allies > 0);
+  // A PvP opponent would be left waiting, so only matches against bots pause
+  const canPause = opponent !== 'remote';
+
+  // Where the pointer last was, in game units, for lifting it on pause
+  const lastPointerRef = useRef<Point>({ x: 0, y: 0 });
+
+  // Pointer events only become simulation inputs; painting happens on the next tick
+  const queuePointerInput = useCallback((type: SimulationInputType, e: React.PointerEvent) => {
+    if (!isRunning || isPaused || !boardRef.current) return;
+
+    const rect = boardRef.current.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * settings.canvasWidth;
+    const y = ((e.clientY - rect.top) / rect.height) * settings.canvasHeight;
+
+    lastPointerRef.current = { x, y };
+    sendInput(type, getElapsed(), x, y);
+  }, [isRunning, isPaused, settings, sendInput, getElapsed]);
 
-  const { timeLeft, startTimer, isRunning } = useGameTimer(GAME_SETTINGS.timer);
-  
-  const { 
-    paintPixel, 
-    paintSplat, 
-    calculateScores, 
-    initializeCanvas,
-    playerBrush,
-    setPlayerBrush,
-    playerEffects,
-    setPlayerEffects
-  } = usePaintCanvas(canvasRef, GAME_SETTINGS);
-
-  const { 
-    powerUps, 
-    checkPowerUpCollision, 
-    updatePowerUps 
-  } = usePowerUps(GAME_SETTINGS);
-
-  const { 
-    botPosition, 
-    botEffects,
-    updateBotAI 
-  } = useBotAI(GAME_SETTINGS, powerUps, paintPixel, paintSplat, calculateScores);
-
-  // Handle touch/mouse events for player painting
   const handlePointerDown = useCallback((e: React.PointerEvent) => {
-    if (!isRunning || !canvasRef.current) return;
-    
     setIsPointerDown(true);
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * GAME_SETTINGS.canvasWidth;
-    const y = ((e.clientY - rect.top) / rect.height) * GAME_SETTINGS.canvasHeight;
-
-    setPlayerBrush({ x, y });
-    
-    const brushSize = playerEffects.enlarge ? GAME_SETTINGS.brushSize * 1.8 : GAME_SETTINGS.brushSize;
-    paintPixel(x, y, 'player', brushSize, false);
-
-    // Check power-up collisions
-    const collectedPowerUp = checkPowerUpCollision(x, y, GAME_SETTINGS.brushSize);
-    if (collectedPowerUp) {
-      handlePowerUpCollection(collectedPowerUp);
-    }
-  }, [isRunning, checkPowerUpCollision, paintPixel, setPlayerBrush, playerEffects.enlarge]);
+    queuePointerInput('pointerDown', e);
+  }, [queuePointerInput]);
 
   const handlePointerMove = useCallback((e: React.PointerEvent) => {
-    if (!isRunning || !canvasRef.current || !isPointerDown) return;
+    if (!isPointerDown) return;
+    queuePointerInput('pointerMove', e);
+  }, [isPointerDown, queuePointerInput]);
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * GAME_SETTINGS.canvasWidth;
-    const y = ((e.clientY - rect.top) / rect.height) * GAME_SETTINGS.canvasHeight;
+  const handlePointerUp = useCallback((e: React.PointerEvent) => {
+    if (!isPointerDown) return;
+    setIsPointerDown(false);
+    queuePointerInput('pointerUp', e);
+  }, [isPointerDown, queuePointerInput]);
 
-    setPlayerBrush({ x, y });
-    
-    const brushSize = playerEffects.enlarge ? GAME_SETTINGS.brushSize * 1.8 : GAME_SETTINGS.brushSize;
-    paintPixel(x, y, 'player', brushSize, true);
+  // Pausing lifts the brush, so a stroke never spans the pause
+  const pause = useCallback(() => {
+    setResumeCountdown(null);
+    if (!isRunning || isPaused || state.isFinished) return;
 
-    // Check power-up collisions
-    const collectedPowerUp = checkPowerUpCollision(x, y, GAME_SETTINGS.brushSize);
-    if (collectedPowerUp) {
-      handlePowerUpCollection(collectedPowerUp);
+    if (isPointerDown) {
+      setIsPointerDown(false);
+      const { x, y } = lastPointerRef.current;
+      sendInput('pointerUp', getElapsed(), x, y);
     }
-  }, [isRunning, isPointerDown, checkPowerUpCollision, paintPixel, setPlayerBrush, playerEffects.enlarge]);
+    pauseTimer();
+  }, [isRunning, isPaused, state.isFinished, isPointerDown, sendInput, getElapsed, pauseTimer]);
 
-  const handlePointerUp = useCallback(() => {
-    setIsPointerDown(false);
-  }, []);
-
-  const handlePowerUpCollection = (powerUp: PowerUp) => {
-    switch (powerUp.type) {
-      case 'speedUp':
-        setPlayerEffects(prev => ({ ...prev, speedUp: true }));
-        setTimeout(() => {
-          setPlayerEffects(prev => ({ ...prev, speedUp: false }));
-        }, 3000);
-        break;
-      case 'paintSplat':
-        paintSplat(powerUp.x, powerUp.y, 'player', 60);
-        break;
-      case 'enlarge':
-        setPlayerEffects(prev => ({ ...prev, enlarge: true }));
-        setTimeout(() => {
-          setPlayerEffects(prev => ({ ...prev, enlarge: false }));
-        }, 3000);
-        break;
-    }
-  };
+  // Backgrounding the app pauses the match; it resumes from the pause screen.
+  // A countdown that ends while the app is hidden pauses the match at once.
+  useEffect(() => {
+    if (!canPause) return;
+    if (document.hidden) pause();
 
-  // Game loop
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [canPause, pause]);
+
+  // Resume countdown
   useEffect(() => {
-    if (!isRunning) return;
+    if (resumeCountdown === null) return;
+
+    const timeout = setTimeout(() => {
+      if (resumeCountdown > 1) {
+        setResumeCountdown(resumeCountdown - 1);
+      } else {
+        setResumeCountdown(null);
+        resumeTimer();
+      }
+    }, 1000);
 
-    const gameLoop = setInterval(() => {
-      updateBotAI();
-      updatePowerUps();
-      
-      const scores = calculateScores();
-      setPlayerScore(Math.round(scores.playerPercentage));
-      setBotScore(Math.round(scores.botPercentage));
-    }, 16); // ~60fps
+    return () => clearTimeout(timeout);
+  }, [resumeCountdown, resumeTimer]);
 
-    return () => clearInterval(gameLoop);
-  }, [isRunning, updateBotAI, updatePowerUps, calculateScores]);
+  // Game loop: each frame hands the simulation the match time so far
+  useGameLoop(isRunning && !isPaused, () => advance(getElapsed()));
 
-  // Start game
   useEffect(() => {
-    if (!gameStarted) {
-      initializeCanvas();
-      // Set initial player position at bottom center (same as bot)
-      setPlayerBrush({ 
-        x: GAME_SETTINGS.canvasWidth / 2, 
-        y: GAME_SETTINGS.canvasHeight - 50 
-      });
-      setGameStarted(true);
-      setTimeout(() => startTimer(), 1000); // 1 second delay for countdown
-    }
-  }, [gameStarted, initializeCanvas, startTimer]);
+    if (!isRunning || isPaused) hold(getElapsed());
+  }, [isRunning, isPaused, hold, getElapsed]);
+
+  // Brushes, power-ups and zones are drawn on the entity layer
+  useEffect(() => {
+    setScene({ brushes, effects, powerUps, zones, highlightTeam: playerTeam.id });
+  }, [setScene, brushes, effects, powerUps, zones, playerTeam]);
+
+  // Intro: the arena is drawn and the opponent revealed, then the timer
+  // counts down to the start
+  useEffect(() => {
+    initializeCanvas();
+    const intro = setTimeout(() => startTimer(duration, COUNTDOWN_SECONDS), INTRO_MS);
+    return () => clearTimeout(intro);
+  }, [initializeCanvas, startTimer, duration]);
 
-  // End game when timer reaches 0
+  // Sudden death keeps the clock running for as long as the overtime may last
   useEffect(() => {
-    if (timeLeft === 0 && gameStarted) {
-      const winner = playerScore > botScore ? 'player' : 
-                    botScore > playerScore ? 'bot' : 'draw';
-      
-      onGameEnd({
-        playerScore,
-        botScore,
-        winner
-      });
+    if (isOvertime) extendTimer(settings.overtime.maxLength * 1000);
+  }, [isOvertime, extendTimer, settings]);
+
+  // End game when the simulation runs out of time
+  useEffect(() => {
+    if (outcome) {
+      stopTimer();
+      onGameEnd({ ...outcome.result, difficulty }, outcome.log, outcome.recording);
     }
-  }, [timeLeft, gameStarted, playerScore, botScore, onGameEnd]);
+  }, [outcome, difficulty, stopTimer, onGameEnd]);
+
+  // Name tags for PvP and team modes; the local player is always "YOU"
+  const teamLabel = (team: Team) => {
+    if (opponentName) return team === localTeam ? 'YOU' : opponentName;
+    return showTeamNames ? settings.teams.find(({ id }) => id === team)?.name ?? null : null;
+  };
+
+  // The intro introduces a person by name and avatar, and the bot by its
+  // personality and difficulty
+  const personality = BOT_PERSONALITY_OPTIONS.find(option => option.personality === matchPersonality);
+  const difficultyLabel = botRating !== undefined
+    ? `RATED ${botRating}`
+    : DIFFICULTY_OPTIONS.find(option => option.level === difficulty)?.label;
+  const isIntro = !isRunning && countdown === null && state.tick === 0;
+  const isGo = isRunning && !isPaused && state.elapsed < GO_FLASH_MS;
 
   return (
     <div className="h-screen flex flex-col relative bg-gradient-to-br from-[#D8CFAF] to-[#C8BFAF]">
       {/* Header with scores and exit */}
       <div className="flex justify-between items-center p-4 z-20 bg-gradient-to-r from-black/10 to-black/5">
-        {/* Bot Score */}
+        {/* Opponent Scores */}
         <div className="flex items-center space-x-2">
-          <div className="w-16 h-16 bg-gradient-to-br from-[#3DB4D8] to-[#2A9BC1] rounded-full 
-                         border-4 border-[#333333] flex items-center justify-center shadow-xl
-                         ring-2 ring-white/30">
-            <span className="text-white text-xl font-black drop-shadow-lg">{botScore}%</span>
-          </div>
+          {rivalTeams.map(team => (
+            <div key={team.id} className="flex items-center space-x-2">
+              <div
+                className={`${rivalTeams.length > 1 ? 'w-12 h-12' : 'w-16 h-16'} rounded-full
+                            border-4 border-[#333333] flex items-center justify-center shadow-xl
+                            ring-2 ring-white/30`}
+                style={{ backgroundColor: team.color }}
+              >
+                <span className={`text-white ${rivalTeams.length > 1 ? 'text-base' : 'text-xl'} font-black drop-shadow-lg`}>
+                  {scores[team.id]}%
+                </span>
+              </div>
+              {rivalTeams.length === 1 && teamLabel(team.id) && (
+                <span className="text-[#333333] text-sm font-black max-w-[6rem] truncate">{teamLabel(team.id)}</span>
+              )}
+            </div>
+          ))}
         </div>
 
         {/* Timer */}
-        <div className="bg-gradient-to-br from-white to-gray-100 px-6 py-3 rounded-2xl 
-                       border-4 border-[#333333] shadow-xl ring-2 ring-yellow-400/50">
-          <span className="text-[#333333] text-3xl font-black drop-shadow-sm">{timeLeft}</span>
+        <div className={`bg-gradient-to-br px-6 py-3 rounded-2xl border-4 border-[#333333] shadow-xl ring-2
+                        ${isOvertime ? 'from-[#E86A5D] to-[#d85a4c] ring-red-400/50' : 'from-white to-gray-100 ring-yellow-400/50'}`}>
+          <span className={`text-3xl font-black drop-shadow-sm tabular-nums ${isOvertime ? 'text-white' : 'text-[#333333]'}`}>
+            {(timeLeft / 1000).toFixed(1)}
+          </span>
         </div>
 
         {/* Exit Button */}
@@ -185,208 +287,201 @@ const GameScreen: React.FC<GameScreenProps> = ({ onGameEnd, onExit }) => {
 
       {/* Player Score */}
       <div className="absolute left-4 top-20 z-20">
-        <div className="w-16 h-16 bg-gradient-to-br from-[#E86A5D] to-[#D75A4C] rounded-full 
-                       border-4 border-[#333333] flex items-center justify-center shadow-xl
-                       ring-2 ring-white/30">
-          <span className="text-white text-xl font-black drop-shadow-lg">{playerScore}%</span>
+        <div
+          className="w-16 h-16 rounded-full border-4 border-[#333333] flex items-center justify-center shadow-xl
+                     ring-2 ring-white/30"
+          style={{ backgroundColor: playerTeam.color }}
+        >
+          <span className="text-white text-xl font-black drop-shadow-lg">{scores[playerTeam.id]}%</span>
         </div>
+        {teamLabel(playerTeam.id) && (
+          <p className="text-[#333333] text-sm font-black text-center mt-1 max-w-[4rem] truncate">{teamLabel(playerTeam.id)}</p>
+        )}
       </div>
 
+      {/* Pause Button */}
+      {canPause && (
+        <button
+          onClick={pause}
+          disabled={!isRunning || isPaused}
+          className="absolute right-4 top-20 z-20 w-12 h-12 bg-gradient-to-br from-white to-gray-100 rounded-full
+                     border-3 border-[#333333] flex items-center justify-center shadow-lg
+                     hover:from-gray-100 hover:to-gray-200 active:transform active:scale-95
+                     transition-all duration-200 disabled:opacity-50"
+        >
+          <Pause size={20} color="#333333" fill="#333333" />
+        </button>
+      )}
+
       {/* Active Power-up Indicators */}
-      <div className="absolute right-4 top-20 z-20 space-y-2">
-        {playerEffects.speedUp && (
-          <div className="w-12 h-12 bg-yellow-400 rounded-full border-3 border-[#333333] 
-                         flex items-center justify-center shadow-lg animate-pulse">
-            <Zap size={20} color="#333333" />
-          </div>
-        )}
-        {playerEffects.enlarge && (
-          <div className="w-12 h-12 bg-purple-500 rounded-full border-3 border-[#333333] 
-                         flex items-center justify-center shadow-lg animate-pulse">
-            <Maximize2 size={20} color="white" />
-          </div>
-        )}
-        {/* Bot Power-up Indicators */}
-        {botEffects.speedUp && (
-          <div className="w-12 h-12 bg-blue-400 rounded-full border-3 border-[#333333] 
-                         flex items-center justify-center shadow-lg animate-pulse">
-            <Zap size={20} color="white" />
-            <span className="absolute -bottom-1 -right-1 text-xs bg-[#3DB4D8] text-white px-1 rounded">BOT</span>
-          </div>
-        )}
-        {botEffects.enlarge && (
-          <div className="w-12 h-12 bg-cyan-500 rounded-full border-3 border-[#333333] 
-                         flex items-center justify-center shadow-lg animate-pulse">
-            <Maximize2 size={20} color="white" />
-            <span className="absolute -bottom-1 -right-1 text-xs bg-[#3DB4D8] text-white px-1 rounded">BOT</span>
+      <div className={`absolute right-4 ${canPause ? 'top-36' : 'top-20'} z-20 space-y-2`}>
+        {TIMED_POWER_UPS.filter(({ effect }) => effects[playerTeam.id][effect!]).map(({ type, color }) => (
+          <div
+            key={`${playerTeam.id}-${type}`}
+            className="w-12 h-12 rounded-full border-3 border-[#333333]
+                       flex items-center justify-center shadow-lg animate-pulse"
+            style={{ backgroundColor: color }}
+          >
+            <PowerUpIcon type={type} size={20} color="white" />
           </div>
+        ))}
+        {/* Opponent Power-up Indicators, tagged with the team they are on */}
+        {rivalTeams.flatMap(team =>
+          TIMED_POWER_UPS.filter(({ effect }) => effects[team.id][effect!]).map(({ type, color }) => (
+            <div
+              key={`${team.id}-${type}`}
+              className="relative w-12 h-12 rounded-full border-3 border-[#333333]
+                         flex items-center justify-center shadow-lg animate-pulse"
+              style={{ backgroundColor: color }}
+            >
+              <PowerUpIcon type={type} size={20} color="white" />
+              <span
+                className="absolute -bottom-1 -right-1 text-xs text-white px-1 rounded"
+                style={{ backgroundColor: team.color }}
+              >
+                {team.name}
+              </span>
+            </div>
+          ))
         )}
       </div>
 
       {/* Game Canvas */}
       <div className="flex-1 relative">
-        <canvas
-          ref={canvasRef}
-          width={GAME_SETTINGS.canvasWidth}
-          height={GAME_SETTINGS.canvasHeight}
-          className="w-full h-full cursor-none touch-none border-4 border-[#333333] 
+        <div
+          ref={boardRef}
+          className="w-full h-full relative overflow-hidden cursor-none touch-none border-4 border-[#333333]
                      shadow-2xl rounded-lg"
           onPointerDown={handlePointerDown}
           onPointerMove={handlePointerMove}
           onPointerUp={handlePointerUp}
           onPointerLeave={handlePointerUp}
-          style={{ imageRendering: 'pixelated' }}
         />
+      </div>
 
-        {/* Power-ups overlay */}
-        <div className="absolute inset-0 pointer-events-none">
-          {powerUps.filter(p => !p.collected).map(powerUp => (
-            <div
-              key={powerUp.id}
-              className="absolute w-12 h-12 bg-gradient-to-br from-white to-gray-100 
-                         rounded-full border-3 border-[#333333] flex items-center justify-center 
-                         animate-bounce shadow-xl ring-2 ring-yellow-400/50"
-              style={{
-                left: `${(powerUp.x / GAME_SETTINGS.canvasWidth) * 100}%`,
-                top: `${(powerUp.y / GAME_SETTINGS.canvasHeight) * 100}%`,
-                transform: 'translate(-50%, -50%)'
-              }}
-            >
-              {powerUp.type === 'speedUp' && <Zap size={24} color="#FFD700" />}
-              {powerUp.type === 'paintSplat' && <Bomb size={24} color="#FF4444" />}
-              {powerUp.type === 'enlarge' && <Maximize2 size={24} color="#8B5CF6" />}
-            </div>
-          ))}
+      {/* Overtime banner - the next team to pull clear wins */}
+      {isOvertime && !state.isFinished && (
+        <div className="absolute top-24 inset-x-0 flex justify-center z-30 pointer-events-none">
+          <div className="bg-[#E86A5D] px-6 py-2 rounded-2xl border-4 border-[#333333] shadow-xl animate-pulse">
+            <span className="text-white text-xl font-black drop-shadow">SUDDEN DEATH</span>
+          </div>
         </div>
+      )}
 
-        {/* Player brush indicator */}
-        {playerBrush && (
-          <div
-            className="absolute pointer-events-none z-10"
-            style={{
-              left: `${(playerBrush.x / GAME_SETTINGS.canvasWidth) * 100}%`,
-              top: `${(playerBrush.y / GAME_SETTINGS.canvasHeight) * 100}%`,
-              transform: 'translate(-50%, -50%)'
-            }}
-          >
-            {/* Paint Brush Icon for Player */}
-            <div className={`transition-all duration-300 ${playerEffects.enlarge ? 'scale-125' : 'scale-100'}`}>
-              <div className="relative">
-                {/* Brush Handle */}
-                <div className="w-4 h-12 bg-gradient-to-b from-[#8B4513] to-[#654321] 
-                               border-3 border-[#333333] rounded-lg shadow-lg"></div>
-                {/* Brush Head */}
-                <div className="w-8 h-6 bg-gradient-to-b from-[#E86A5D] to-[#D75A4C] 
-                               border-3 border-[#333333] rounded-lg absolute -top-3 -left-2 shadow-lg">
-                  {/* Brush Bristles */}
-                  <div className="absolute -bottom-2 left-1 right-1 h-3 bg-gradient-to-b 
-                                 from-[#E86A5D] to-[#C54A3D] border-l-2 border-r-2 border-[#333333] 
-                                 rounded-b-sm"></div>
-                </div>
-                {/* Metal Ferrule */}
-                <div className="absolute top-6 left-0.5 w-3 h-2 bg-gradient-to-b from-gray-300 to-gray-500 
-                               border border-[#333333] rounded-sm"></div>
-              </div>
-              {playerEffects.speedUp && (
-                <>
-                  <div className="absolute -inset-3 bg-yellow-400 rounded-full animate-ping opacity-60"></div>
-                  <div className="absolute -inset-1 bg-yellow-300 rounded-full animate-pulse opacity-40"></div>
-                  {/* White star particles trail effect */}
-                  <div className="absolute -inset-4">
-                    {[...Array(8)].map((_, i) => (
-                      <div
-                        key={i}
-                        className="absolute w-2 h-2 bg-white rounded-full animate-ping"
-                        style={{
-                          left: `${20 + Math.cos((i * Math.PI) / 4) * 25}px`,
-                          top: `${20 + Math.sin((i * Math.PI) / 4) * 25}px`,
-                          animationDelay: `${i * 0.1}s`,
-                          animationDuration: '0.8s',
-                        }}
-                      >
-                        <div className="absolute inset-0 bg-white rounded-full opacity-80"></div>
-                        {/* Star shape */}
-                        <div className="absolute inset-0 transform rotate-45">
-                          <div className="w-full h-0.5 bg-white absolute top-1/2 transform -translate-y-1/2"></div>
-                          <div className="h-full w-0.5 bg-white absolute left-1/2 transform -translate-x-1/2"></div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </>
-              )}
-            </div>
+      {/* Lag overlay - the match holds until the opponent's inputs arrive */}
+      {isRunning && !isPaused && isWaitingForOpponent && !state.isFinished && (
+        <div className="absolute inset-0 bg-black/40 flex items-center justify-center z-30 pointer-events-none">
+          <div className="bg-white px-6 py-3 rounded-2xl border-4 border-[#333333] shadow-xl">
+            <span className="text-[#333333] text-xl font-black animate-pulse">Waiting for opponent...</span>
           </div>
-        )}
+        </div>
+      )}
 
-        {/* Bot brush indicator */}
-        <div
-          className="absolute pointer-events-none z-10"
-          style={{
-            left: `${(botPosition.x / GAME_SETTINGS.canvasWidth) * 100}%`,
-            top: `${(botPosition.y / GAME_SETTINGS.canvasHeight) * 100}%`,
-            transform: 'translate(-50%, -50%)'
-          }}
-        >
-          {/* Paint Brush Icon for Bot */}
-          <div className={`relative transition-all duration-300 ${botEffects.enlarge ? 'scale-125' : 'scale-100'}`}>
-            {/* Brush Handle */}
-            <div className="w-4 h-12 bg-gradient-to-b from-[#8B4513] to-[#654321] 
-                           border-3 border-[#333333] rounded-lg shadow-lg"></div>
-            {/* Brush Head */}
-            <div className="w-8 h-6 bg-gradient-to-b from-[#3DB4D8] to-[#2A9BC1] 
-                           border-3 border-[#333333] rounded-lg absolute -top-3 -left-2 shadow-lg">
-              {/* Brush Bristles */}
-              <div className="absolute -bottom-2 left-1 right-1 h-3 bg-gradient-to-b 
-                             from-[#3DB4D8] to-[#2A8BB0] border-l-2 border-r-2 border-[#333333] 
-                             rounded-b-sm"></div>
+      {/* Pause overlay, counting down once the player resumes */}
+      {isPaused && !state.isFinished && (
+        <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-30">
+          {resumeCountdown !== null ? (
+            <div className="text-center">
+              <div key={resumeCountdown} className="text-white text-9xl font-black animate-countdown drop-shadow-2xl mb-4">{resumeCountdown}</div>
+              <div className="text-white text-2xl font-bold animate-bounce">GET READY!</div>
+            </div>
+          ) : (
+            <div className="text-center space-y-6">
+              <div className="text-white text-6xl font-black drop-shadow-2xl">PAUSED</div>
+              <button
+                onClick={() => setResumeCountdown(RESUME_COUNTDOWN_SECONDS)}
+                className="mx-auto bg-[#3DB4D8] text-white text-2xl py-4 px-10 rounded-2xl
+                           border-4 border-[#333333] shadow-lg hover:bg-[#35a5c4]
+                           active:transform active:scale-95 transition-all duration-200
+                           flex items-center justify-center space-x-3"
+              >
+                <Play size={28} fill="white" />
+                <span>RESUME</span>
+              </button>
             </div>
-            {/* Metal Ferrule */}
-            <div className="absolute top-6 left-0.5 w-3 h-2 bg-gradient-to-b from-gray-300 to-gray-500 
-                           border border-[#333333] rounded-sm"></div>
-            {/* Speed Up Effect for Bot */}
-            {botEffects.speedUp && (
-              <>
-                <div className="absolute -inset-3 bg-blue-400 rounded-full animate-ping opacity-60"></div>
-                <div className="absolute -inset-1 bg-blue-300 rounded-full animate-pulse opacity-40"></div>
-                {/* Blue star particles trail effect for bot */}
-                <div className="absolute -inset-4">
-                  {[...Array(8)].map((_, i) => (
+          )}
+        </div>
+      )}
+
+      {/* Intro: the opponent revealed over a preview of the arena */}
+      {isIntro && (
+        <div className="absolute inset-0 bg-black/40 flex items-center justify-center z-30">
+          <div className="bg-white rounded-2xl border-4 border-[#333333] shadow-2xl px-6 py-5 mx-6 text-center text-[#333333]">
+            <p className="text-xs font-black opacity-60">ARENA</p>
+            <p className="text-xl font-black">{settings.arena.name.toUpperCase()}</p>
+            <p className="text-xs opacity-60 mb-4">{settings.arena.description}</p>
+
+            <div className="flex items-center justify-center space-x-4 mb-3">
+              <div
+                className="w-16 h-16 rounded-full border-4 border-[#333333] flex items-center justify-center shadow-lg"
+                style={{ backgroundColor: colors[localTeam] }}
+              >
+                <span className="text-white text-sm font-black">YOU</span>
+              </div>
+              <span className="text-3xl font-black animate-pulse">VS</span>
+              {opponentName ? (
+                opponentAvatar ? (
+                  <img
+                    src={opponentAvatar}
+                    alt={opponentName}
+                    className="w-16 h-16 rounded-full border-4 border-[#333333] object-cover shadow-lg"
+                  />
+                ) : (
+                  <div
+                    className="w-16 h-16 rounded-full border-4 border-[#333333] flex items-center justify-center shadow-lg"
+                    style={{ backgroundColor: colors[localTeam === playerTeam.id ? rivalTeams[0].id : playerTeam.id] }}
+                  >
+                    <span className="text-white text-2xl font-black">{opponentName.charAt(0).toUpperCase()}</span>
+                  </div>
+                )
+              ) : (
+                <div className="flex -space-x-3">
+                  {rivalTeams.map(team => (
                     <div
-                      key={i}
-                      className="absolute w-2 h-2 bg-blue-300 rounded-full animate-ping"
-                      style={{
-                        left: `${20 + Math.cos((i * Math.PI) / 4) * 25}px`,
-                        top: `${20 + Math.sin((i * Math.PI) / 4) * 25}px`,
-                        animationDelay: `${i * 0.1}s`,
-                        animationDuration: '0.8s',
-                      }}
+                      key={team.id}
+                      className="w-16 h-16 rounded-full border-4 border-[#333333] flex items-center justify-center shadow-lg"
+                      style={{ backgroundColor: team.color }}
                     >
-                      <div className="absolute inset-0 bg-blue-300 rounded-full opacity-80"></div>
-                      {/* Star shape */}
-                      <div className="absolute inset-0 transform rotate-45">
-                        <div className="w-full h-0.5 bg-blue-300 absolute top-1/2 transform -translate-y-1/2"></div>
-                        <div className="h-full w-0.5 bg-blue-300 absolute left-1/2 transform -translate-x-1/2"></div>
-                      </div>
+                      <Bot size={28} color="white" />
                     </div>
                   ))}
                 </div>
-              </>
+              )}
+            </div>
+
+            <p className="text-lg font-black">{opponentName ?? `${personality?.label ?? 'THE'} BOT`}</p>
+            {!opponentName && personality && (
+              <p className="text-xs opacity-70">{personality.description}</p>
             )}
+            <div className="flex items-center justify-center space-x-2 mt-3 text-xs font-black">
+              {!opponentName && difficultyLabel && (
+                <span className="px-2 py-1 rounded-lg border-2 border-[#333333] bg-[#E86A5D] text-white">{difficultyLabel}</span>
+              )}
+              <span className="px-2 py-1 rounded-lg border-2 border-[#333333] bg-[#3DB4D8] text-white">{settings.timer}S</span>
+              {settings.overtime.enabled && (
+                <span className="px-2 py-1 rounded-lg border-2 border-[#333333] bg-[#FFD700]">SUDDEN DEATH</span>
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
-      {/* Countdown overlay */}
-      {!isRunning && timeLeft === GAME_SETTINGS.timer && gameStarted && (
+      {/* Countdown overlay, in step with the timer */}
+      {countdown !== null && (
         <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-30">
           <div className="text-center">
-            <div className="text-white text-9xl font-black animate-pulse drop-shadow-2xl mb-4">3</div>
+            <div key={countdown} className="text-white text-9xl font-black animate-countdown drop-shadow-2xl mb-4">{countdown}</div>
             <div className="text-white text-2xl font-bold animate-bounce">GET READY!</div>
           </div>
         </div>
       )}
 
+      {isGo && (
+        <div className="absolute inset-0 flex items-center justify-center z-30 pointer-events-none">
+          <div className="text-white text-8xl font-black drop-shadow-2xl animate-pulse">GO!</div>
+        </div>
+      )}
+
     </div>
   );
 };
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
-import { Play, RotateCcw, Trophy, Wallet, Shield, Info, X } from 'lucide-react';
-import { GAME_SETTINGS } from '../config/gameConfig';
+import { Play, RotateCcw, Trophy, Film, Users, Wallet, Shield, Info, X, PencilRuler, CalendarDays, Swords } from 'lucide-react';
+import { GAME_SETTINGS, BOT_PERSONALITY_OPTIONS, DIFFICULTY_OPTIONS, MATCH_LENGTHS, TEAM_MODE_OPTIONS, BRUSH_PHYSICS_OPTIONS } from '../config/gameConfig';
+import { ArenaDefinition, BotPersonality, DifficultyChoice, TeamMode } from '../types/game';
+import { ARENAS, arenaById } from '../config/arenas';
+import { DailyChallenge, DailyStanding } from '../services/dailyChallengeService';
+import { POWER_UP_DEFINITIONS } from '../engine/powerUps';
+import PowerUpIcon from './PowerUpIcon';
 
 interface HomeScreenProps {
   rouletteKeys: number;
@@ -9,9 +14,36 @@ interface HomeScreenProps {
   isConnected: boolean;
   isAuthenticated: boolean;
   isAuthenticating: boolean;
+  botPersonality: BotPersonality;
+  onSelectBotPersonality: (personality: BotPersonality) => void;
+  difficulty: DifficultyChoice;
+  onSelectDifficulty: (difficulty: DifficultyChoice) => void;
+  teamMode: TeamMode;
+  onSelectTeamMode: (mode: TeamMode) => void;
+  matchLength: number;
+  onSelectMatchLength: (seconds: number) => void;
+  suddenDeath: boolean;
+  onToggleSuddenDeath: () => void;
+  brushPhysics: boolean;
+  onSelectBrushPhysics: (enabled: boolean) => void;
+  dailyChallenge: DailyChallenge | null;
+  // The player's rank on today's leaderboard, once their result is in
+  dailyStanding: DailyStanding | null;
+  dailyPlayers: number;
+  hasPlayedDaily: boolean;
+  onStartDaily: () => void;
+  arenaId: string;
+  // A shared or freshly saved arena, offered after the built-in ones
+  customArena: ArenaDefinition | null;
+  onSelectArena: (arenaId: string) => void;
+  onOpenArenaEditor: () => void;
+  skillRating?: number;
   onStartGame: () => void;
   onSpinRoulette: () => void;
   onShowLeaderboard: () => void;
+  onShowHistory: () => void;
+  onShowTournaments: () => void;
+  onPlayFriend: () => void;
   onConnectWallet: () => void;
   onAuthenticate: () => void;
 }
@@ -23,13 +55,51 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
   isConnected,
   isAuthenticated,
   isAuthenticating,
+  botPersonality,
+  onSelectBotPersonality,
+  difficulty,
+  onSelectDifficulty,
+  teamMode,
+  onSelectTeamMode,
+  matchLength,
+  onSelectMatchLength,
+  suddenDeath,
+  onToggleSuddenDeath,
+  brushPhysics,
+  onSelectBrushPhysics,
+  dailyChallenge,
+  dailyStanding,
+  dailyPlayers,
+  hasPlayedDaily,
+  onStartDaily,
+  arenaId,
+  customArena,
+  onSelectArena,
+  onOpenArenaEditor,
+  skillRating,
   onStartGame,
   onSpinRoulette,
   onShowLeaderboard,
+  onShowHistory,
+  onShowTournaments,
+  onPlayFriend,
   onConnectWallet,
   onAuthenticate,
 }) => {
   const [showInfoModal, setShowInfoModal] = useState(false);
+  const selectedPersonality = BOT_PERSONALITY_OPTIONS.find(option => option.personality === botPersonality);
+  const selectedDifficulty = DIFFICULTY_OPTIONS.find(option => option.level === difficulty);
+  const selectedTeamMode = TEAM_MODE_OPTIONS.find(option => option.mode === teamMode);
+  const selectedBrushPhysics = BRUSH_PHYSICS_OPTIONS.find(option => option.enabled === brushPhysics);
+  const arenas = customArena && !ARENAS.some(arena => arena.id === customArena.id)
+    ? [...ARENAS, customArena]
+    : ARENAS;
+  const selectedArena = arenas.find(arena => arena.id === arenaId);
+  const dailyDetails = dailyChallenge && [
+    arenaById(dailyChallenge.arenaId)?.name,
+    DIFFICULTY_OPTIONS.find(option => option.level === dailyChallenge.difficulty)?.label,
+    BOT_PERSONALITY_OPTIONS.find(option => option.personality === dailyChallenge.botPersonality)?.label,
+  ].filter(Boolean).join(' • ');
   const handleConnectWallet = async () => {
     try {
       await onConnectWallet();
@@ -94,12 +164,216 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
           <p className="text-[#333333] text-xl">
             Roulette Keys 🔑: <span className="text-[#E86A5D] font-black">{rouletteKeys}</span>
           </p>
+          {skillRating !== undefined && (
+            <p className="text-[#333333] text-sm">
+              Skill Rating: <span className="text-[#333333] font-black">{skillRating}</span>
+            </p>
+          )}
           <p className="text-[#333333] text-sm">
             Daily Games: <span className="text-[#3DB4D8] font-black">{dailyGames}/{GAME_SETTINGS.dailyGameLimit}</span>
           </p>
         </div>
       </div>
 
+      {/* Daily Challenge */}
+      {dailyChallenge && (
+        <div className="w-full max-w-sm mb-6 z-10 bg-white rounded-2xl border-4 border-[#333333] shadow-lg px-4 py-3
+                        flex items-center justify-between">
+          <div>
+            <p className="text-[#333333] text-sm font-black flex items-center space-x-1">
+              <CalendarDays size={16} />
+              <span>DAILY CHALLENGE</span>
+            </p>
+            <p className="text-[#333333] text-xs opacity-70">{dailyDetails}</p>
+          </div>
+
+          {dailyStanding ? (
+            <div className="text-right">
+              <p className="text-2xl font-black text-[#E86A5D]">#{dailyStanding.rank}</p>
+              <p className="text-[#333333] text-xs opacity-70">of {dailyPlayers} • {dailyStanding.score}%</p>
+            </div>
+          ) : hasPlayedDaily ? (
+            <p className="text-[#333333] text-xs font-black opacity-70">PLAYED</p>
+          ) : (
+            <button
+              onClick={onStartDaily}
+              disabled={!canPlayToday || !isAuthenticated}
+              className="bg-[#E86A5D] text-white text-sm py-2 px-4 rounded-xl border-3 border-[#333333] shadow
+                         hover:bg-[#d85a4c] active:transform active:scale-95 transition-all duration-200
+                         disabled:bg-gray-400 disabled:cursor-not-allowed font-black"
+            >
+              PLAY
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Bot Personality */}
+      <div className="w-full max-w-sm mb-6 z-10">
+        <p className="text-[#333333] text-sm font-black text-center mb-2">OPPONENT</p>
+        <div className="grid grid-cols-4 gap-2">
+          {BOT_PERSONALITY_OPTIONS.map(option => (
+            <button
+              key={option.personality}
+              onClick={() => onSelectBotPersonality(option.personality)}
+              className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                         active:transform active:scale-95 transition-all duration-200
+                         ${option.personality === botPersonality
+                           ? 'bg-[#3DB4D8] text-white'
+                           : 'bg-white text-[#333333] hover:bg-gray-100'
+                         }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {selectedPersonality && (
+          <p className="text-[#333333] text-xs text-center mt-2 opacity-70">{selectedPersonality.description}</p>
+        )}
+      </div>
+
+      {/* Difficulty */}
+      <div className="w-full max-w-sm mb-6 z-10">
+        <p className="text-[#333333] text-sm font-black text-center mb-2">DIFFICULTY</p>
+        <div className="grid grid-cols-5 gap-2">
+          {DIFFICULTY_OPTIONS.map(option => (
+            <button
+              key={option.level}
+              onClick={() => onSelectDifficulty(option.level)}
+              className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                         active:transform active:scale-95 transition-all duration-200
+                         ${option.level === difficulty
+                           ? 'bg-[#E86A5D] text-white'
+                           : 'bg-white text-[#333333] hover:bg-gray-100'
+                         }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {selectedDifficulty && (
+          <p className="text-[#333333] text-xs text-center mt-2 opacity-70">{selectedDifficulty.description}</p>
+        )}
+      </div>
+
+      {/* Team Mode */}
+      <div className="w-full max-w-sm mb-6 z-10">
+        <p className="text-[#333333] text-sm font-black text-center mb-2">TEAMS</p>
+        <div className="grid grid-cols-3 gap-2">
+          {TEAM_MODE_OPTIONS.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => onSelectTeamMode(option.mode)}
+              className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                         active:transform active:scale-95 transition-all duration-200
+                         ${option.mode === teamMode
+                           ? 'bg-[#3DB4D8] text-white'
+                           : 'bg-white text-[#333333] hover:bg-gray-100'
+                         }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {selectedTeamMode && (
+          <p className="text-[#333333] text-xs text-center mt-2 opacity-70">{selectedTeamMode.description}</p>
+        )}
+      </div>
+
+      {/* Match Length */}
+      <div className="w-full max-w-sm mb-6 z-10">
+        <p className="text-[#333333] text-sm font-black text-center mb-2">LENGTH</p>
+        <div className="grid grid-cols-4 gap-2">
+          {MATCH_LENGTHS.map(seconds => (
+            <button
+              key={seconds}
+              onClick={() => onSelectMatchLength(seconds)}
+              className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                         active:transform active:scale-95 transition-all duration-200
+                         ${seconds === matchLength
+                           ? 'bg-[#3DB4D8] text-white'
+                           : 'bg-white text-[#333333] hover:bg-gray-100'
+                         }`}
+            >
+              {seconds}S
+            </button>
+          ))}
+          <button
+            onClick={onToggleSuddenDeath}
+            className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                       active:transform active:scale-95 transition-all duration-200
+                       ${suddenDeath
+                         ? 'bg-[#E86A5D] text-white'
+                         : 'bg-white text-[#333333] hover:bg-gray-100'
+                       }`}
+          >
+            OVERTIME
+          </button>
+        </div>
+        {suddenDeath && (
+          <p className="text-[#333333] text-xs text-center mt-2 opacity-70">
+            Ties within {GAME_SETTINGS.overtime.margin}% go to sudden death - the first to pull clear wins
+          </p>
+        )}
+      </div>
+
+      {/* Brush Physics */}
+      <div className="w-full max-w-sm mb-6 z-10">
+        <p className="text-[#333333] text-sm font-black text-center mb-2">BRUSH</p>
+        <div className="grid grid-cols-2 gap-2">
+          {BRUSH_PHYSICS_OPTIONS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => onSelectBrushPhysics(option.enabled)}
+              className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                         active:transform active:scale-95 transition-all duration-200
+                         ${option.enabled === brushPhysics
+                           ? 'bg-[#3DB4D8] text-white'
+                           : 'bg-white text-[#333333] hover:bg-gray-100'
+                         }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {selectedBrushPhysics && (
+          <p className="text-[#333333] text-xs text-center mt-2 opacity-70">{selectedBrushPhysics.description}</p>
+        )}
+      </div>
+
+      {/* Arena */}
+      <div className="w-full max-w-sm mb-6 z-10">
+        <p className="text-[#333333] text-sm font-black text-center mb-2">ARENA</p>
+        <div className="grid grid-cols-4 gap-2">
+          {arenas.map(arena => (
+            <button
+              key={arena.id}
+              onClick={() => onSelectArena(arena.id)}
+              className={`py-2 rounded-xl border-3 border-[#333333] text-xs font-black shadow
+                         active:transform active:scale-95 transition-all duration-200
+                         ${arena.id === arenaId
+                           ? 'bg-[#FFD700] text-[#333333]'
+                           : 'bg-white text-[#333333] hover:bg-gray-100'
+                         }`}
+            >
+              {arena.name.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        {selectedArena && (
+          <p className="text-[#333333] text-xs text-center mt-2 opacity-70">{selectedArena.description}</p>
+        )}
+        <button
+          onClick={onOpenArenaEditor}
+          className="w-full mt-2 py-2 rounded-xl border-3 border-[#333333] bg-white text-[#333333] text-xs font-black
+                     shadow hover:bg-gray-100 active:transform active:scale-95 transition-all duration-200
+                     flex items-center justify-center space-x-2"
+        >
+          <PencilRuler size={16} />
+          <span>BUILD YOUR OWN ARENA</span>
+        </button>
+      </div>
+
       {/* Action Buttons */}
       <div className="space-y-4 w-full max-w-sm z-10">
         {!isConnected && (
@@ -150,6 +424,19 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
           <span>START GAME</span>
         </button>
 
+        <button
+          onClick={onPlayFriend}
+          disabled={!canPlayToday || !isAuthenticated}
+          className="w-full bg-[#333333] text-white text-2xl py-4 px-8 rounded-2xl 
+                     border-4 border-[#333333] shadow-lg hover:bg-[#444444] 
+                     active:transform active:scale-95 transition-all duration-200
+                     disabled:bg-gray-400 disabled:cursor-not-allowed
+                     flex items-center justify-center space-x-3"
+        >
+          <Users size={32} />
+          <span>PLAY A FRIEND</span>
+        </button>
+
         <button
           onClick={onSpinRoulette}
           disabled={rouletteKeys === 0}
@@ -173,6 +460,28 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
           <Trophy size={32} />
           <span>LEADERBOARD</span>
         </button>
+
+        <button
+          onClick={onShowTournaments}
+          className="w-full bg-[#333333] text-white text-2xl py-4 px-8 rounded-2xl 
+                     border-4 border-[#333333] shadow-lg hover:bg-[#444444] 
+                     active:transform active:scale-95 transition-all duration-200
+                     flex items-center justify-center space-x-3"
+        >
+          <Swords size={32} />
+          <span>TOURNAMENTS</span>
+        </button>
+
+        <button
+          onClick={onShowHistory}
+          className="w-full bg-white text-[#333333] text-2xl py-4 px-8 rounded-2xl 
+                     border-4 border-[#333333] shadow-lg hover:bg-gray-100 
+                     active:transform active:scale-95 transition-all duration-200
+                     flex items-center justify-center space-x-3"
+        >
+          <Film size={32} />
+          <span>MATCH HISTORY</span>
+        </button>
       </div>
 
       {!isAuthenticated && (
@@ -218,7 +527,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
               <div className="bg-white rounded-xl border-3 border-[#333333] p-5 shadow-lg">
                 <h3 className="text-xl font-black text-[#E86A5D] mb-3">🎨 GAME OBJECTIVE</h3>
                 <p className="text-[#333333] leading-relaxed">
-                  Paint as much of the canvas as possible in 60 seconds! Compete against an AI bot to cover the most area with your color.
+                  Paint as much of the canvas as possible in 10, 30 or 60 seconds! Compete against an AI bot to cover the most area with your color.
                 </p>
               </div>
 
@@ -243,25 +552,19 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
               <div className="bg-white rounded-xl border-3 border-[#333333] p-5 shadow-lg">
                 <h3 className="text-xl font-black text-green-600 mb-3">⚡ POWER-UPS</h3>
                 <ul className="space-y-2 text-[#333333]">
-                  <li className="flex items-start">
-                    <span className="font-black mr-2">🚀</span>
-                    <span><strong>Speed Boost:</strong> Move faster for 5 seconds</span>
-                  </li>
-                  <li className="flex items-start">
-                    <span className="font-black mr-2">💥</span>
-                    <span><strong>Paint Splat:</strong> Instantly paint a large area</span>
-                  </li>
-                  <li className="flex items-start">
-                    <span className="font-black mr-2">📐</span>
-                    <span><strong>Enlarge Brush:</strong> Bigger brush size for 5 seconds</span>
-                  </li>
+                  {POWER_UP_DEFINITIONS.map(({ type, label, description }) => (
+                    <li key={type} className="flex items-start">
+                      <span className="mr-2 mt-0.5 shrink-0"><PowerUpIcon type={type} size={18} /></span>
+                      <span><strong>{label}:</strong> {description}</span>
+                    </li>
+                  ))}
                 </ul>
               </div>
 
               <div className="bg-white rounded-xl border-3 border-[#333333] p-5 shadow-lg">
                 <h3 className="text-xl font-black text-yellow-600 mb-3">🔑 ROULETTE KEYS</h3>
                 <p className="text-[#333333] leading-relaxed mb-2">
-                  Earn Roulette Keys by winning or drawing games. Use keys to spin the roulette for rewards:
+                  Earn Roulette Keys by winning or drawing games. Harder bots pay more keys and better prize odds. Use keys to spin the roulette for rewards:
                 </p>
                 <ul className="space-y-2 text-[#333333]">
                   <li className="flex items-start">
@@ -1,23 +1,42 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ArrowLeft, Trophy, Medal, Award } from 'lucide-react';
-import { LeaderboardEntry } from '../types/game';
+import { LeaderboardEntry, RatingEntry } from '../types/game';
+import { DailyLeaderboardEntry } from '../services/dailyChallengeService';
+
+type LeaderboardTab = 'tokens' | 'rating' | 'daily';
+
+const TAB_LABELS: Record<LeaderboardTab, string> = {
+  tokens: '$CC WON',
+  rating: 'RATING',
+  daily: 'TODAY',
+};
 
 interface LeaderboardScreenProps {
   leaderboard: LeaderboardEntry[];
+  ratings: RatingEntry[];
+  isLoadingRatings: boolean;
+  dailyLeaderboard: DailyLeaderboardEntry[];
+  isLoadingDaily: boolean;
   onBack: () => void;
   currentUserAddress?: string;
 }
 
 const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({
   leaderboard,
+  ratings,
+  isLoadingRatings,
+  dailyLeaderboard,
+  isLoadingDaily,
   onBack,
   currentUserAddress
 }) => {
+  const [tab, setTab] = useState<LeaderboardTab>('tokens');
+
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
-  const getDisplayName = (entry: LeaderboardEntry) => {
+  const getDisplayName = (entry: Pick<LeaderboardEntry, 'address' | 'username' | 'farcasterFid'>) => {
     if (entry.username) {
       return entry.username;
     }
@@ -62,66 +81,191 @@ const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({
         <div className="w-12 h-12"></div> {/* Spacer */}
       </div>
 
-      {/* Leaderboard List */}
-      <div className="flex-1 overflow-y-auto space-y-3">
-        {leaderboard.length === 0 ? (
-          <div className="text-center py-12">
-            <Trophy size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
-            <p className="text-[#333333] text-xl font-bold opacity-70">
-              No winners yet!
-            </p>
-            <p className="text-[#333333] text-sm opacity-50 mt-2">
-              Be the first to win tokens from the roulette
-            </p>
-          </div>
-        ) : (
-          leaderboard.map((entry, index) => {
-            const rank = index + 1;
-            const isCurrentUser = entry.address === currentUserAddress;
-            
-            return (
+      {/* Tabs */}
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {(['tokens', 'rating', 'daily'] as LeaderboardTab[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setTab(option)}
+            className={`py-2 rounded-xl border-3 border-[#333333] text-sm font-black shadow
+                       ${option === tab ? 'bg-[#333333] text-white' : 'bg-white text-[#333333] hover:bg-gray-100'}`}
+          >
+            {TAB_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {/* Rating List */}
+      {tab === 'rating' && (
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {ratings.length === 0 ? (
+            <div className="text-center py-12">
+              <Trophy size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
+              <p className="text-[#333333] text-xl font-bold opacity-70">
+                {isLoadingRatings ? 'Loading ratings...' : 'No rated players yet!'}
+              </p>
+              {!isLoadingRatings && (
+                <p className="text-[#333333] text-sm opacity-50 mt-2">
+                  Finish a verified match to get rated
+                </p>
+              )}
+            </div>
+          ) : (
+            ratings.map((entry, index) => {
+              const rank = index + 1;
+              const isCurrentUser = entry.address === currentUserAddress;
+
+              return (
+                <div
+                  key={entry.address}
+                  className={`${getRankBg(rank)} rounded-xl border-3 border-[#333333]
+                             shadow-lg p-4 flex items-center justify-between
+                             ${isCurrentUser ? 'ring-4 ring-[#E86A5D] ring-opacity-50' : ''}`}
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="flex items-center justify-center w-12 h-12">
+                      {getRankIcon(rank)}
+                    </div>
+
+                    <div>
+                      <p className={`font-black text-lg ${rank <= 3 ? 'text-white' : 'text-[#333333]'}`}>
+                        {getDisplayName(entry)}
+                        {isCurrentUser && (
+                          <span className={`ml-2 text-sm ${rank <= 3 ? 'text-white/80' : 'text-[#E86A5D]'}`}>
+                            (You)
+                          </span>
+                        )}
+                      </p>
+                      <p className={`text-sm ${rank <= 3 ? 'text-white/80' : 'text-[#333333]/70'}`}>
+                        {entry.ratedGames} rated games
+                      </p>
+                    </div>
+                  </div>
+
+                  <p className={`text-xl font-black ${rank <= 3 ? 'text-white' : 'text-[#3DB4D8]'}`}>
+                    {entry.rating}
+                  </p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      {/* Daily Challenge List */}
+      {tab === 'daily' && (
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {dailyLeaderboard.length === 0 ? (
+            <div className="text-center py-12">
+              <Trophy size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
+              <p className="text-[#333333] text-xl font-bold opacity-70">
+                {isLoadingDaily ? 'Loading today\'s results...' : 'Nobody has played today yet!'}
+              </p>
+              {!isLoadingDaily && (
+                <p className="text-[#333333] text-sm opacity-50 mt-2">
+                  Play the daily challenge to take the top spot
+                </p>
+              )}
+            </div>
+          ) : (
+            dailyLeaderboard.map(entry => (
               <div
-                key={entry.address}
-                className={`${getRankBg(rank)} rounded-xl border-3 border-[#333333] 
+                key={entry.rank}
+                className={`${getRankBg(entry.rank)} rounded-xl border-3 border-[#333333]
                            shadow-lg p-4 flex items-center justify-between
-                           ${isCurrentUser ? 'ring-4 ring-[#E86A5D] ring-opacity-50' : ''}`}
+                           ${entry.isYou ? 'ring-4 ring-[#E86A5D] ring-opacity-50' : ''}`}
               >
                 <div className="flex items-center space-x-4">
                   <div className="flex items-center justify-center w-12 h-12">
-                    {getRankIcon(rank)}
+                    {getRankIcon(entry.rank)}
                   </div>
-                  
+
                   <div>
-                    <p className={`font-black text-lg ${rank <= 3 ? 'text-white' : 'text-[#333333]'}`}>
-                      {getDisplayName(entry)}
-                      {isCurrentUser && (
-                        <span className={`ml-2 text-sm ${rank <= 3 ? 'text-white/80' : 'text-[#E86A5D]'}`}>
+                    <p className={`font-black text-lg ${entry.rank <= 3 ? 'text-white' : 'text-[#333333]'}`}>
+                      {entry.name}
+                      {entry.isYou && (
+                        <span className={`ml-2 text-sm ${entry.rank <= 3 ? 'text-white/80' : 'text-[#E86A5D]'}`}>
                           (You)
                         </span>
                       )}
                     </p>
-                    <p className={`text-sm ${rank <= 3 ? 'text-white/80' : 'text-[#333333]/70'}`}>
-                      {entry.gamesPlayed} games • {formatAddress(entry.address)}
+                    <p className={`text-sm ${entry.rank <= 3 ? 'text-white/80' : 'text-[#333333]/70'}`}>
+                      {entry.winner === 'player' ? 'Beat the bot' : entry.winner === 'draw' ? 'Drew the bot' : 'Lost to the bot'}
                     </p>
                   </div>
                 </div>
-                
-                <div className="text-right">
-                  <p className={`text-xl font-black ${rank <= 3 ? 'text-white' : 'text-[#E86A5D]'}`}>
-                    {entry.totalTokensWon.toLocaleString()} $CC
-                  </p>
-                  <p className={`text-xs ${rank <= 3 ? 'text-white/60' : 'text-[#333333]/50'}`}>
-                    {new Date(entry.lastPlayed).toLocaleDateString()}
-                  </p>
-                </div>
+
+                <p className={`text-xl font-black ${entry.rank <= 3 ? 'text-white' : 'text-[#E86A5D]'}`}>
+                  {entry.score}%
+                </p>
               </div>
-            );
-          })
-        )}
-      </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Leaderboard List */}
+      {tab === 'tokens' && (
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {leaderboard.length === 0 ? (
+            <div className="text-center py-12">
+              <Trophy size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
+              <p className="text-[#333333] text-xl font-bold opacity-70">
+                No winners yet!
+              </p>
+              <p className="text-[#333333] text-sm opacity-50 mt-2">
+                Be the first to win tokens from the roulette
+              </p>
+            </div>
+          ) : (
+            leaderboard.map((entry, index) => {
+              const rank = index + 1;
+              const isCurrentUser = entry.address === currentUserAddress;
+              
+              return (
+                <div
+                  key={entry.address}
+                  className={`${getRankBg(rank)} rounded-xl border-3 border-[#333333] 
+                             shadow-lg p-4 flex items-center justify-between
+                             ${isCurrentUser ? 'ring-4 ring-[#E86A5D] ring-opacity-50' : ''}`}
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="flex items-center justify-center w-12 h-12">
+                      {getRankIcon(rank)}
+                    </div>
+                    
+                    <div>
+                      <p className={`font-black text-lg ${rank <= 3 ? 'text-white' : 'text-[#333333]'}`}>
+                        {getDisplayName(entry)}
+                        {isCurrentUser && (
+                          <span className={`ml-2 text-sm ${rank <= 3 ? 'text-white/80' : 'text-[#E86A5D]'}`}>
+                            (You)
+                          </span>
+                        )}
+                      </p>
+                      <p className={`text-sm ${rank <= 3 ? 'text-white/80' : 'text-[#333333]/70'}`}>
+                        {entry.gamesPlayed} games • {formatAddress(entry.address)}
+                      </p>
+                    </div>
+                  </div>
+                  
+                  <div className="text-right">
+                    <p className={`text-xl font-black ${rank <= 3 ? 'text-white' : 'text-[#E86A5D]'}`}>
+                      {entry.totalTokensWon.toLocaleString()} $CC
+                    </p>
+                    <p className={`text-xs ${rank <= 3 ? 'text-white/60' : 'text-[#333333]/50'}`}>
+                      {new Date(entry.lastPlayed).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
 
       {/* Footer Stats */}
-      {leaderboard.length > 0 && (
+      {tab === 'tokens' && leaderboard.length > 0 && (
         <div className="mt-6 bg-white rounded-xl border-3 border-[#333333] p-4">
           <div className="grid grid-cols-2 gap-4 text-center">
             <div>
@@ -0,0 +1,150 @@
+import React from 'react';
+import { ArrowLeft, Film, Play } from 'lucide-react';
+import { MatchRecording } from '../types/game';
+import { SentChallenge } from '../services/challengeService';
+
+interface MatchHistoryScreenProps {
+  recordings: MatchRecording[];
+  challenges: SentChallenge[];
+  onWatchReplay: (recording: MatchRecording) => void;
+  onBack: () => void;
+}
+
+const MatchHistoryScreen: React.FC<MatchHistoryScreenProps> = ({
+  recordings,
+  challenges,
+  onWatchReplay,
+  onBack
+}) => {
+  const getResultLabel = (recording: MatchRecording) => {
+    switch (recording.result.winner) {
+      case 'player': return { text: 'WIN', className: 'bg-[#E86A5D] text-white' };
+      case 'bot': return { text: 'LOSS', className: 'bg-[#3DB4D8] text-white' };
+      case 'draw': return { text: 'DRAW', className: 'bg-gray-300 text-[#333333]' };
+    }
+  };
+
+  // Seen from the challenger: their ghost won or lost on their behalf
+  const getChallengeLabel = (challenge: SentChallenge) => {
+    switch (challenge.winner) {
+      case 'challenger': return { text: 'WIN', className: 'bg-[#E86A5D] text-white' };
+      case 'opponent': return { text: 'LOSS', className: 'bg-[#3DB4D8] text-white' };
+      case 'draw': return { text: 'DRAW', className: 'bg-gray-300 text-[#333333]' };
+      default: return { text: 'OPEN', className: 'bg-white text-[#333333]' };
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col p-6 bg-[#D8CFAF]">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <button
+          onClick={onBack}
+          className="w-12 h-12 bg-white rounded-full border-3 border-[#333333]
+                     flex items-center justify-center shadow-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={24} color="#333333" />
+        </button>
+
+        <h1 className="text-3xl font-black text-[#333333]">MATCH HISTORY</h1>
+
+        <div className="w-12 h-12"></div> {/* Spacer */}
+      </div>
+
+      {/* Recording List */}
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {challenges.length > 0 && (
+          <>
+            <p className="text-[#333333] font-black">MY CHALLENGES</p>
+            {challenges.map(challenge => {
+              const label = getChallengeLabel(challenge);
+
+              return (
+                <div
+                  key={challenge.id}
+                  className="bg-white rounded-xl border-3 border-[#333333] shadow-lg p-4
+                             flex items-center space-x-4"
+                >
+                  <span className={`px-3 py-1 rounded-lg border-2 border-[#333333] text-sm font-black ${label.className}`}>
+                    {label.text}
+                  </span>
+
+                  <div className="min-w-0">
+                    {challenge.completedAt ? (
+                      <p className="font-black text-lg text-[#333333] truncate">
+                        <span className="text-[#E86A5D]">{challenge.ghostScore}%</span>
+                        {' vs '}
+                        <span className="text-[#3DB4D8]">{challenge.opponentScore}%</span>
+                        {` ${challenge.opponentName ?? 'Someone'}`}
+                      </p>
+                    ) : (
+                      <p className="font-black text-lg text-[#333333]">
+                        Your {challenge.challengerScore}% run is waiting
+                      </p>
+                    )}
+                    <p className="text-xs text-[#333333]/50">
+                      {new Date(challenge.completedAt ?? challenge.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-[#333333] font-black pt-3">RECORDINGS</p>
+          </>
+        )}
+
+        {recordings.length === 0 ? (
+          <div className="text-center py-12">
+            <Film size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
+            <p className="text-[#333333] text-xl font-bold opacity-70">
+              No matches recorded yet!
+            </p>
+            <p className="text-[#333333] text-sm opacity-50 mt-2">
+              Play a game and it will show up here
+            </p>
+          </div>
+        ) : (
+          recordings.map(recording => {
+            const label = getResultLabel(recording);
+
+            return (
+              <div
+                key={recording.id}
+                className="bg-white rounded-xl border-3 border-[#333333] shadow-lg p-4
+                           flex items-center justify-between"
+              >
+                <div className="flex items-center space-x-4">
+                  <span className={`px-3 py-1 rounded-lg border-2 border-[#333333] text-sm font-black ${label.className}`}>
+                    {label.text}
+                  </span>
+
+                  <div>
+                    <p className="font-black text-lg text-[#333333]">
+                      <span className="text-[#E86A5D]">{recording.result.playerScore}%</span>
+                      {' vs '}
+                      <span className="text-[#3DB4D8]">{recording.result.botScore}%</span>
+                    </p>
+                    <p className="text-xs text-[#333333]/50">
+                      {new Date(recording.recordedAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => onWatchReplay(recording)}
+                  className="w-12 h-12 bg-[#E86A5D] rounded-full border-3 border-[#333333]
+                             flex items-center justify-center shadow-lg hover:bg-[#d85a4c]
+                             active:transform active:scale-95 transition-all duration-200"
+                >
+                  <Play size={20} color="white" fill="white" />
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchHistoryScreen;
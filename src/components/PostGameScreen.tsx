@@ -1,9 +1,7 @@
 import React, { useState } from 'react';
-import { Play, RotateCcw, Home, Rocket } from 'lucide-react';
-import { GameResult } from '../types/game';
-import { CONTRACT_ADDRESSES } from '../config/gameConfig';
-import { recordScoreOnChain } from '../services/blockchainService';
-import { useWallet } from '../hooks/useWallet';
+import { Play, RotateCcw, Home, Rocket, Film, Ghost } from 'lucide-react';
+import { GameResult, MatchVerificationStatus } from '../types/game';
+import { recordScore } from '../services/blockchainService';
 
 interface ToastFunctions {
   success: (message: string) => void;
@@ -13,32 +11,46 @@ interface ToastFunctions {
 }
 
 interface PostGameScreenProps {
+  // The match the result is for; its verified score is what gets recorded
+  matchId?: string;
   result: GameResult;
+  verificationStatus: MatchVerificationStatus;
   onPlayAgain: () => void;
   onSpinRoulette: () => void;
   onBackToHome: () => void;
+  onWatchReplay?: () => void;
+  onChallengeFriend?: () => void;
+  opponentName?: string;
+  // Roulette keys the server awarded for this match
+  keysAwarded: number;
+  // Change to the player's skill rating, once the server has rated the match
+  ratingChange?: number;
   isWalletConnected: boolean;
   onConnectWallet: () => void;
   canPlayToday: boolean;
   walletAddress?: string;
-  username?: string;
   showToast: ToastFunctions;
 }
 
 const PostGameScreen: React.FC<PostGameScreenProps> = ({
+  matchId,
   result,
+  verificationStatus,
   onPlayAgain,
   onSpinRoulette,
   onBackToHome,
+  onWatchReplay,
+  onChallengeFriend,
+  opponentName,
+  keysAwarded,
+  ratingChange,
   isWalletConnected,
   onConnectWallet,
   canPlayToday,
   walletAddress,
-  username,
   showToast,
 }) => {
   const [isRecording, setIsRecording] = useState(false);
-  const { signer } = useWallet();
 
   const getResultText = () => {
     switch (result.winner) {
@@ -56,7 +68,8 @@ const PostGameScreen: React.FC<PostGameScreenProps> = ({
     }
   };
 
-  const earnedToken = result.playerScore >= result.botScore;
+  const isVerified = verificationStatus === 'verified';
+  const earnedKeys = isVerified && keysAwarded > 0;
 
   const handleRecordScore = async () => {
     if (!isWalletConnected) {
@@ -64,29 +77,19 @@ const PostGameScreen: React.FC<PostGameScreenProps> = ({
       return;
     }
 
-    if (!walletAddress || !signer) {
-      showToast.error('Wallet connection error. Please try reconnecting.');
+    if (!matchId || !isVerified) {
+      showToast.error('Only verified matches can be recorded.');
       return;
     }
 
     setIsRecording(true);
-    showToast.info('Preparing transaction...');
+    showToast.info('Recording your score...');
 
     try {
-      const playerName = username || walletAddress.slice(0, 8);
-
-      showToast.info('Please confirm the transaction in your wallet...');
-      
-      const response = await recordScoreOnChain({
-        walletAddress,
-        score: result.playerScore,
-        contractAddress: CONTRACT_ADDRESSES.SCORE_RECORDER,
-        playerName,
-        signer
-      });
+      const response = await recordScore({ matchId });
 
       if (response.success) {
-        showToast.success(`Score ${result.playerScore}% recorded on blockchain!`);
+        showToast.success(`Score ${response.score ?? result.playerScore}% recorded on blockchain!`);
         console.log('Score recorded:', response);
       } else {
         throw new Error(response.error || 'Failed to record score');
@@ -94,15 +97,7 @@ const PostGameScreen: React.FC<PostGameScreenProps> = ({
 
     } catch (error) {
       console.error('Failed to record score:', error);
-      const errorMessage = (error as Error).message;
-
-      if (errorMessage.includes('user rejected')) {
-        showToast.warning('Transaction was cancelled by user.');
-      } else if (errorMessage.includes('insufficient funds')) {
-        showToast.error('Insufficient funds to complete transaction.');
-      } else {
-        showToast.error(`Failed to record score: ${errorMessage}`);
-      }
+      showToast.error(`Failed to record score: ${(error as Error).message}`);
     } finally {
       setIsRecording(false);
     }
@@ -134,22 +129,43 @@ const PostGameScreen: React.FC<PostGameScreenProps> = ({
                            shadow-xl ring-2 ring-white/30">
               <span className="text-white text-2xl font-black drop-shadow-lg">{result.botScore}%</span>
             </div>
-            <p className="text-[#333333] text-lg font-bold">BOT</p>
+            <p className="text-[#333333] text-lg font-bold max-w-[6rem] truncate">{opponentName || 'BOT'}</p>
           </div>
         </div>
 
+        {result.difficulty && (
+          <p className="text-[#333333] text-sm font-black mb-4 opacity-70">{result.difficulty} BOT</p>
+        )}
+
+        {/* Verification status */}
+        {verificationStatus === 'pending' && (
+          <p className="text-[#333333] text-lg font-bold mb-4 animate-pulse">Verifying match...</p>
+        )}
+        {verificationStatus === 'rejected' && (
+          <p className="text-red-600 text-lg font-bold mb-4">Match could not be verified - no rewards this time</p>
+        )}
+        {verificationStatus === 'voided' && (
+          <p className="text-[#333333] text-lg font-bold mb-4">Your opponent's match never came in - this one doesn't count</p>
+        )}
+
+        {isVerified && ratingChange !== undefined && (
+          <p className={`text-lg font-black mb-4 ${ratingChange >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+            RATING {ratingChange >= 0 ? '+' : ''}{ratingChange}
+          </p>
+        )}
+
         {/* Token Reward */}
-        {earnedToken && (
+        {earnedKeys && (
           <div className="bg-gradient-to-r from-green-400 to-green-600 rounded-2xl px-8 py-4 
                          border-4 border-[#333333] shadow-xl animate-bounce ring-2 ring-green-300/50">
-            <p className="text-white text-2xl font-black drop-shadow-lg">+1 Roulette Key! 🎉</p>
+            <p className="text-white text-2xl font-black drop-shadow-lg">+{keysAwarded} Roulette {keysAwarded === 1 ? 'Key' : 'Keys'}! 🎉</p>
           </div>
         )}
       </div>
 
       {/* Action Buttons */}
       <div className="space-y-4 w-full max-w-sm">
-        {(result.winner === 'player' || result.winner === 'draw') && isWalletConnected && walletAddress && (
+        {isVerified && (result.winner === 'player' || result.winner === 'draw') && isWalletConnected && walletAddress && (
           <button
             onClick={handleRecordScore}
             disabled={isRecording}
@@ -167,7 +183,7 @@ const PostGameScreen: React.FC<PostGameScreenProps> = ({
           </button>
         )}
 
-        {(result.winner === 'player' || result.winner === 'draw') && !isWalletConnected && (
+        {isVerified && (result.winner === 'player' || result.winner === 'draw') && !isWalletConnected && (
           <button
             onClick={onConnectWallet}
             className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white text-lg py-4 px-6 rounded-2xl
@@ -204,6 +220,32 @@ const PostGameScreen: React.FC<PostGameScreenProps> = ({
           <span>SPIN ROULETTE</span>
         </button>
 
+        {onWatchReplay && (
+          <button
+            onClick={onWatchReplay}
+            className="w-full bg-gradient-to-r from-yellow-400 to-yellow-500 text-[#333333] text-xl py-4 px-6 rounded-2xl
+                       border-4 border-[#333333] shadow-xl hover:from-yellow-300 hover:to-yellow-400
+                       active:transform active:scale-95 transition-all duration-200
+                       flex items-center justify-center space-x-2"
+          >
+            <Film size={24} />
+            <span>WATCH REPLAY</span>
+          </button>
+        )}
+
+        {isVerified && onChallengeFriend && (
+          <button
+            onClick={onChallengeFriend}
+            className="w-full bg-gradient-to-r from-purple-600 to-purple-700 text-white text-xl py-4 px-6 rounded-2xl
+                       border-4 border-[#333333] shadow-xl hover:from-purple-700 hover:to-purple-800
+                       active:transform active:scale-95 transition-all duration-200
+                       flex items-center justify-center space-x-2"
+          >
+            <Ghost size={24} />
+            <span>CHALLENGE A FRIEND</span>
+          </button>
+        )}
+
         <button
           onClick={onBackToHome}
           className="w-full bg-gradient-to-r from-white to-gray-100 text-[#333333] text-xl py-4 px-6 rounded-2xl
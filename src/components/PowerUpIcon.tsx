@@ -0,0 +1,31 @@
+import React from 'react';
+import { ArrowLeftRight, Bomb, LucideIcon, Magnet, Maximize2, PenLine, Shield, Snowflake, Zap } from 'lucide-react';
+import { PowerUpType } from '../types/game';
+import { PowerUpIconName, POWER_UPS } from '../engine/powerUps';
+
+const ICONS: Record<PowerUpIconName, LucideIcon> = {
+  zap: Zap,
+  bomb: Bomb,
+  maximize: Maximize2,
+  snowflake: Snowflake,
+  'pen-line': PenLine,
+  shield: Shield,
+  swap: ArrowLeftRight,
+  magnet: Magnet,
+};
+
+interface PowerUpIconProps {
+  type: PowerUpType;
+  size: number;
+  // Defaults to the power-up's own color
+  color?: string;
+}
+
+// Draws the icon a power-up declares in the registry
+const PowerUpIcon: React.FC<PowerUpIconProps> = ({ type, size, color }) => {
+  const { icon, color: ownColor } = POWER_UPS[type];
+  const Icon = ICONS[icon];
+  return <Icon size={size} color={color ?? ownColor} />;
+};
+
+export default PowerUpIcon;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Users, Share2, Copy, Check, Swords } from 'lucide-react';
+import { PvpLobby } from '../hooks/usePvpLobby';
+import { getInviteLink } from '../services/pvpLobbyService';
+
+interface PvpLobbyScreenProps {
+  lobby: PvpLobby | null;
+  opponentName: string | null;
+  isReady: boolean;
+  isOpponentReady: boolean;
+  isConnecting: boolean;
+  isAuthenticated: boolean;
+  error: string | null;
+  initialInviteCode?: string;
+  onCreateLobby: () => void;
+  onJoinLobby: (inviteCode: string) => void;
+  onReady: () => void;
+  onShareInvite: (inviteLink: string) => void;
+  onLeave: () => void;
+}
+
+const PvpLobbyScreen: React.FC<PvpLobbyScreenProps> = ({
+  lobby,
+  opponentName,
+  isReady,
+  isOpponentReady,
+  isConnecting,
+  isAuthenticated,
+  error,
+  initialInviteCode,
+  onCreateLobby,
+  onJoinLobby,
+  onReady,
+  onShareInvite,
+  onLeave,
+}) => {
+  const [inviteCode, setInviteCode] = useState(initialInviteCode ?? '');
+  const [copied, setCopied] = useState(false);
+
+  const isHost = lobby?.team === 'player';
+  const inviteLink = lobby?.inviteCode ? getInviteLink(lobby.inviteCode) : null;
+  const hasOpponent = !!opponentName;
+
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy invite link:', err);
+    }
+  };
+
+  const getStatusText = () => {
+    if (isReady && isOpponentReady) return 'Starting match...';
+    if (isReady) return `Waiting for ${opponentName || 'opponent'} to get ready...`;
+    if (isHost && !opponentName) return 'Waiting for someone to join...';
+    if (isOpponentReady) return `${opponentName} is ready!`;
+    return `${opponentName} is in the lobby`;
+  };
+
+  return (
+    <div className="h-screen flex flex-col p-6 bg-[#D8CFAF]">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <button
+          onClick={onLeave}
+          className="w-12 h-12 bg-white rounded-full border-3 border-[#333333]
+                     flex items-center justify-center shadow-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={24} color="#333333" />
+        </button>
+
+        <h1 className="text-3xl font-black text-[#333333]">PLAY A FRIEND</h1>
+
+        <div className="w-12 h-12"></div> {/* Spacer */}
+      </div>
+
+      {!isAuthenticated ? (
+        <div className="text-center py-12">
+          <Users size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
+          <p className="text-[#333333] text-xl font-bold opacity-70">
+            Sign in to play against friends
+          </p>
+          <p className="text-[#333333] text-sm opacity-50 mt-2">
+            Your invite will still be here once you have signed in
+          </p>
+        </div>
+      ) : !lobby ? (
+        <div className="space-y-6 w-full max-w-sm mx-auto">
+          <button
+            onClick={onCreateLobby}
+            disabled={isConnecting}
+            className="w-full bg-[#E86A5D] text-white text-2xl py-4 px-8 rounded-2xl
+                       border-4 border-[#333333] shadow-lg hover:bg-[#d85a4c]
+                       active:transform active:scale-95 transition-all duration-200
+                       disabled:bg-gray-400 disabled:cursor-not-allowed
+                       flex items-center justify-center space-x-3"
+          >
+            <Users size={32} />
+            <span>CREATE LOBBY</span>
+          </button>
+
+          <div className="bg-white rounded-2xl border-4 border-[#333333] p-4 shadow-lg space-y-3">
+            <p className="text-[#333333] font-black text-center">HAVE AN INVITE CODE?</p>
+            <input
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+              placeholder="ABC123"
+              maxLength={6}
+              className="w-full text-center text-2xl font-black tracking-widest py-3 rounded-xl
+                         border-3 border-[#333333] text-[#333333] uppercase"
+            />
+            <button
+              onClick={() => onJoinLobby(inviteCode)}
+              disabled={isConnecting || inviteCode.trim().length === 0}
+              className="w-full bg-[#3DB4D8] text-white text-xl py-3 px-6 rounded-xl
+                         border-3 border-[#333333] shadow-lg hover:bg-[#35a5c4]
+                         active:transform active:scale-95 transition-all duration-200
+                         disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              JOIN
+            </button>
+          </div>
+
+          {isConnecting && (
+            <p className="text-[#333333] text-center font-bold animate-pulse">Connecting...</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-6 w-full max-w-sm mx-auto">
+          {/* Players */}
+          <div className="flex items-center justify-center space-x-6">
+            <div className="text-center">
+              <div className={`w-20 h-20 rounded-full border-4 border-[#333333] shadow-xl mx-auto mb-2
+                              ${isHost ? 'bg-gradient-to-br from-[#E86A5D] to-[#D75A4C]' : 'bg-gradient-to-br from-[#3DB4D8] to-[#2A9BC1]'}`} />
+              <p className="text-[#333333] font-black">YOU</p>
+              <p className="text-xs text-[#333333] opacity-60">{isReady ? 'READY' : 'NOT READY'}</p>
+            </div>
+
+            <Swords size={40} color="#333333" />
+
+            <div className="text-center">
+              <div className={`w-20 h-20 rounded-full border-4 border-[#333333] shadow-xl mx-auto mb-2
+                              ${hasOpponent ? '' : 'opacity-30 animate-pulse'}
+                              ${isHost ? 'bg-gradient-to-br from-[#3DB4D8] to-[#2A9BC1]' : 'bg-gradient-to-br from-[#E86A5D] to-[#D75A4C]'}`} />
+              <p className="text-[#333333] font-black max-w-[6rem] truncate">{opponentName || '???'}</p>
+              <p className="text-xs text-[#333333] opacity-60">{isOpponentReady ? 'READY' : 'NOT READY'}</p>
+            </div>
+          </div>
+
+          {/* Invite */}
+          {isHost && inviteLink && (
+            <div className="bg-white rounded-2xl border-4 border-[#333333] p-4 shadow-lg space-y-3">
+              <p className="text-[#333333] text-sm font-bold text-center opacity-70">INVITE CODE</p>
+              <p className="text-[#333333] text-4xl font-black text-center tracking-widest">{lobby.inviteCode}</p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => onShareInvite(inviteLink)}
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-black py-3 rounded-xl
+                             border-3 border-[#333333] shadow-lg flex items-center justify-center space-x-2
+                             active:transform active:scale-95 transition-all duration-200"
+                >
+                  <Share2 size={18} />
+                  <span>CAST IT</span>
+                </button>
+                <button
+                  onClick={handleCopyLink}
+                  className="flex-1 bg-white text-[#333333] font-black py-3 rounded-xl
+                             border-3 border-[#333333] shadow-lg flex items-center justify-center space-x-2
+                             active:transform active:scale-95 transition-all duration-200"
+                >
+                  {copied ? <Check size={18} /> : <Copy size={18} />}
+                  <span>{copied ? 'COPIED' : 'COPY LINK'}</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          <p className="text-[#333333] text-center font-bold animate-pulse">{getStatusText()}</p>
+
+          <button
+            onClick={onReady}
+            disabled={isReady || !opponentName}
+            className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white text-2xl py-4 px-8 rounded-2xl
+                       border-4 border-[#333333] shadow-lg hover:from-green-700 hover:to-green-800
+                       active:transform active:scale-95 transition-all duration-200
+                       disabled:from-gray-400 disabled:to-gray-400 disabled:cursor-not-allowed"
+          >
+            {isReady ? 'READY!' : "I'M READY"}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-600 text-center font-bold mt-6">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default PvpLobbyScreen;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Play, Pause, RotateCcw } from 'lucide-react';
+import { MatchRecording } from '../types/game';
+import { useCanvasLayers } from '../hooks/useCanvasLayers';
+import { getFrameAt, getPowerUpsAt, replayPaints } from '../engine/matchRecorder';
+
+interface ReplayScreenProps {
+  recording: MatchRecording;
+  onBack: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2];
+
+const formatTime = (ms: number) => (ms / 1000).toFixed(1);
+
+const ReplayScreen: React.FC<ReplayScreenProps> = ({ recording, onBack }) => {
+  const boardRef = useRef<HTMLDivElement>(null);
+  const paintIndexRef = useRef(0);
+  const drawnTimeRef = useRef(0);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const { settings, duration } = recording;
+  const { initializeCanvas, renderer, setScene } = useCanvasLayers(boardRef, settings);
+  const [playerTeam, ...rivalTeams] = settings.teams;
+
+  const frame = getFrameAt(recording, playbackTime);
+  const powerUps = getPowerUpsAt(recording, playbackTime);
+  const isAtEnd = playbackTime >= duration;
+  const isOvertime = playbackTime >= settings.timer * 1000 && duration > settings.timer * 1000;
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let animationFrame: number;
+    let lastTimestamp: number | null = null;
+
+    const tick = (timestamp: number) => {
+      if (lastTimestamp !== null) {
+        const delta = (timestamp - lastTimestamp) * speed;
+        setPlaybackTime(prev => Math.min(duration, prev + delta));
+      }
+      lastTimestamp = timestamp;
+      animationFrame = requestAnimationFrame(tick);
+    };
+
+    animationFrame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [isPlaying, speed, duration]);
+
+  // Recordings keep no effects or zones, so brushes are drawn plain
+  useEffect(() => {
+    setScene({ brushes: frame.brushes, powerUps, zones: [] });
+  }, [setScene, frame, powerUps]);
+
+  useEffect(() => {
+    if (isAtEnd) {
+      setIsPlaying(false);
+    }
+  }, [isAtEnd]);
+
+  // Paint is incremental, so scrubbing backwards redraws from a blank canvas
+  useEffect(() => {
+    if (playbackTime < drawnTimeRef.current || paintIndexRef.current === 0) {
+      initializeCanvas();
+      paintIndexRef.current = 0;
+    }
+
+    paintIndexRef.current = replayPaints(recording, paintIndexRef.current, playbackTime, renderer);
+    drawnTimeRef.current = playbackTime;
+  }, [recording, playbackTime, initializeCanvas, renderer]);
+
+  const handleTogglePlay = () => {
+    if (isAtEnd) {
+      setPlaybackTime(0);
+    }
+    setIsPlaying(prev => isAtEnd || !prev);
+  };
+
+  const handleScrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPlaybackTime(Number(e.target.value));
+  };
+
+  const getResultText = () => {
+    switch (recording.result.winner) {
+      case 'player': return 'YOU WON';
+      case 'bot': return 'BOT WON';
+      case 'draw': return 'DRAW';
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col relative bg-gradient-to-br from-[#D8CFAF] to-[#C8BFAF]">
+      {/* Header */}
+      <div className="flex justify-between items-center p-4 z-20 bg-gradient-to-r from-black/10 to-black/5">
+        <button
+          onClick={onBack}
+          className="w-12 h-12 bg-white rounded-full border-3 border-[#333333]
+                     flex items-center justify-center shadow-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={24} color="#333333" />
+        </button>
+
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-14 h-14 rounded-full border-4 border-[#333333] flex items-center justify-center shadow-xl"
+            style={{ backgroundColor: playerTeam.color }}
+          >
+            <span className="text-white text-lg font-black drop-shadow-lg">{frame.scores[playerTeam.id]}%</span>
+          </div>
+          <div className="text-center">
+            <p className="text-[#333333] text-sm font-black">REPLAY</p>
+            <p className="text-[#333333] text-xs opacity-70">{getResultText()}</p>
+            {isOvertime && <p className="text-[#E86A5D] text-xs font-black">OVERTIME</p>}
+          </div>
+          {rivalTeams.map(team => (
+            <div
+              key={team.id}
+              className={`${rivalTeams.length > 1 ? 'w-11 h-11' : 'w-14 h-14'} rounded-full border-4 border-[#333333]
+                          flex items-center justify-center shadow-xl`}
+              style={{ backgroundColor: team.color }}
+            >
+              <span className="text-white text-lg font-black drop-shadow-lg">{frame.scores[team.id]}%</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="w-12 h-12"></div> {/* Spacer */}
+      </div>
+
+      {/* Replay Canvas */}
+      <div className="flex-1 relative">
+        <div
+          ref={boardRef}
+          className="w-full h-full relative overflow-hidden border-4 border-[#333333] shadow-2xl rounded-lg"
+        />
+      </div>
+
+      {/* Playback Controls */}
+      <div className="p-4 z-20 bg-gradient-to-r from-black/10 to-black/5 space-y-3">
+        <div className="flex items-center space-x-3">
+          <span className="text-[#333333] text-sm font-black w-10 text-right">{formatTime(playbackTime)}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={16}
+            value={playbackTime}
+            onChange={handleScrub}
+            className="flex-1 accent-[#E86A5D]"
+          />
+          <span className="text-[#333333] text-sm font-black w-10">{formatTime(duration)}</span>
+        </div>
+
+        <div className="flex items-center justify-center space-x-3">
+          <button
+            onClick={handleTogglePlay}
+            className="w-14 h-14 bg-gradient-to-br from-[#E86A5D] to-[#D75A4C] rounded-full
+                       border-4 border-[#333333] flex items-center justify-center shadow-xl
+                       active:transform active:scale-95 transition-all duration-200"
+          >
+            {isAtEnd ? (
+              <RotateCcw size={24} color="white" />
+            ) : isPlaying ? (
+              <Pause size={24} color="white" fill="white" />
+            ) : (
+              <Play size={24} color="white" fill="white" />
+            )}
+          </button>
+
+          {PLAYBACK_SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`px-4 py-2 rounded-xl border-3 border-[#333333] font-black shadow-lg
+                          active:transform active:scale-95 transition-all duration-200
+                          ${speed === option ? 'bg-[#3DB4D8] text-white' : 'bg-white text-[#333333]'}`}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayScreen;
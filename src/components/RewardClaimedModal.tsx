@@ -5,28 +5,62 @@ import { getClaimSignature, claimRewardOnChain } from '../services/blockchainSer
 import { CONTRACT_ADDRESSES } from '../config/gameConfig';
 import { useWallet } from '../hooks/useWallet';
 import { ethers } from 'ethers';
+import { MatchRecording } from '../types/game';
+import { composeCast } from '../lib/farcasterSdk';
+import { renderTimelapse, uploadTimelapse, downloadTimelapse } from '../services/timelapseService';
 
 interface RewardClaimedModalProps {
   reward: {amount: number; label: string; type: string};
+  // The spin that won it, which is what a token prize is claimed by
+  spinId?: string;
   onClose: () => void;
   walletAddress?: string;
   onSpinAgain?: () => void;
   hasMoreKeys?: boolean;
+  recording?: MatchRecording | null;
 }
 
 const RewardClaimedModal: React.FC<RewardClaimedModalProps> = ({
   reward,
+  spinId,
   onClose,
   walletAddress,
   onSpinAgain,
-  hasMoreKeys
+  hasMoreKeys,
+  recording
 }) => {
   const { moderateContent } = useModeration();
   const [isClaiming, setIsClaiming] = useState(false);
   const [claimed, setClaimed] = useState(false);
+  const [isPreparingShare, setIsPreparingShare] = useState(false);
   const { signer } = useWallet();
 
+  // Render the last match as a timelapse and host it so the cast can embed it.
+  // If hosting fails the video is downloaded so it can be attached by hand.
+  const prepareTimelapseEmbed = async (): Promise<string | null> => {
+    if (!recording) return null;
+
+    try {
+      const timelapse = await renderTimelapse(recording);
+      const upload = await uploadTimelapse(recording.id, timelapse);
+
+      if (upload.success && upload.url) {
+        return upload.url;
+      }
+
+      console.error('Timelapse upload failed:', upload.error);
+      downloadTimelapse(recording.id, timelapse);
+      alert('Could not attach your match video, so it was downloaded instead. Add it to your cast manually!');
+    } catch (error) {
+      console.error('Timelapse rendering failed:', error);
+    }
+
+    return null;
+  };
+
   const handleShareOnFarcaster = async () => {
+    if (isPreparingShare) return;
+
     const text = `I just won ${reward.amount} $CC playing Color Clash! 🎨 Try it out and win big! #ColorClash #Web3Gaming`;
     
     try {
@@ -37,19 +71,22 @@ const RewardClaimedModal: React.FC<RewardClaimedModalProps> = ({
         alert(`Cannot share: ${moderationResult.reason || 'Content not allowed'}`);
         return;
       }
-      
-      const url = `https://warpcast.com/~/compose?text=${encodeURIComponent(text)}`;
-      window.open(url, '_blank');
     } catch (error) {
       console.error('Share moderation failed:', error);
       // Allow sharing if moderation fails (fail-safe)
-      const url = `https://warpcast.com/~/compose?text=${encodeURIComponent(text)}`;
-      window.open(url, '_blank');
+    }
+
+    setIsPreparingShare(true);
+    try {
+      const embedUrl = await prepareTimelapseEmbed();
+      await composeCast(text, embedUrl ? [embedUrl] : []);
+    } finally {
+      setIsPreparingShare(false);
     }
   };
 
   const handleClaim = async () => {
-    if (reward.type !== 'onChainToken') {
+    if (reward.type !== 'onChainToken' || !spinId) {
       return;
     }
 
@@ -65,16 +102,10 @@ const RewardClaimedModal: React.FC<RewardClaimedModalProps> = ({
 
     setIsClaiming(true);
     try {
-      const playerName = walletAddress.slice(0, 8);
-
       console.log('Getting claim authorization...');
 
       const [signatureResponse] = await Promise.all([
-        getClaimSignature({
-          walletAddress,
-          rewardAmount: reward.amount,
-          playerName
-        }),
+        getClaimSignature({ spinId }),
         new Promise(resolve => setTimeout(resolve, 1000))
       ]);
 
@@ -84,13 +115,13 @@ const RewardClaimedModal: React.FC<RewardClaimedModalProps> = ({
 
       console.log('Please confirm the transaction in your wallet...');
 
-      // The edge function already converted the amount to wei and signed it
-      // Use the amount from the signature response
+      // The edge function signs the amount and wallet it has on record for
+      // the spin, so claim exactly those
       const amountInWei = BigInt(signatureResponse.rewardAmount!);
 
       const claimResponse = await claimRewardOnChain({
         signer,
-        recipient: walletAddress,
+        recipient: signatureResponse.walletAddress!,
         amount: amountInWei,
         nonce: signatureResponse.nonce!,
         signature: signatureResponse.signature!,
@@ -188,13 +219,15 @@ const RewardClaimedModal: React.FC<RewardClaimedModalProps> = ({
           {reward.type === 'onChainToken' && reward.amount > 0 && (
             <button
               onClick={handleShareOnFarcaster}
+              disabled={isPreparingShare}
               className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white text-lg font-black py-3 px-6
                          rounded-xl border-3 border-[#333333] shadow-lg hover:from-blue-700 hover:to-blue-800
                          active:transform active:scale-95 transition-all duration-200
+                         disabled:opacity-50 disabled:cursor-not-allowed
                          flex items-center justify-center space-x-2"
             >
-              <Share2 size={20} />
-              <span>Share on Farcaster</span>
+              <Share2 size={20} className={isPreparingShare ? 'animate-pulse' : ''} />
+              <span>{isPreparingShare ? 'Making your replay...' : 'Share on Farcaster'}</span>
             </button>
           )}
 
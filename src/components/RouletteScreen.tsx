@@ -1,13 +1,7 @@
 import React, { useState } from 'react';
 import { ArrowLeft, RotateCcw, Coins } from 'lucide-react';
-
-interface RouletteReward {
-    label: string;
-    probability: number;
-    type: 'onChainToken' | 'inGame' | 'nothing';
-    amount: number;
-}
-
+import { RouletteReward } from '../types/game';
+import { RouletteSpinResponse } from '../services/rouletteService';
 
 interface ToastFunctions {
   success: (message: string) => void;
@@ -17,10 +11,11 @@ interface ToastFunctions {
 }
 
 interface RouletteScreenProps {
-  rouletteRewards: RouletteReward[]; // Rewards are now passed as a prop
+  rouletteRewards: RouletteReward[];
   rouletteKeys: number;
-  onSpendKeys: (amount: number) => void;
-  onResult: (reward: RouletteReward) => void;
+  // Spends a key; the server picks the segment the wheel stops on
+  onSpin: () => Promise<RouletteSpinResponse>;
+  onResult: (spinId: string, reward: RouletteReward) => void;
   onBack: () => void;
   walletAddress?: string;
   onUpdateLeaderboard?: (address: string, tokensWon: number, username?: string, farcasterFid?: string) => void;
@@ -29,71 +24,39 @@ interface RouletteScreenProps {
   showToast: ToastFunctions;
 }
 
-// Add mock rewards to be used as a fallback
-const mockRewards: RouletteReward[] = [
-    { label: '1K $CC', probability: 0.20, type: 'onChainToken', amount: 1000 },
-    { label: '5K $CC', probability: 0.10, type: 'onChainToken', amount: 5000 },
-    { label: '10K $CC', probability: 0.04, type: 'onChainToken', amount: 10000 },
-    { label: '50K $CC', probability: 0.01, type: 'onChainToken', amount: 50000 },
-    { label: '+2 Keys', probability: 0.25, type: 'inGameCurrency', amount: 2 },
-    { label: 'Try Again', probability: 0.40, type: 'noReward', amount: 0 },
-];
-
 const RouletteScreen: React.FC<RouletteScreenProps> = ({
-  rouletteRewards: rewardsFromProps,
+  rouletteRewards,
   rouletteKeys,
-  onSpendKeys,
+  onSpin,
   onResult,
   onBack,
   walletAddress,
   onUpdateLeaderboard,
   username,
   farcasterFid,
+  showToast,
 }) => {
   const [isSpinning, setIsSpinning] = useState(false);
   const [rotation, setRotation] = useState(0);
 
-  // Use rewards from props if available, otherwise use mock data.
-  // This prevents the component from getting stuck on a loading screen.
-  const rouletteRewards = (rewardsFromProps && rewardsFromProps.length > 0) 
-    ? rewardsFromProps 
-    : mockRewards;
-  
-  // Add a console warning for developers when the fallback data is used.
-  React.useEffect(() => {
-      if (!rewardsFromProps || rewardsFromProps.length === 0) {
-        console.warn("RouletteScreen: `rouletteRewards` prop is empty or not provided. Using mock data for display.");
-      }
-  }, [rewardsFromProps]);
-
-
-  const getRandomReward = (): RouletteReward => {
-    const random = Math.random();
-    let cumulativeProbability = 0;
-
-    for (const reward of rouletteRewards) {
-      cumulativeProbability += reward.probability;
-      if (random <= cumulativeProbability) {
-        return reward;
-      }
-    }
-    // Fallback to the last reward, should be rare
-    return rouletteRewards[rouletteRewards.length - 1];
-  };
-
-
-  const handleSpin = () => {
+  const handleSpin = async () => {
     if (rouletteKeys === 0 || isSpinning) return;
 
     setIsSpinning(true);
-    onSpendKeys(1);
+    const spin = await onSpin();
+
+    if (!spin.success || !spin.spinId || spin.rewardIndex === undefined || !spin.reward) {
+      setIsSpinning(false);
+      showToast.error(spin.error || 'Could not spin the wheel');
+      return;
+    }
 
-    const winningReward = getRandomReward();
-    const segmentIndex = rouletteRewards.findIndex(r => r.label === winningReward.label);
+    const { spinId, rewardIndex, reward: winningReward } = spin;
     const segmentAngle = 360 / rouletteRewards.length;
-    const targetAngle = segmentIndex * segmentAngle + (segmentAngle / 2);
+    const targetAngle = rewardIndex * segmentAngle + (segmentAngle / 2);
 
-    const totalRotation = rotation + 2160 + (360 - targetAngle);
+    // Six full turns from upright, so the wheel stops where the server says
+    const totalRotation = rotation - (rotation % 360) + 2160 + (360 - targetAngle);
     setRotation(totalRotation);
 
     setTimeout(() => {
@@ -109,7 +72,7 @@ const RouletteScreen: React.FC<RouletteScreenProps> = ({
         console.log('No reward - better luck next time!');
       }
 
-      onResult(winningReward);
+      onResult(spinId, winningReward);
     }, 4000);
   };
 
@@ -0,0 +1,267 @@
+import React from 'react';
+import { ArrowLeft, Swords, Play, UserPlus, Trophy } from 'lucide-react';
+import { TournamentStatus } from '../types/game';
+import { BOT_PERSONALITY_OPTIONS, DIFFICULTY_OPTIONS } from '../config/gameConfig';
+import { arenaById } from '../config/arenas';
+import { prizeAmounts } from '../engine/tournament';
+import {
+  GetTournamentResponse,
+  TournamentMatch,
+  TournamentSummary,
+} from '../services/tournamentService';
+
+const STATUS_LABELS: Record<TournamentStatus, { text: string; className: string }> = {
+  registration: { text: 'OPEN', className: 'bg-[#E86A5D] text-white' },
+  running: { text: 'LIVE', className: 'bg-[#3DB4D8] text-white' },
+  completed: { text: 'ENDED', className: 'bg-gray-300 text-[#333333]' },
+  finalized: { text: 'PAID OUT', className: 'bg-yellow-500 text-[#333333]' },
+  cancelled: { text: 'CANCELLED', className: 'bg-gray-300 text-[#333333]' },
+};
+
+const PLACES = ['1st', '2nd', '3rd'];
+
+interface TournamentScreenProps {
+  tournaments: TournamentSummary[];
+  detail: Omit<GetTournamentResponse, 'success' | 'error'> | null;
+  selectedId: string | null;
+  isLoading: boolean;
+  isAuthenticated: boolean;
+  canPlayToday: boolean;
+  isJoining: boolean;
+  isStarting: boolean;
+  onSelect: (tournamentId: string | null) => void;
+  onJoin: (tournamentId: string) => void;
+  onPlay: (tournament: TournamentSummary) => void;
+  onBack: () => void;
+}
+
+const TournamentScreen: React.FC<TournamentScreenProps> = ({
+  tournaments,
+  detail,
+  selectedId,
+  isLoading,
+  isAuthenticated,
+  canPlayToday,
+  isJoining,
+  isStarting,
+  onSelect,
+  onJoin,
+  onPlay,
+  onBack
+}) => {
+  const tournament = detail?.tournament;
+  const now = Date.now();
+  const canJoin = !!tournament && isAuthenticated && !detail?.isEntered &&
+    tournament.status === 'registration' &&
+    tournament.entrants < tournament.maxEntrants &&
+    now >= new Date(tournament.entryOpensAt).getTime() &&
+    now < new Date(tournament.entryClosesAt).getTime();
+
+  const describe = (summary: TournamentSummary) => [
+    summary.format === 'bracket' ? 'Bracket' : 'Swiss',
+    arenaById(summary.arenaId)?.name,
+    DIFFICULTY_OPTIONS.find(option => option.level === summary.difficulty)?.label,
+    BOT_PERSONALITY_OPTIONS.find(option => option.personality === summary.botPersonality)?.label,
+  ].filter(Boolean).join(' • ');
+
+  const renderStatus = (status: TournamentStatus) => (
+    <span className={`px-3 py-1 rounded-lg border-2 border-[#333333] text-sm font-black ${STATUS_LABELS[status].className}`}>
+      {STATUS_LABELS[status].text}
+    </span>
+  );
+
+  // One side of a pairing, highlighted when it took the pairing
+  const renderSide = (name: string | null, score: number | null, won: boolean) => (
+    <div className={`flex items-center justify-between px-2 py-1 ${won ? 'bg-[#E86A5D]/20' : ''}`}>
+      <span className={`truncate ${won ? 'font-black' : 'font-bold opacity-70'}`}>{name ?? 'BYE'}</span>
+      <span className="ml-2">{score !== null ? `${score}%` : '–'}</span>
+    </div>
+  );
+
+  const renderMatch = (match: TournamentMatch) => (
+    <div
+      key={match.id}
+      className={`bg-white rounded-lg border-2 text-sm text-[#333333]
+                 ${match.isYours ? 'border-[#E86A5D]' : 'border-[#333333]'}`}
+    >
+      {renderSide(match.playerA, match.scoreA, match.winner === 'a')}
+      <div className="border-t border-[#333333]/20" />
+      {renderSide(match.playerB, match.scoreB, match.winner === 'b')}
+    </div>
+  );
+
+  return (
+    <div className="h-screen flex flex-col p-6 bg-[#D8CFAF]">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <button
+          onClick={selectedId ? () => onSelect(null) : onBack}
+          className="w-12 h-12 bg-white rounded-full border-3 border-[#333333]
+                     flex items-center justify-center shadow-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={24} color="#333333" />
+        </button>
+
+        <h1 className="text-3xl font-black text-[#333333] truncate px-4">
+          {selectedId ? tournament?.name ?? 'TOURNAMENT' : 'TOURNAMENTS'}
+        </h1>
+
+        <div className="w-12 h-12"></div> {/* Spacer */}
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {!selectedId && (
+          tournaments.length === 0 ? (
+            <div className="text-center py-12">
+              <Swords size={64} color="#333333" className="mx-auto mb-4 opacity-50" />
+              <p className="text-[#333333] text-xl font-bold opacity-70">
+                {isLoading ? 'Loading tournaments...' : 'No tournaments scheduled yet!'}
+              </p>
+            </div>
+          ) : (
+            tournaments.map(summary => (
+              <button
+                key={summary.id}
+                onClick={() => onSelect(summary.id)}
+                className="w-full text-left bg-white rounded-xl border-3 border-[#333333] shadow-lg p-4
+                           flex items-center space-x-4 hover:bg-gray-100"
+              >
+                {renderStatus(summary.status)}
+
+                <div className="min-w-0 flex-1">
+                  <p className="font-black text-lg text-[#333333] truncate">{summary.name}</p>
+                  <p className="text-xs text-[#333333]/60 truncate">{describe(summary)}</p>
+                  <p className="text-xs text-[#333333]/50">
+                    {summary.entrants}/{summary.maxEntrants} players
+                    {summary.isEntered && ' • You are in'}
+                  </p>
+                </div>
+
+                {summary.prizePool > 0 && (
+                  <span className="font-black text-[#333333] whitespace-nowrap">{summary.prizePool} $CC</span>
+                )}
+              </button>
+            ))
+          )
+        )}
+
+        {selectedId && !tournament && (
+          <p className="text-center text-[#333333] text-xl font-bold opacity-70 py-12">
+            Loading tournament...
+          </p>
+        )}
+
+        {selectedId && tournament && detail && (
+          <>
+            <div className="bg-white rounded-xl border-3 border-[#333333] shadow-lg p-4 space-y-2 text-[#333333]">
+              <div className="flex items-center justify-between">
+                {renderStatus(tournament.status)}
+                <span className="text-sm">
+                  {tournament.status === 'running'
+                    ? `Round ${tournament.currentRound}${tournament.totalRounds ? ` of ${tournament.totalRounds}` : ''}`
+                    : `${tournament.entrants}/${tournament.maxEntrants} players`}
+                </span>
+              </div>
+              <p className="text-sm">{describe(tournament)}</p>
+              <p className="text-xs opacity-60">
+                Entries {new Date(tournament.entryOpensAt).toLocaleString()} – {new Date(tournament.entryClosesAt).toLocaleString()}
+                {' • '}{tournament.roundMinutes} min rounds
+              </p>
+
+              {tournament.prizePool > 0 && (
+                <div className="flex items-center space-x-3">
+                  <Trophy size={20} color="#333333" />
+                  <span className="font-black">{tournament.prizePool} $CC</span>
+                  <span className="text-xs opacity-60 truncate">
+                    {prizeAmounts(tournament.prizePool, tournament.prizeSplit, tournament.prizeSplit.length)
+                      .map((amount, index) => `${PLACES[index] ?? `${index + 1}th`} ${amount}`)
+                      .join(' • ')}
+                  </span>
+                </div>
+              )}
+
+              {canJoin && (
+                <button
+                  onClick={() => onJoin(tournament.id)}
+                  disabled={isJoining}
+                  className="w-full bg-[#E86A5D] text-white text-xl py-3 px-6 rounded-2xl
+                             border-4 border-[#333333] shadow-lg hover:bg-[#d85a4c]
+                             active:transform active:scale-95 transition-all duration-200
+                             disabled:bg-gray-400 disabled:cursor-not-allowed
+                             flex items-center justify-center space-x-3"
+                >
+                  <UserPlus size={24} />
+                  <span>{isJoining ? 'JOINING...' : 'JOIN'}</span>
+                </button>
+              )}
+
+              {detail.playableMatchId && (
+                <button
+                  onClick={() => onPlay(tournament)}
+                  disabled={isStarting || !canPlayToday}
+                  className="w-full bg-[#3DB4D8] text-white text-xl py-3 px-6 rounded-2xl
+                             border-4 border-[#333333] shadow-lg hover:bg-[#35a5c4]
+                             active:transform active:scale-95 transition-all duration-200
+                             disabled:bg-gray-400 disabled:cursor-not-allowed
+                             flex items-center justify-center space-x-3"
+                >
+                  <Play size={24} fill="white" />
+                  <span>{isStarting ? 'STARTING...' : `PLAY ROUND ${tournament.currentRound}`}</span>
+                </button>
+              )}
+
+              {detail.isEntered && tournament.status === 'registration' && (
+                <p className="text-sm text-center opacity-70">You are in! Round 1 starts when entries close.</p>
+              )}
+            </div>
+
+            {(detail.rounds ?? []).length > 0 && (
+              <div className="flex space-x-3 overflow-x-auto pb-2">
+                {(detail.rounds ?? []).map(round => (
+                  <div key={round.round} className="min-w-[12rem] space-y-2">
+                    <p className="text-[#333333] font-black">
+                      ROUND {round.round}
+                      {!round.isClosed && (
+                        <span className="text-xs font-bold opacity-60">
+                          {' '}until {new Date(round.endsAt).toLocaleTimeString()}
+                        </span>
+                      )}
+                    </p>
+                    {(detail.matches ?? []).filter(match => match.round === round.round).map(renderMatch)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(detail.standings ?? []).length > 0 && (
+              <>
+                <p className="text-[#333333] font-black pt-3">STANDINGS</p>
+                <div className="bg-white rounded-xl border-3 border-[#333333] shadow-lg overflow-hidden">
+                  {(detail.standings ?? []).map(standing => (
+                    <div
+                      key={standing.rank}
+                      className={`flex items-center px-4 py-2 text-[#333333] border-b border-[#333333]/10
+                                 ${standing.isYou ? 'bg-[#E86A5D]/20' : ''}`}
+                    >
+                      <span className="w-10 font-black">#{standing.rank}</span>
+                      <span className="flex-1 truncate">{standing.name}</span>
+                      <span className="w-16 text-right text-sm">
+                        {tournament.format === 'swiss' ? `${standing.points} pts` : `${standing.points} W`}
+                      </span>
+                      <span className="w-16 text-right text-sm opacity-60">{standing.totalScore}%</span>
+                      {standing.prize !== null && (
+                        <span className="w-20 text-right text-sm font-black">{standing.prize} $CC</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TournamentScreen;
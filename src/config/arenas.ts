@@ -0,0 +1,104 @@
+import { ArenaDefinition } from '../types/game.ts';
+
+// Built-in arenas. Like gameSettings.ts this file is env-free so the edge
+// functions can replay a match on the arena its ticket was issued for.
+// Every arena is plain JSON laid out on the 360x640 canvas.
+
+export const CLASSIC_ARENA: ArenaDefinition = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'An open canvas, nothing in the way',
+  walls: [],
+  holes: [],
+  bonusZones: [],
+  prePainted: [],
+  spawns: {
+    player: { x: 180, y: 590 },
+    bot: { x: 180, y: 590 }
+  }
+};
+
+export const ARENAS: ArenaDefinition[] = [
+  CLASSIC_ARENA,
+  {
+    id: 'pillars',
+    name: 'Pillars',
+    description: 'Four pillars around a double-points center',
+    walls: [
+      { kind: 'rect', x: 60, y: 150, width: 50, height: 50 },
+      { kind: 'rect', x: 250, y: 150, width: 50, height: 50 },
+      { kind: 'rect', x: 60, y: 440, width: 50, height: 50 },
+      { kind: 'rect', x: 250, y: 440, width: 50, height: 50 }
+    ],
+    holes: [],
+    bonusZones: [
+      { kind: 'circle', x: 180, y: 320, radius: 60 }
+    ],
+    prePainted: [],
+    spawns: {
+      player: { x: 180, y: 590 },
+      bot: { x: 180, y: 50 }
+    }
+  },
+  {
+    id: 'crossroads',
+    name: 'Crossroads',
+    description: 'Mind the holes; each side starts with a corner',
+    walls: [],
+    holes: [
+      { kind: 'circle', x: 90, y: 200, radius: 40 },
+      { kind: 'circle', x: 270, y: 200, radius: 40 },
+      { kind: 'circle', x: 90, y: 440, radius: 40 },
+      { kind: 'circle', x: 270, y: 440, radius: 40 }
+    ],
+    bonusZones: [
+      { kind: 'rect', x: 150, y: 290, width: 60, height: 60 }
+    ],
+    prePainted: [
+      { team: 'player', shape: { kind: 'rect', x: 0, y: 560, width: 120, height: 80 } },
+      { team: 'bot', shape: { kind: 'rect', x: 240, y: 0, width: 120, height: 80 } }
+    ],
+    spawns: {
+      player: { x: 60, y: 600 },
+      bot: { x: 300, y: 40 }
+    }
+  },
+  {
+    id: 'divide',
+    name: 'The Divide',
+    description: 'A wall splits the board; fight over the gap',
+    walls: [
+      { kind: 'rect', x: 0, y: 310, width: 130, height: 20 },
+      { kind: 'rect', x: 230, y: 310, width: 130, height: 20 }
+    ],
+    holes: [],
+    bonusZones: [
+      { kind: 'circle', x: 60, y: 160, radius: 35 },
+      { kind: 'circle', x: 300, y: 480, radius: 35 }
+    ],
+    prePainted: [],
+    spawns: {
+      player: { x: 180, y: 590 },
+      bot: { x: 180, y: 50 }
+    }
+  }
+];
+
+export const DEFAULT_ARENA_ID = CLASSIC_ARENA.id;
+
+export const arenaById = (id: string): ArenaDefinition | undefined =>
+  ARENAS.find(arena => arena.id === id);
+
+// Arenas in the editor go by this id until they are saved
+export const DRAFT_ARENA_ID = 'draft';
+
+export const newArenaDraft = (): ArenaDefinition => ({
+  ...CLASSIC_ARENA,
+  id: DRAFT_ARENA_ID,
+  name: 'My Arena',
+  description: '',
+  spawns: {
+    player: { x: 180, y: 590 },
+    bot: { x: 180, y: 50 }
+  }
+});
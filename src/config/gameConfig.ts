@@ -1,29 +1,46 @@
-import { RouletteReward, GameSettings } from '../types/game';
+import { BotPersonality, DifficultyChoice, TeamMode } from '../types/game';
 
-export const GAME_SETTINGS: GameSettings = {
-  timer: 10,
-  canvasWidth: 360,
-  canvasHeight: 640,
-  brushSize: 48,
-  botSpeed: 8,
-  powerUpDuration: 4500,
-  powerUpSpawnInterval: 3000,
-  dailyGameLimit: 50,
-  botDifficulty: {
-    minScore: 40,
-    maxScore: 60,
-    adaptiveSpeed: true,
-    powerUpSeekChance: 0.6
-  }
-};
+// Game rules live in gameSettings.ts so the edge functions can share them
+export {
+  GAME_SETTINGS,
+  BOT_DIFFICULTY_PRESETS,
+  DIFFICULTY_LEVELS,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_REWARDS,
+  ROULETTE_REWARDS,
+  MATCH_LENGTHS,
+  DEFAULT_MATCH_LENGTH,
+  settingsForDifficulty,
+  settingsForMatch,
+} from './gameSettings';
+
+// Bot personalities offered on the home screen, in display order
+export const BOT_PERSONALITY_OPTIONS: { personality: BotPersonality; label: string; description: string }[] = [
+  { personality: 'classic', label: 'CLASSIC', description: 'Wanders, chases, and keeps you guessing' },
+  { personality: 'floodFiller', label: 'FLOODER', description: 'Spreads steadily over blank canvas' },
+  { personality: 'stealer', label: 'STEALER', description: 'Follows your brush and paints over you' },
+  { personality: 'powerUpHunter', label: 'HUNTER', description: 'Grabs every power-up it sees' },
+];
+
+// Difficulties offered on the home screen, in display order
+export const DIFFICULTY_OPTIONS: { level: DifficultyChoice; label: string; description: string }[] = [
+  { level: 'ADAPTIVE', label: 'AUTO', description: 'A bot matched to your skill rating' },
+  { level: 'EASY', label: 'EASY', description: 'A relaxed bot - fewer keys, smaller prizes' },
+  { level: 'MEDIUM', label: 'MEDIUM', description: 'The standard match' },
+  { level: 'HARD', label: 'HARD', description: 'Wins pay 2 keys with better prize odds' },
+  { level: 'EXPERT', label: 'EXPERT', description: 'Wins pay 3 keys with the best prize odds' },
+];
 
-export const ROULETTE_REWARDS: RouletteReward[] = [
-  { type: 'onChainToken', amount: 1000, label: '1K', probability: 0.55 },
-  { type: 'onChainToken', amount: 5000, label: '5K', probability: 0.20 },
-  { type: 'onChainToken', amount: 10000, label: '10K', probability: 0.15 },
-  { type: 'onChainToken', amount: 50000, label: '50K', probability: 0.05 },
-  { type: 'inGameCurrency', amount: 2, label: '+2 Keys', probability: 0.00 },
-  { type: 'noReward', amount: 0, label: 'Try Again', probability: 0.05 },
+// Team modes offered on the home screen, in display order
+export const TEAM_MODE_OPTIONS: { mode: TeamMode; label: string; description: string }[] = [
+  { mode: 'duel', label: '1 V 1', description: 'You against one bot' },
+  { mode: 'allies', label: '2 V 2', description: 'You and an allied bot share a color against two bots' },
+  { mode: 'freeForAll', label: 'FREE FOR ALL', description: 'Four colors, every brush for itself - beat them all to win' },
+];
+
+export const BRUSH_PHYSICS_OPTIONS: { enabled: boolean; label: string; description: string }[] = [
+  { enabled: false, label: 'DIRECT', description: 'Your brush jumps straight to your finger' },
+  { enabled: true, label: 'MOMENTUM', description: 'Your brush chases your finger at the speed of the bots' },
 ];
 
 // NOTE: Recording fee is now fetched dynamically from the contract
@@ -65,34 +82,6 @@ if (!import.meta.env.VITE_SCORE_RECORDER_ADDRESS) {
 } else {
   validateContractAddress(import.meta.env.VITE_SCORE_RECORDER_ADDRESS, 'VITE_SCORE_RECORDER_ADDRESS');
 }
-// Bot Difficulty Presets - Easy to configure different difficulty levels
-export const BOT_DIFFICULTY_PRESETS = {
-  EASY: {
-    minScore: 20,
-    maxScore: 40,
-    adaptiveSpeed: true,
-    powerUpSeekChance: 0.3
-  },
-  MEDIUM: {
-    minScore: 40,
-    maxScore: 60,
-    adaptiveSpeed: true,
-    powerUpSeekChance: 0.6
-  },
-  HARD: {
-    minScore: 60,
-    maxScore: 80,
-    adaptiveSpeed: true,
-    powerUpSeekChance: 0.8
-  },
-  EXPERT: {
-    minScore: 70,
-    maxScore: 90,
-    adaptiveSpeed: true,
-    powerUpSeekChance: 0.9
-  }
-};
-
 // Contract ABIs - these would be generated from your compiled contracts
 export const CONTRACT_ABIS = {
   REWARD_DISTRIBUTOR: [
@@ -0,0 +1,214 @@
+import { ArenaDefinition, BotDifficulty, DifficultyLevel, GameResult, GameSettings, RouletteReward, TeamMode } from '../types/game.ts';
+import { CLASSIC_ARENA } from './arenas.ts';
+import { DEFAULT_TEAM_MODE, TEAM_MODES } from './teamModes.ts';
+
+// No import.meta.env in here - this file is also loaded by the Supabase edge
+// functions to re-simulate matches.
+
+export const GAME_SETTINGS: GameSettings = {
+  timer: 10,
+  canvasWidth: 360,
+  canvasHeight: 640,
+  brushSize: 48,
+  ownershipCellSize: 4,
+  botSpeed: 8,
+  brushPhysics: false,
+  brushSpeed: 8,
+  powerUpDuration: 4500,
+  powerUpSpawnInterval: 3000,
+  powerUpEffects: {
+    speedMultiplier: 2.5,
+    maxStrokeCarry: 120,
+    enlargeMultiplier: 1.8
+  },
+  overtime: {
+    enabled: false,
+    margin: 1,
+    maxLength: 10
+  },
+  arena: CLASSIC_ARENA,
+  teams: TEAM_MODES[DEFAULT_TEAM_MODE],
+  dailyGameLimit: 50,
+  botDifficulty: {
+    minScore: 40,
+    maxScore: 60,
+    adaptiveSpeed: true,
+    powerUpSeekChance: 0.6
+  }
+};
+
+// Bot Difficulty Presets - Easy to configure different difficulty levels
+export const BOT_DIFFICULTY_PRESETS: Record<DifficultyLevel, BotDifficulty> = {
+  EASY: {
+    minScore: 20,
+    maxScore: 40,
+    adaptiveSpeed: true,
+    powerUpSeekChance: 0.3
+  },
+  MEDIUM: {
+    minScore: 40,
+    maxScore: 60,
+    adaptiveSpeed: true,
+    powerUpSeekChance: 0.6
+  },
+  HARD: {
+    minScore: 60,
+    maxScore: 80,
+    adaptiveSpeed: true,
+    powerUpSeekChance: 0.8
+  },
+  EXPERT: {
+    minScore: 70,
+    maxScore: 90,
+    adaptiveSpeed: true,
+    powerUpSeekChance: 0.9
+  }
+};
+
+// Match lengths a solo match can be played at, in seconds
+export const MATCH_LENGTHS = [10, 30, 60];
+
+export const DEFAULT_MATCH_LENGTH = GAME_SETTINGS.timer;
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['EASY', 'MEDIUM', 'HARD', 'EXPERT'];
+
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 'MEDIUM';
+
+// Settings for a match against the bot at the given difficulty. MEDIUM is
+// exactly GAME_SETTINGS, so logs from before difficulties existed still verify.
+export const settingsForDifficulty = (level: DifficultyLevel): GameSettings => ({
+  ...GAME_SETTINGS,
+  botDifficulty: { ...BOT_DIFFICULTY_PRESETS[level] },
+});
+
+// The skill rating each preset is pitched at. An adaptive bot for a rating
+// in between blends the two nearest presets.
+export const DIFFICULTY_RATINGS: Record<DifficultyLevel, number> = {
+  EASY: 1000,
+  MEDIUM: 1200,
+  HARD: 1400,
+  EXPERT: 1600,
+};
+
+export const botDifficultyForRating = (rating: number): BotDifficulty => {
+  const levels = DIFFICULTY_LEVELS;
+  const last = levels.length - 1;
+  const clamped = Math.max(DIFFICULTY_RATINGS[levels[0]], Math.min(DIFFICULTY_RATINGS[levels[last]], rating));
+
+  let index = 0;
+  while (index < last - 1 && clamped > DIFFICULTY_RATINGS[levels[index + 1]]) {
+    index++;
+  }
+
+  const lower = BOT_DIFFICULTY_PRESETS[levels[index]];
+  const upper = BOT_DIFFICULTY_PRESETS[levels[index + 1]];
+  const lowerRating = DIFFICULTY_RATINGS[levels[index]];
+  const t = (clamped - lowerRating) / (DIFFICULTY_RATINGS[levels[index + 1]] - lowerRating);
+  const blend = (a: number, b: number) => a + (b - a) * t;
+
+  // Rounded so the client and the server serialize identical settings
+  return {
+    minScore: Math.round(blend(lower.minScore, upper.minScore)),
+    maxScore: Math.round(blend(lower.maxScore, upper.maxScore)),
+    adaptiveSpeed: lower.adaptiveSpeed && upper.adaptiveSpeed,
+    powerUpSeekChance: Math.round(blend(lower.powerUpSeekChance, upper.powerUpSeekChance) * 100) / 100,
+  };
+};
+
+// The preset closest to a rating; adaptive matches pay rewards at this level
+export const difficultyForRating = (rating: number): DifficultyLevel =>
+  DIFFICULTY_LEVELS.reduce((closest, level) =>
+    Math.abs(DIFFICULTY_RATINGS[level] - rating) < Math.abs(DIFFICULTY_RATINGS[closest] - rating) ? level : closest
+  );
+
+/**
+ * Settings a match ticket is played and replayed with: an adaptive bot when
+ * the ticket carries a bot rating, else the ticket's preset. Tickets without
+ * either (PvP, challenges) use GAME_SETTINGS. Matches are on the classic
+ * arena unless the ticket names another, are duels unless it names a team
+ * mode, last DEFAULT_MATCH_LENGTH seconds without overtime and move brushes
+ * straight to the pointer unless it says otherwise.
+ */
+export const settingsForMatch = (
+  { difficulty, botRating, arena, teamMode, matchLength, suddenDeath, brushPhysics }: {
+    difficulty?: DifficultyLevel | null;
+    botRating?: number | null;
+    arena?: ArenaDefinition | null;
+    teamMode?: TeamMode | null;
+    matchLength?: number | null;
+    suddenDeath?: boolean | null;
+    brushPhysics?: boolean | null;
+  }
+): GameSettings => {
+  let settings = botRating !== undefined && botRating !== null
+    ? { ...GAME_SETTINGS, botDifficulty: botDifficultyForRating(botRating) }
+    : difficulty ? settingsForDifficulty(difficulty) : GAME_SETTINGS;
+  if (arena) settings = { ...settings, arena };
+  if (teamMode && teamMode !== DEFAULT_TEAM_MODE) settings = { ...settings, teams: TEAM_MODES[teamMode] };
+  if (matchLength && matchLength !== DEFAULT_MATCH_LENGTH) settings = { ...settings, timer: matchLength };
+  if (suddenDeath) settings = { ...settings, overtime: { ...settings.overtime, enabled: true } };
+  if (brushPhysics) settings = { ...settings, brushPhysics: true };
+  return settings;
+};
+
+export interface DifficultyReward {
+  winKeys: number;       // Roulette keys for beating the bot
+  drawKeys: number;      // Roulette keys for a draw
+  tokenOdds: number;     // Multiplier on the roulette's token odds for those keys
+}
+
+// Harder bots pay more. The server decides the keys from the replayed result.
+export const DIFFICULTY_REWARDS: Record<DifficultyLevel, DifficultyReward> = {
+  EASY: { winKeys: 1, drawKeys: 0, tokenOdds: 0.5 },
+  MEDIUM: { winKeys: 1, drawKeys: 1, tokenOdds: 1 },
+  HARD: { winKeys: 2, drawKeys: 1, tokenOdds: 1.25 },
+  EXPERT: { winKeys: 3, drawKeys: 2, tokenOdds: 1.5 },
+};
+
+export const rouletteKeysForResult = (result: GameResult, level: DifficultyLevel): number => {
+  const reward = DIFFICULTY_REWARDS[level];
+  switch (result.winner) {
+    case 'player': return reward.winKeys;
+    case 'draw': return reward.drawKeys;
+    default: return 0;
+  }
+};
+
+// The prize wheel, segment by segment, at MEDIUM odds. The roulette edge
+// function rolls it at the odds of the match a key came from; the client only
+// draws it.
+export const ROULETTE_REWARDS: RouletteReward[] = [
+  { type: 'onChainToken', amount: 1000, label: '1K', probability: 0.55 },
+  { type: 'onChainToken', amount: 5000, label: '5K', probability: 0.20 },
+  { type: 'onChainToken', amount: 10000, label: '10K', probability: 0.15 },
+  { type: 'onChainToken', amount: 50000, label: '50K', probability: 0.05 },
+  { type: 'inGameCurrency', amount: 2, label: '+2 Keys', probability: 0.00 },
+  { type: 'noReward', amount: 0, label: 'Try Again', probability: 0.05 },
+];
+
+/**
+ * Roulette odds for keys earned at a difficulty. The bigger token prizes are
+ * scaled by the difficulty's tokenOdds and the smallest one makes up the
+ * difference, so the chance of winning something never changes.
+ */
+export const rouletteRewardsForDifficulty = (level: DifficultyLevel): RouletteReward[] => {
+  const { tokenOdds } = DIFFICULTY_REWARDS[level];
+  const tokenRewards = ROULETTE_REWARDS.filter(reward => reward.type === 'onChainToken');
+  const smallest = tokenRewards.reduce((min, reward) => (reward.amount < min.amount ? reward : min));
+  const tokenTotal = tokenRewards.reduce((sum, reward) => sum + reward.probability, 0);
+
+  const scaled = ROULETTE_REWARDS.map(reward =>
+    reward.type === 'onChainToken' && reward !== smallest
+      ? { ...reward, probability: reward.probability * tokenOdds }
+      : reward
+  );
+  const bigPrizes = scaled
+    .filter(reward => reward.type === 'onChainToken' && reward !== smallest)
+    .reduce((sum, reward) => sum + reward.probability, 0);
+
+  return scaled.map(reward =>
+    reward === smallest
+      ? { ...reward, probability: Math.max(0, tokenTotal - bigPrizes) }
+      : reward
+  );
+};
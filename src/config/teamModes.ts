@@ -0,0 +1,28 @@
+import { TeamDefinition, TeamMode } from '../types/game.ts';
+
+// Team line-ups. Like gameSettings.ts this file is env-free so the edge
+// functions can replay a match with the teams its ticket was issued for.
+
+// Paint colors in team order: the player's coral, the bot's blue, then the
+// extra teams of a free-for-all
+export const TEAM_PALETTE = ['#E86A5D', '#3DB4D8', '#6BBF59', '#F2B134'];
+
+const team = (id: string, name: string, paletteIndex: number, allies = 0): TeamDefinition => ({
+  id,
+  name,
+  color: TEAM_PALETTE[paletteIndex],
+  allies,
+});
+
+export const TEAM_MODES: Record<TeamMode, TeamDefinition[]> = {
+  // One brush a side
+  duel: [team('player', 'YOU', 0), team('bot', 'BOT', 1)],
+  // The player and an allied bot share a color against two bots
+  allies: [team('player', 'YOU', 0, 1), team('bot', 'BOTS', 1, 1)],
+  // Four sides, every bot for itself
+  freeForAll: [team('player', 'YOU', 0), team('bot', 'BLUE', 1), team('bot2', 'GREEN', 2), team('bot3', 'GOLD', 3)],
+};
+
+export const TEAM_MODE_IDS = Object.keys(TEAM_MODES) as TeamMode[];
+
+export const DEFAULT_TEAM_MODE: TeamMode = 'duel';
@@ -0,0 +1,568 @@
+import {
+  BotPersonality,
+  BrushEffect,
+  BrushEffects,
+  Coverage,
+  GameResult,
+  GameSettings,
+  OpponentKind,
+  PaintRenderer,
+  Point,
+  PowerUp,
+  PowerUpPickup,
+  ProtectedZone,
+  SimulationInput,
+  SimulationState,
+  Team,
+} from '../types/game.ts';
+import { createRandom, SeededRandom } from './random.ts';
+import { BotStrategy } from './bot.ts';
+import { createBotStrategy } from './botStrategies.ts';
+import { OwnershipGrid } from './OwnershipGrid.ts';
+import { createArenaGrid } from './arena.ts';
+import { brushRoster, resultFromScores } from './teams.ts';
+import {
+  attractPowerUps,
+  createPowerUp,
+  findPowerUpCollision,
+  pickupContext,
+  POWER_UPS,
+  PowerUpDefinition,
+  PowerUpMatch,
+  PowerUpPickupContext,
+  removeExpiredPowerUps,
+  shouldSpawnPowerUp,
+} from './powerUps.ts';
+
+// Engine modules import with explicit .ts extensions so the same files can be
+// loaded by the Supabase (Deno) edge functions.
+
+export const TICK_MS = 16;
+
+// The teams that can be driven by inputs, in the order their inputs apply
+const INPUT_TEAMS: Team[] = ['player', 'bot'];
+
+// A timed power-up that has been applied and not yet expired
+interface RunningPowerUp {
+  definition: PowerUpDefinition;
+  pickup: PowerUpPickupContext;
+  until: number;
+}
+
+interface PointerState {
+  isDown: boolean;
+  last: Point | null;
+  target: Point | null; // where the brush is heading, with brush physics
+}
+
+interface Brush {
+  team: Team;
+  position: Point;
+  pointer: PointerState | null;  // set on a brush driven by inputs
+  strategy: BotStrategy | null;  // set on a brush driven by the built-in bot
+}
+
+type QueuedInput = SimulationInput & { team: Team };
+
+// Inputs for the same tick apply player-first, whatever order they arrived in,
+// so two clients exchanging inputs stay in step
+const compareInputs = (a: QueuedInput, b: QueuedInput) =>
+  Math.ceil(a.time / TICK_MS) - Math.ceil(b.time / TICK_MS) ||
+  INPUT_TEAMS.indexOf(a.team) - INPUT_TEAMS.indexOf(b.team);
+
+// Of the pointer moves a team makes within one tick only the last counts,
+// where the pointer ended up: a high-rate pointer would otherwise log
+// several a tick
+const mergeMoves = (inputs: QueuedInput[]): QueuedInput[] =>
+  inputs.filter((input, index) => {
+    if (input.type !== 'pointerMove') return true;
+    const next = inputs.slice(index + 1).find(other => other.team === input.team);
+    return next?.type !== 'pointerMove';
+  });
+
+export type TickListener = (simulation: GameSimulation) => void;
+
+export interface SimulationOptions {
+  opponent?: OpponentKind;
+  botPersonality?: BotPersonality;
+}
+
+const noEffects = (): BrushEffects => ({ speedUp: false, enlarge: false, frozen: false, magnet: false });
+
+const overlaps = (zone: ProtectedZone, x: number, y: number, radius: number) =>
+  Math.hypot(zone.x - x, zone.y - y) < zone.radius + radius;
+
+/**
+ * Deterministic match engine. Given the same seed, settings and input stream
+ * it produces the same match, tick for tick - no Math.random, no wall clock and
+ * no DOM. Scores come from an in-memory OwnershipGrid; an optional renderer
+ * mirrors every paint operation for display.
+ *
+ * Every team paints with one lead brush plus its allies (see teams.ts). With a
+ * 'remote' opponent the bot team's lead is driven by inputs too, exactly like
+ * the player, instead of by the bot strategy; all other brushes but the
+ * player's are built-in bots.
+ */
+export class GameSimulation {
+  readonly seed: number;
+  readonly settings: GameSettings;
+  readonly opponent: OpponentKind;
+  readonly botPersonality: BotPersonality;
+  private random: SeededRandom;
+  private ownership: OwnershipGrid;
+  private renderer: PaintRenderer | null;
+
+  private tick = 0;
+  private elapsed = 0;
+  private overtime = false;
+  private finishedAt: number | null = null;
+  private pendingInputs: QueuedInput[] = [];
+  private inputLog: QueuedInput[] = [];
+  private pickupLog: PowerUpPickup[] = [];
+
+  private brushes: Brush[];
+  private effects: Record<Team, BrushEffects>;
+
+  private powerUps: PowerUp[] = [];
+  private runningPowerUps: RunningPowerUp[] = [];
+  private zones: ProtectedZone[] = [];
+  private powerUpMatch: PowerUpMatch;
+  private powerUpCount = 0;
+  private lastSpawn = Number.NEGATIVE_INFINITY;
+
+  private coverage: Coverage;
+  private tickListeners: TickListener[] = [];
+
+  constructor(
+    seed: number,
+    settings: GameSettings,
+    renderer: PaintRenderer | null = null,
+    { opponent = 'bot', botPersonality = 'classic' }: SimulationOptions = {}
+  ) {
+    this.seed = seed;
+    this.settings = settings;
+    this.opponent = opponent;
+    this.botPersonality = botPersonality;
+    this.ownership = createArenaGrid(settings);
+    this.renderer = renderer;
+    this.random = createRandom(seed);
+    this.brushes = brushRoster(settings, opponent).map(({ team, spawn, isBot }) => ({
+      team,
+      position: { ...spawn },
+      pointer: isBot ? null : { isDown: false, last: null, target: null },
+      strategy: isBot ? createBotStrategy(botPersonality, settings, this.random) : null,
+    }));
+    this.effects = Object.fromEntries(settings.teams.map(team => [team.id, noEffects()]));
+    this.powerUpMatch = {
+      settings,
+      random: this.random,
+      setEffect: (team: Team, effect: BrushEffect, active: boolean) => {
+        this.effects[team][effect] = active;
+      },
+      paint: (x: number, y: number, radius: number, team: Team) => this.paint(x, y, radius, team),
+      swapArea: (x: number, y: number, radius: number, a: Team, b: Team) => this.swapArea(x, y, radius, a, b),
+      addZone: (zone: ProtectedZone) => {
+        this.zones.push(zone);
+      },
+      removeZone: (id: string) => {
+        this.zones = this.zones.filter(zone => zone.id !== id);
+      },
+    };
+
+    // Pre-painted zones count from the start
+    this.coverage = this.ownership.getCoverage();
+  }
+
+  /**
+   * How long the match runs: regulation time, plus the most overtime it can
+   * still take once sudden death starts. Once finished, how long it ran.
+   */
+  get duration(): number {
+    if (this.finishedAt !== null) return this.finishedAt;
+    const regulation = this.settings.timer * 1000;
+    return this.isOvertime ? regulation + this.settings.overtime.maxLength * 1000 : regulation;
+  }
+
+  get isOvertime(): boolean {
+    return this.overtime;
+  }
+
+  get isFinished(): boolean {
+    return this.finishedAt !== null;
+  }
+
+  /**
+   * Queue an input. It is applied on the first tick that ends at or after
+   * input.time; inputs that arrive late are applied on the next tick.
+   * Coordinates are rounded to whole pixels so the logged input replays exactly.
+   */
+  addInput(input: SimulationInput) {
+    if (this.isFinished) return;
+    // Only brushes that are not built-in bots take inputs
+    const team = input.team ?? 'player';
+    if (!this.leadBrush(team)) return;
+
+    const queued: QueuedInput = {
+      ...input,
+      team,
+      x: Math.round(input.x),
+      y: Math.round(input.y),
+    };
+
+    let index = this.pendingInputs.length;
+    while (index > 0 && compareInputs(this.pendingInputs[index - 1], queued) > 0) {
+      index--;
+    }
+    this.pendingInputs.splice(index, 0, queued);
+  }
+
+  /** Advance in fixed ticks until simulated time reaches `time` (ms since start). */
+  advanceTo(time: number) {
+    while (!this.isFinished && this.elapsed + TICK_MS <= time) {
+      this.step();
+    }
+  }
+
+  /** Called after every tick, e.g. to record the match. */
+  addTickListener(listener: TickListener) {
+    this.tickListeners.push(listener);
+  }
+
+  runToEnd() {
+    // Not advanceTo(this.duration): overtime can push the end back
+    while (!this.isFinished) {
+      this.step();
+    }
+  }
+
+  step() {
+    if (this.isFinished) return;
+
+    const now = this.elapsed + TICK_MS;
+
+    this.expirePowerUps(now);
+    this.applyInputs(now);
+    if (this.settings.brushPhysics) {
+      this.moveBrushes(now);
+    }
+    this.updatePowerUps(now);
+    for (const brush of this.brushes) {
+      if (brush.strategy) this.updateBot(brush, brush.strategy, now);
+    }
+
+    this.elapsed = now;
+    this.tick++;
+    this.coverage = this.ownership.getCoverage();
+    this.checkForEnd(now);
+
+    for (const listener of this.tickListeners) {
+      listener(this);
+    }
+  }
+
+  getState(): SimulationState {
+    const now = this.elapsed;
+    return {
+      tick: this.tick,
+      elapsed: now,
+      timeLeft: Math.max(0, this.duration - now),
+      isOvertime: this.isOvertime,
+      isFinished: this.isFinished,
+      brushes: this.brushes.map(({ team, position, strategy }) => ({ team, position, isBot: strategy !== null })),
+      effects: Object.fromEntries(this.settings.teams.map(({ id }) => [id, { ...this.effects[id] }])),
+      powerUps: [...this.powerUps],
+      zones: [...this.zones],
+      scores: this.scores(),
+    };
+  }
+
+  /** The result from the player team's side. */
+  getResult(): GameResult {
+    return resultFromScores(this.getState().scores, 'player');
+  }
+
+  /** Inputs as they were actually applied, re-stamped to their tick. */
+  getInputLog(): QueuedInput[] {
+    return [...this.inputLog];
+  }
+
+  getPickupLog(): PowerUpPickup[] {
+    return [...this.pickupLog];
+  }
+
+  /** Read-only view of who owns which cell. */
+  getOwnership(): OwnershipGrid {
+    return this.ownership;
+  }
+
+  private scores(): Record<Team, number> {
+    return Object.fromEntries(this.settings.teams.map(({ id }) => [id, Math.round(this.coverage[id])]));
+  }
+
+  // Regulation time ends the match unless sudden death is on and the top two
+  // teams are tied; overtime then ends as soon as one of them pulls clear
+  private checkForEnd(now: number) {
+    const { timer, overtime } = this.settings;
+    if (now < timer * 1000) return;
+
+    const [first, second = 0] = Object.values(this.scores()).sort((a, b) => b - a);
+    const isTied = first - second <= overtime.margin;
+
+    if (!this.isOvertime && overtime.enabled && isTied) {
+      this.overtime = true;
+    } else if (!isTied || now >= this.duration) {
+      this.finishedAt = now;
+    }
+  }
+
+  private applyInputs(now: number) {
+    const due: QueuedInput[] = [];
+    while (this.pendingInputs.length > 0 && this.pendingInputs[0].time <= now) {
+      due.push(this.pendingInputs.shift()!);
+    }
+
+    for (const input of mergeMoves(due)) {
+      this.inputLog.push({ ...input, time: now });
+
+      const pointer = this.leadBrush(input.team)!.pointer!;
+
+      if (this.settings.brushPhysics) {
+        this.aimBrush(pointer, input);
+        continue;
+      }
+
+      switch (input.type) {
+        case 'pointerDown':
+          pointer.isDown = true;
+          this.paintStroke(input.team, input.x, input.y, false, now);
+          break;
+        case 'pointerMove':
+          if (pointer.isDown) {
+            this.paintStroke(input.team, input.x, input.y, true, now);
+          }
+          break;
+        case 'pointerUp':
+          pointer.isDown = false;
+          break;
+      }
+    }
+  }
+
+  // With brush physics inputs only steer; moveBrushes does the painting
+  private aimBrush(pointer: PointerState, input: QueuedInput) {
+    switch (input.type) {
+      case 'pointerDown':
+        pointer.isDown = true;
+        pointer.target = { x: input.x, y: input.y };
+        pointer.last = null;
+        break;
+      case 'pointerMove':
+        if (pointer.isDown) {
+          pointer.target = { x: input.x, y: input.y };
+        }
+        break;
+      case 'pointerUp':
+        pointer.isDown = false;
+        pointer.target = null;
+        break;
+    }
+  }
+
+  // Every pointer-driven brush takes one capped step towards its pointer,
+  // painting along the way while the pointer is down
+  private moveBrushes(now: number) {
+    for (const { team, position, pointer } of this.brushes) {
+      if (!pointer?.target) continue;
+
+      const { speedMultiplier } = this.settings.powerUpEffects;
+      const speed = this.settings.brushSpeed * (this.effects[team].speedUp ? speedMultiplier : 1);
+      const dx = pointer.target.x - position.x;
+      const dy = pointer.target.y - position.y;
+      const distance = Math.hypot(dx, dy);
+
+      // Nothing new to paint while resting on the pointer
+      if (distance === 0 && pointer.last) continue;
+
+      const step = Math.min(distance, speed);
+      const next = distance === 0 ? position : {
+        x: position.x + (dx / distance) * step,
+        y: position.y + (dy / distance) * step,
+      };
+      this.paintStroke(team, next.x, next.y, pointer.last !== null, now);
+    }
+  }
+
+  // The brush a team's inputs drive, if they drive one
+  private leadBrush(team: Team): Brush | undefined {
+    return this.brushes.find(brush => brush.team === team && brush.pointer);
+  }
+
+  private paintStroke(team: Team, x: number, y: number, smooth: boolean, now: number) {
+    const brush = this.leadBrush(team)!;
+    brush.position = { x, y };
+
+    const pointer = brush.pointer!;
+    const last = pointer.last;
+
+    // A frozen brush still follows the pointer but leaves no paint
+    if (this.effects[team].frozen) {
+      pointer.last = { x, y };
+      return;
+    }
+
+    const brushSize = this.brushSize(team);
+
+    if (smooth && last) {
+      this.paintSegment(last, { x, y }, brushSize, team);
+      if (this.effects[team].speedUp && !this.settings.brushPhysics) {
+        this.carryStroke(last, { x, y }, brushSize, team);
+      }
+    } else {
+      this.paint(x, y, brushSize / 2, team);
+    }
+
+    pointer.last = { x, y };
+    this.collectPowerUp(x, y, team, now);
+  }
+
+  // Interpolate circles along the segment so fast swipes leave no gaps
+  private paintSegment(from: Point, to: Point, brushSize: number, team: Team) {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.max(1, Math.floor(distance / (brushSize / 4)));
+
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      this.paint(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, brushSize / 2, team);
+    }
+  }
+
+  // Without brush physics a brush cannot move faster than the finger, so speedUp
+  // carries each stroke on past the pointer instead: a boosted swipe paints
+  // as far as the bot travels with the same multiplier.
+  private carryStroke(from: Point, to: Point, brushSize: number, team: Team) {
+    const { speedMultiplier, maxStrokeCarry } = this.settings.powerUpEffects;
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = Math.hypot(dx, dy);
+    const carry = Math.min(distance * (speedMultiplier - 1), maxStrokeCarry);
+    if (distance === 0 || carry <= 0) return;
+
+    const end = {
+      x: Math.max(0, Math.min(this.settings.canvasWidth, to.x + (dx / distance) * carry)),
+      y: Math.max(0, Math.min(this.settings.canvasHeight, to.y + (dy / distance) * carry)),
+    };
+    this.paintSegment(to, end, brushSize, team);
+  }
+
+  private updatePowerUps(now: number) {
+    this.powerUps = removeExpiredPowerUps(this.powerUps, now, this.settings);
+
+    if (shouldSpawnPowerUp(this.powerUps, now, this.lastSpawn, this.settings)) {
+      this.powerUps.push(createPowerUp(this.powerUpCount++, now, this.settings, this.random));
+      this.lastSpawn = now;
+    }
+
+    for (const { team, position } of this.brushes) {
+      if (!this.effects[team].magnet) continue;
+
+      this.powerUps = attractPowerUps(this.powerUps, position);
+      this.collectPowerUp(position.x, position.y, team, now);
+    }
+  }
+
+  private expirePowerUps(now: number) {
+    const expired = this.runningPowerUps.filter(running => running.until <= now);
+    if (expired.length === 0) return;
+
+    this.runningPowerUps = this.runningPowerUps.filter(running => running.until > now);
+    for (const { definition, pickup } of expired) {
+      definition.expire?.(this.powerUpMatch, pickup);
+    }
+  }
+
+  private updateBot(brush: Brush, strategy: BotStrategy, now: number) {
+    const { team } = brush;
+    // A frozen bot loses its turn
+    if (this.effects[team].frozen) return;
+
+    const move = strategy.decide({
+      now,
+      team,
+      position: brush.position,
+      effects: { ...this.effects[team] },
+      powerUps: this.powerUps,
+      board: this.ownership,
+      opponentPositions: this.brushes.filter(other => other.team !== team).map(other => other.position),
+      coverage: this.coverage,
+    }) ?? { position: brush.position, paint: false };
+
+    brush.position = move.position;
+    this.collectPowerUp(move.position.x, move.position.y, team, now);
+
+    if (move.paint) {
+      const brushSize = this.brushSize(team);
+      this.paint(move.position.x, move.position.y, brushSize / 2, team);
+    }
+  }
+
+  // The rival a power-up picked up by `team` works against: the one with the
+  // most coverage, the first in team order on a tie
+  private leadingRival(team: Team): Team {
+    let rival: Team | null = null;
+    for (const { id } of this.settings.teams) {
+      if (id !== team && (rival === null || this.coverage[id] > this.coverage[rival])) rival = id;
+    }
+    return rival ?? team;
+  }
+
+  private collectPowerUp(x: number, y: number, team: Team, now: number) {
+    const powerUp = findPowerUpCollision(this.powerUps, x, y, this.settings.brushSize);
+    if (!powerUp) return;
+
+    this.powerUps = this.powerUps.filter(p => p.id !== powerUp.id);
+    this.pickupLog.push({ time: now, team, powerUpId: powerUp.id });
+
+    // Every team's pickups take the same path through the registry
+    const definition = POWER_UPS[powerUp.type];
+    const pickup = pickupContext(powerUp, team, this.leadingRival(team), now);
+
+    if (definition.duration > 0) {
+      const running = this.runningPowerUps.find(r => r.definition === definition && r.pickup.team === team);
+      if (running) {
+        this.runningPowerUps = this.runningPowerUps.filter(r => r !== running);
+        definition.expire?.(this.powerUpMatch, running.pickup);
+      }
+      this.runningPowerUps.push({ definition, pickup, until: now + definition.duration });
+    }
+
+    definition.apply(this.powerUpMatch, pickup);
+  }
+
+  // Protected zones keep their owner's color; they are drawn again on top of
+  // anything painted over them so the canvas matches the ownership grid
+  private paint(x: number, y: number, radius: number, team: Team) {
+    const blocking = this.zones.filter(zone => zone.team !== team && overlaps(zone, x, y, radius));
+    this.ownership.paintCircle(x, y, radius, team, blocking);
+    this.renderer?.paintCircle(x, y, radius, team);
+    this.redrawZones(blocking);
+  }
+
+  private swapArea(x: number, y: number, radius: number, a: Team, b: Team) {
+    const blocking = this.zones.filter(zone => overlaps(zone, x, y, radius));
+    this.ownership.swapArea(x, y, radius, [a, b], blocking);
+    this.renderer?.swapArea?.(x, y, radius, [a, b]);
+    this.redrawZones(blocking);
+  }
+
+  private redrawZones(zones: ProtectedZone[]) {
+    for (const zone of zones) {
+      this.renderer?.paintCircle(zone.x, zone.y, zone.radius, zone.team);
+    }
+  }
+
+  private brushSize(team: Team): number {
+    return this.effects[team].enlarge
+      ? this.settings.brushSize * this.settings.powerUpEffects.enlargeMultiplier
+      : this.settings.brushSize;
+  }
+}
@@ -0,0 +1,149 @@
+import { Coverage, PaintSurface, Team, TeamDefinition } from '../types/game.ts';
+
+// Cells nobody owns; the teams' codes follow from 1 in team order
+export const OWNER_NONE = 0;
+
+interface Circle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+const isInside = (circles: Circle[], x: number, y: number) =>
+  circles.some(circle => (x - circle.x) ** 2 + (y - circle.y) ** 2 <= circle.radius * circle.radius);
+
+/**
+ * Ownership buffer the simulation scores from. The board is split into square
+ * cells; brush and splat operations write owners straight into the buffer and
+ * keep per-team counters, so reading coverage is O(1) and never depends on how
+ * the canvas happens to render.
+ *
+ * Each cell has a weight, what it counts for in coverage. Cells of weight 0
+ * (an arena's walls and holes) can never be owned.
+ */
+export class OwnershipGrid implements PaintSurface {
+  readonly cellSize: number;
+  readonly cols: number;
+  readonly rows: number;
+  readonly cells: Uint8Array;
+  readonly weights: Uint8Array;
+  readonly totalWeight: number;
+  readonly teams: Team[];
+  private counts: number[];
+
+  /** `weightAt` is asked for the weight at each cell's center; 1 everywhere by default. */
+  constructor(
+    width: number,
+    height: number,
+    cellSize: number,
+    teams: TeamDefinition[],
+    weightAt?: (x: number, y: number) => number
+  ) {
+    this.cellSize = cellSize;
+    this.teams = teams.map(team => team.id);
+    this.counts = new Array(teams.length + 1).fill(0);
+    this.cols = Math.ceil(width / cellSize);
+    this.rows = Math.ceil(height / cellSize);
+    this.cells = new Uint8Array(this.cols * this.rows);
+    this.weights = new Uint8Array(this.cells.length).fill(1);
+
+    if (weightAt) {
+      for (let row = 0; row < this.rows; row++) {
+        for (let col = 0; col < this.cols; col++) {
+          this.weights[row * this.cols + col] = weightAt((col + 0.5) * cellSize, (row + 0.5) * cellSize);
+        }
+      }
+    }
+
+    this.totalWeight = this.weights.reduce((sum, weight) => sum + weight, 0);
+    this.counts[OWNER_NONE] = this.totalWeight;
+  }
+
+  get totalCells(): number {
+    return this.cells.length;
+  }
+
+  /**
+   * Claim every cell whose center lies inside the circle, except cells inside
+   * any of the `exclude` circles.
+   */
+  paintCircle(x: number, y: number, radius: number, team: Team, exclude: Circle[] = []) {
+    const code = this.ownerCode(team);
+    this.forEachCell(x, y, radius, exclude, index => this.setOwner(index, code));
+  }
+
+  /** Claim every cell whose center passes `contains`, e.g. an arena's pre-painted zones. */
+  paintWhere(team: Team, contains: (x: number, y: number) => boolean) {
+    const code = this.ownerCode(team);
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (contains((col + 0.5) * this.cellSize, (row + 0.5) * this.cellSize)) {
+          this.setOwner(row * this.cols + col, code);
+        }
+      }
+    }
+  }
+
+  /** Hand team `a`'s cells inside the circle to team `b`, and `b`'s to `a`. */
+  swapArea(x: number, y: number, radius: number, [a, b]: [Team, Team], exclude: Circle[] = []) {
+    const codeA = this.ownerCode(a);
+    const codeB = this.ownerCode(b);
+    this.forEachCell(x, y, radius, exclude, index => {
+      const owner = this.cells[index];
+      if (owner === codeA) this.setOwner(index, codeB);
+      else if (owner === codeB) this.setOwner(index, codeA);
+    });
+  }
+
+  getCoverage(): Coverage {
+    return Object.fromEntries(
+      this.teams.map((team, index) => [team, (this.counts[index + 1] / this.totalWeight) * 100])
+    );
+  }
+
+  /** The code a team's cells hold. */
+  ownerCode(team: Team): number {
+    const index = this.teams.indexOf(team);
+    if (index < 0) throw new Error(`Unknown team ${team}`);
+    return index + 1;
+  }
+
+  /** Owner code of the cell under a canvas point (OWNER_NONE off the board). */
+  ownerAt(x: number, y: number): number {
+    const col = Math.floor(x / this.cellSize);
+    const row = Math.floor(y / this.cellSize);
+    if (col < 0 || row < 0 || col >= this.cols || row >= this.rows) return OWNER_NONE;
+    return this.cells[row * this.cols + col];
+  }
+
+  private forEachCell(x: number, y: number, radius: number, exclude: Circle[], visit: (index: number) => void) {
+    const size = this.cellSize;
+    const minCol = Math.max(0, Math.floor((x - radius) / size));
+    const maxCol = Math.min(this.cols - 1, Math.floor((x + radius) / size));
+    const minRow = Math.max(0, Math.floor((y - radius) / size));
+    const maxRow = Math.min(this.rows - 1, Math.floor((y + radius) / size));
+    const radiusSquared = radius * radius;
+
+    for (let row = minRow; row <= maxRow; row++) {
+      const cy = (row + 0.5) * size;
+      const dy = cy - y;
+      for (let col = minCol; col <= maxCol; col++) {
+        const cx = (col + 0.5) * size;
+        const dx = cx - x;
+        if (dx * dx + dy * dy > radiusSquared) continue;
+        if (exclude.length > 0 && isInside(exclude, cx, cy)) continue;
+        visit(row * this.cols + col);
+      }
+    }
+  }
+
+  private setOwner(index: number, code: number) {
+    const previous = this.cells[index];
+    const weight = this.weights[index];
+    if (previous === code || weight === 0) return;
+
+    this.cells[index] = code;
+    this.counts[previous] -= weight;
+    this.counts[code] += weight;
+  }
+}
@@ -0,0 +1,156 @@
+import { ArenaDefinition, ArenaShape, GameSettings, Point, PrePaintedZone, Team } from '../types/game.ts';
+import { OwnershipGrid } from './OwnershipGrid.ts';
+
+// Coverage weight of a cell: walls and holes are worth nothing and cannot be
+// painted, bonus zones count double
+export const BLOCKED_WEIGHT = 0;
+export const NORMAL_WEIGHT = 1;
+export const BONUS_WEIGHT = 2;
+
+export const shapeContains = (shape: ArenaShape, x: number, y: number): boolean =>
+  shape.kind === 'rect'
+    ? x >= shape.x && x < shape.x + shape.width && y >= shape.y && y < shape.y + shape.height
+    : (x - shape.x) ** 2 + (y - shape.y) ** 2 <= shape.radius * shape.radius;
+
+/** Walls and holes, the parts of an arena no brush can paint. */
+export const blockedShapes = (arena: ArenaDefinition): ArenaShape[] => [...arena.walls, ...arena.holes];
+
+export const isPaintable = (arena: ArenaDefinition, x: number, y: number): boolean =>
+  !blockedShapes(arena).some(shape => shapeContains(shape, x, y));
+
+/** The ownership grid a match on this arena starts from. */
+export const createArenaGrid = ({ canvasWidth, canvasHeight, ownershipCellSize, arena, teams }: GameSettings): OwnershipGrid => {
+  const blocked = blockedShapes(arena);
+  const weightAt = (x: number, y: number) => {
+    if (blocked.some(shape => shapeContains(shape, x, y))) return BLOCKED_WEIGHT;
+    if (arena.bonusZones.some(shape => shapeContains(shape, x, y))) return BONUS_WEIGHT;
+    return NORMAL_WEIGHT;
+  };
+
+  const grid = new OwnershipGrid(canvasWidth, canvasHeight, ownershipCellSize, teams, weightAt);
+  // Zones for a team that sits this match out stay blank
+  for (const { team, shape } of arena.prePainted.filter(zone => grid.teams.includes(zone.team))) {
+    grid.paintWhere(team, (x, y) => shapeContains(shape, x, y));
+  }
+  return grid;
+};
+
+// Limits for arenas built in the editor
+const MAX_SHAPES = 40;
+const MIN_SHAPE_SIZE = 10;
+const MAX_NAME_LENGTH = 24;
+const MAX_DESCRIPTION_LENGTH = 80;
+// Share of the board's cells that must be left open to paint
+export const MIN_PAINTABLE_SHARE = 0.25;
+const TEAMS: Team[] = ['player', 'bot'];
+
+type Bounds = Pick<GameSettings, 'canvasWidth' | 'canvasHeight' | 'ownershipCellSize'>;
+
+/**
+ * Share of the board's ownership cells, 0..1, a brush can paint: sampled at
+ * cell centers, as the grid a match plays on is.
+ */
+export const paintableShare = (arena: ArenaDefinition, { canvasWidth, canvasHeight, ownershipCellSize }: Bounds): number => {
+  const cols = Math.ceil(canvasWidth / ownershipCellSize);
+  const rows = Math.ceil(canvasHeight / ownershipCellSize);
+  let open = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (isPaintable(arena, (col + 0.5) * ownershipCellSize, (row + 0.5) * ownershipCellSize)) open++;
+    }
+  }
+  return open / (cols * rows);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown, min: number, max: number): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? Math.round(value) : null;
+
+const readText = (value: unknown, maxLength: number): string | null =>
+  typeof value === 'string' && value.trim().length <= maxLength ? value.trim() : null;
+
+const parsePoint = (value: unknown, { canvasWidth, canvasHeight }: Bounds): Point | null => {
+  if (!isRecord(value)) return null;
+  const x = readNumber(value.x, 0, canvasWidth);
+  const y = readNumber(value.y, 0, canvasHeight);
+  return x === null || y === null ? null : { x, y };
+};
+
+const parseShape = (value: unknown, bounds: Bounds): ArenaShape | null => {
+  if (!isRecord(value)) return null;
+  const { canvasWidth, canvasHeight } = bounds;
+
+  if (value.kind === 'rect') {
+    const x = readNumber(value.x, 0, canvasWidth - MIN_SHAPE_SIZE);
+    const y = readNumber(value.y, 0, canvasHeight - MIN_SHAPE_SIZE);
+    if (x === null || y === null) return null;
+    const width = readNumber(value.width, MIN_SHAPE_SIZE, canvasWidth - x);
+    const height = readNumber(value.height, MIN_SHAPE_SIZE, canvasHeight - y);
+    return width === null || height === null ? null : { kind: 'rect', x, y, width, height };
+  }
+
+  if (value.kind === 'circle') {
+    const center = parsePoint(value, bounds);
+    const radius = readNumber(value.radius, MIN_SHAPE_SIZE, Math.max(canvasWidth, canvasHeight) / 2);
+    return center === null || radius === null ? null : { kind: 'circle', ...center, radius };
+  }
+
+  return null;
+};
+
+const parseList = <T>(value: unknown, parse: (item: unknown) => T | null): T[] | null => {
+  if (!Array.isArray(value) || value.length > MAX_SHAPES) return null;
+  const items = value.map(parse);
+  return items.every(item => item !== null) ? items as T[] : null;
+};
+
+const parsePrePainted = (value: unknown, bounds: Bounds): PrePaintedZone | null => {
+  if (!isRecord(value) || !TEAMS.includes(value.team as Team)) return null;
+  const shape = parseShape(value.shape, bounds);
+  return shape && { team: value.team as Team, shape };
+};
+
+/**
+ * Check an arena from outside the code (the editor, the database) and return
+ * it in canonical form: rounded numbers and a fixed key order, so the client
+ * and the server serialize the same settings for it. Null if it is not a
+ * playable arena on a board of `bounds`.
+ */
+export const parseArena = (value: unknown, bounds: Bounds): ArenaDefinition | null => {
+  if (!isRecord(value) || !isRecord(value.spawns)) return null;
+
+  const id = readText(value.id, 64);
+  const name = readText(value.name, MAX_NAME_LENGTH);
+  const description = readText(value.description ?? '', MAX_DESCRIPTION_LENGTH);
+  const walls = parseList(value.walls, item => parseShape(item, bounds));
+  const holes = parseList(value.holes, item => parseShape(item, bounds));
+  const bonusZones = parseList(value.bonusZones, item => parseShape(item, bounds));
+  const prePainted = parseList(value.prePainted ?? [], item => parsePrePainted(item, bounds));
+  const player = parsePoint(value.spawns.player, bounds);
+  const bot = parsePoint(value.spawns.bot, bounds);
+
+  if (!id || !name || description === null || !walls || !holes || !bonusZones || !prePainted || !player || !bot) {
+    return null;
+  }
+
+  const arena: ArenaDefinition = {
+    id,
+    name,
+    description,
+    walls,
+    holes,
+    bonusZones,
+    prePainted,
+    spawns: { player, bot },
+  };
+
+  // Nobody may start stuck on a wall, and there must be enough floor for
+  // coverage to mean something: an arena of all walls has none to score
+  return isPaintable(arena, player.x, player.y) &&
+    isPaintable(arena, bot.x, bot.y) &&
+    paintableShare(arena, bounds) >= MIN_PAINTABLE_SHARE
+    ? arena
+    : null;
+};
@@ -0,0 +1,254 @@
+import { BrushEffects, Coverage, GameSettings, Point, PowerUp, Team } from '../types/game.ts';
+import { OwnershipGrid } from './OwnershipGrid.ts';
+import { CoveragePlanner, PlannerWeights } from './botPlanner.ts';
+import { SeededRandom } from './random.ts';
+
+type BehaviorMode = 'exploring' | 'targeting' | 'aggressive' | 'defensive';
+type MovementPattern = 'straight' | 'zigzag' | 'circular' | 'random';
+
+const BEHAVIOR_MODES: BehaviorMode[] = ['exploring', 'targeting', 'aggressive', 'defensive'];
+const MOVEMENT_PATTERNS: MovementPattern[] = ['straight', 'zigzag', 'circular', 'random'];
+
+// Points either side of the target score the bot treats as on target
+const SCORE_BAND = 10;
+
+// What each mode goes after: blank canvas when exploring, the opponents'
+// paint when aggressive, uncontested canvas when defensive
+const MODE_WEIGHTS: Record<Exclude<BehaviorMode, 'targeting'>, PlannerWeights> = {
+  exploring: { none: 1, opponent: 0.5 },
+  aggressive: { none: 0.3, opponent: 1 },
+  defensive: { none: 1, opponent: 0.1 },
+};
+
+// Everything a bot may look at on a tick. The board is the simulation's own
+// ownership grid and must be treated as read-only.
+export interface BotObservation {
+  now: number;
+  team: Team;               // the team the bot paints for
+  position: Point;
+  effects: BrushEffects;
+  powerUps: PowerUp[];
+  board: OwnershipGrid;
+  opponentPositions: Point[]; // brushes of every other team
+  coverage: Coverage;
+}
+
+export interface BotMove {
+  position: Point;
+  paint: boolean;
+}
+
+/**
+ * A bot personality. It only decides where to go and whether to paint;
+ * collisions and painting are applied by the simulation so the player and the
+ * bot share one code path. Returning null passes the decision on to the next
+ * strategy when several are composed.
+ */
+export interface BotStrategy {
+  decide(observation: BotObservation): BotMove | null;
+}
+
+/**
+ * Movement shared by every personality: speed with human-like imperfection,
+ * and an effort level that rises while the bot is behind the score it is
+ * aiming for and eases off while it is ahead.
+ */
+export class BotMotor {
+  readonly targetScore: number;
+  private settings: GameSettings;
+  private random: SeededRandom;
+  private performanceAdjustment = 1.0;
+  private isAheadOfTarget = false;
+
+  constructor(settings: GameSettings, random: SeededRandom) {
+    this.settings = settings;
+    this.random = random;
+    this.targetScore = random.range(settings.botDifficulty.minScore, settings.botDifficulty.maxScore);
+  }
+
+  get effort(): number {
+    return this.performanceAdjustment;
+  }
+
+  updateEffort(teamPercentage: number) {
+    const scoreDifference = teamPercentage - this.targetScore;
+    this.isAheadOfTarget = scoreDifference > SCORE_BAND;
+
+    if (!this.settings.botDifficulty.adaptiveSpeed) return;
+
+    if (scoreDifference < -SCORE_BAND) {
+      // Bot is significantly behind target, increase effort
+      this.performanceAdjustment = Math.min(1.5, this.performanceAdjustment + 0.02);
+    } else if (scoreDifference > SCORE_BAND) {
+      // Bot is significantly ahead of target, reduce effort
+      this.performanceAdjustment = Math.max(0.5, this.performanceAdjustment - 0.02);
+    } else {
+      // Bot is near target, gradually return to normal
+      this.performanceAdjustment = this.performanceAdjustment * 0.99 + 0.01;
+    }
+  }
+
+  /** One tick of movement towards `target`, or null once it is within reach. */
+  stepTowards(position: Point, target: Point, effects: BrushEffects): Point | null {
+    const { settings, random } = this;
+    const dx = target.x - position.x;
+    const dy = target.y - position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance <= 8) return null;
+
+    let baseSpeed = settings.botSpeed * this.performanceAdjustment;
+    if (effects.speedUp) {
+      baseSpeed *= settings.powerUpEffects.speedMultiplier;
+    }
+
+    // 70% to 130% of base speed, plus slight movement imperfection
+    const actualSpeed = baseSpeed * random.range(0.7, 1.3);
+    const moveX = (dx / distance) * actualSpeed + (random.next() - 0.5) * 2;
+    const moveY = (dy / distance) * actualSpeed + (random.next() - 0.5) * 2;
+
+    return {
+      x: Math.max(0, Math.min(settings.canvasWidth, position.x + moveX)),
+      y: Math.max(0, Math.min(settings.canvasHeight, position.y + moveY)),
+    };
+  }
+
+  // Adjust painting frequency based on performance. Well past its target the
+  // bot only moves, so a smart planner cannot run away with an easy match.
+  shouldPaint(): boolean {
+    const roll = this.random.next();
+    return !this.isAheadOfTarget && roll < 0.95 * this.performanceAdjustment;
+  }
+}
+
+// The original bot: a behavior machine that switches modes every few seconds.
+// Each mode picks its targets from the board through the coverage planner.
+export class ClassicStrategy implements BotStrategy {
+  private settings: GameSettings;
+  private random: SeededRandom;
+  private motor: BotMotor;
+  private planner: CoveragePlanner;
+  private target: Point | null = null;
+  private lastDirectionChange = Number.NEGATIVE_INFINITY;
+  private behaviorMode: BehaviorMode = 'exploring';
+  private lastBehaviorChange = Number.NEGATIVE_INFINITY;
+  private movementPattern: MovementPattern = 'straight';
+  private circularAngle = 0;
+  private zigzagPhase = 0;
+
+  constructor(settings: GameSettings, random: SeededRandom) {
+    this.settings = settings;
+    this.random = random;
+    this.motor = new BotMotor(settings, random);
+    this.planner = new CoveragePlanner(settings, random);
+  }
+
+  decide(observation: BotObservation): BotMove {
+    const { now, team, position, effects, powerUps, coverage } = observation;
+    const { settings, random, motor } = this;
+
+    motor.updateEffort(coverage[team]);
+
+    // Change behavior mode every 2-4 seconds for more human-like unpredictability
+    if (now - this.lastBehaviorChange > 2000 + random.next() * 2000) {
+      this.behaviorMode = random.pick(BEHAVIOR_MODES);
+      this.movementPattern = random.pick(MOVEMENT_PATTERNS);
+      this.lastBehaviorChange = now;
+    }
+
+    // Find nearest uncollected power-up
+    const shouldSeekPowerUps = random.next() < settings.botDifficulty.powerUpSeekChance;
+    const nearestPowerUp = shouldSeekPowerUps ? findNearestPowerUp(position, powerUps) : null;
+
+    this.chooseTarget(observation, nearestPowerUp);
+    const finalTarget = this.applyMovementPattern();
+
+    // Move towards target with human-like imperfection
+    let nextPosition = position;
+    if (finalTarget) {
+      const step = motor.stepTowards(position, finalTarget, effects);
+
+      if (step) {
+        nextPosition = step;
+      } else if (random.next() > 0.7) {
+        // Reached target - 30% chance to pause briefly before picking a new one
+        this.target = null;
+      }
+    }
+
+    return { position: nextPosition, paint: motor.shouldPaint() };
+  }
+
+  private chooseTarget({ now, team, position, board, opponentPositions }: BotObservation, nearestPowerUp: PowerUp | null) {
+    const { random } = this;
+    const sinceLastChange = now - this.lastDirectionChange;
+    const speed = this.settings.botSpeed * this.motor.effort;
+    let changed = false;
+
+    if (this.behaviorMode === 'targeting' && nearestPowerUp) {
+      this.target = { x: nearestPowerUp.x, y: nearestPowerUp.y };
+    } else if (this.behaviorMode === 'aggressive') {
+      if (!this.target || sinceLastChange > 800 + random.next() * 400) {
+        // Go after the opponents' paint, or one of their brushes if it is worth more
+        this.target = this.planner.plan(team, position, board, speed, MODE_WEIGHTS.aggressive, opponentPositions);
+        changed = true;
+      }
+    } else if (this.behaviorMode === 'defensive') {
+      // Claim canvas the opponent is not fighting over
+      if (!this.target || sinceLastChange > 1200 + random.next() * 800) {
+        this.target = this.planner.plan(team, position, board, speed, MODE_WEIGHTS.defensive);
+        changed = true;
+      }
+    } else if (!this.target || sinceLastChange > 600 + random.next() * 600) {
+      // Exploring (or targeting with nothing to target)
+      this.target = this.planner.plan(team, position, board, speed, MODE_WEIGHTS.exploring);
+      changed = true;
+    }
+
+    if (changed) {
+      this.lastDirectionChange = now;
+    }
+  }
+
+  private applyMovementPattern(): Point | null {
+    const target = this.target;
+    if (!target) return null;
+
+    switch (this.movementPattern) {
+      case 'zigzag':
+        this.zigzagPhase += 0.1;
+        return { x: target.x + Math.sin(this.zigzagPhase) * 30, y: target.y };
+      case 'circular': {
+        this.circularAngle += 0.05;
+        const radius = 40;
+        return {
+          x: target.x + Math.cos(this.circularAngle) * radius,
+          y: target.y + Math.sin(this.circularAngle) * radius,
+        };
+      }
+      case 'random':
+        return {
+          x: target.x + (this.random.next() - 0.5) * 40,
+          y: target.y + (this.random.next() - 0.5) * 40,
+        };
+      default:
+        return target;
+    }
+  }
+}
+
+export const findNearestPowerUp = (from: Point, powerUps: PowerUp[]): PowerUp | null => {
+  let nearest: PowerUp | null = null;
+  let nearestDistance = Infinity;
+
+  for (const powerUp of powerUps) {
+    if (powerUp.collected) continue;
+    const distance = Math.hypot(powerUp.x - from.x, powerUp.y - from.y);
+    if (distance < nearestDistance) {
+      nearest = powerUp;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+};
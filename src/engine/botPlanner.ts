@@ -0,0 +1,141 @@
+import { BotDifficulty, GameSettings, Point, Team } from '../types/game.ts';
+import { OWNER_NONE, OwnershipGrid } from './OwnershipGrid.ts';
+import { SeededRandom } from './random.ts';
+
+// Value of one cell to the planner, by its current owner: nobody, or any
+// team but the bot's own. Cells the bot's team already owns are worth nothing.
+export interface PlannerWeights {
+  none: number;
+  opponent: number;
+}
+
+// Ticks spent painting a region once the brush gets there
+const DWELL_TICKS = 15;
+// How far from a region's center the brush aims, so targets look less robotic
+const AIM_JITTER = 0.3;
+const MIN_SAMPLES = 4;
+
+/**
+ * How much of the board the bot reads when it plans: 0.2 for the easiest
+ * difficulty up to 1 (every region) for the hardest. Weaker bots miss good
+ * spots instead of just moving slower.
+ */
+export const plannerInsight = ({ minScore, maxScore }: BotDifficulty): number =>
+  Math.max(0.2, Math.min(1, (minScore + maxScore) / 200));
+
+/**
+ * Picks where the bot should paint next. The board is split into brush-sized
+ * regions; each plan totals what every region is worth from the ownership
+ * grid, then goes for the best coverage gained per second of travel and
+ * painting among a sample of them.
+ */
+export class CoveragePlanner {
+  private settings: GameSettings;
+  private random: SeededRandom;
+  private insight: number;
+  private regionSize: number;
+  private regionCols: number;
+  private regionRows: number;
+  private regionOfCell: Uint16Array | null = null;
+  private regionValues: Float64Array;
+
+  constructor(settings: GameSettings, random: SeededRandom, insight = plannerInsight(settings.botDifficulty)) {
+    this.settings = settings;
+    this.random = random;
+    this.insight = insight;
+    this.regionSize = settings.brushSize;
+    this.regionCols = Math.ceil(settings.canvasWidth / this.regionSize);
+    this.regionRows = Math.ceil(settings.canvasHeight / this.regionSize);
+    this.regionValues = new Float64Array(this.regionCols * this.regionRows);
+  }
+
+  /**
+   * Best target from `position` for a brush of `team` moving `speed` px per
+   * tick. Extra candidates (e.g. the opponents' brushes) compete with the
+   * regions.
+   */
+  plan(
+    team: Team,
+    position: Point,
+    board: OwnershipGrid,
+    speed: number,
+    weights: PlannerWeights,
+    extra: Point[] = []
+  ): Point {
+    this.measure(board, board.ownerCode(team), weights);
+
+    const { random, regionSize, regionCols, regionValues } = this;
+    const samples = Math.max(MIN_SAMPLES, Math.round(regionValues.length * this.insight));
+    const sampleAll = samples >= regionValues.length;
+
+    let best: Point | null = null;
+    let bestRate = Number.NEGATIVE_INFINITY;
+
+    // Ticks are fixed length, so value per tick ranks the same as per second
+    const consider = (target: Point, value: number) => {
+      const travelTicks = Math.hypot(target.x - position.x, target.y - position.y) / Math.max(speed, 1);
+      const rate = value / (travelTicks + DWELL_TICKS);
+      if (rate > bestRate) {
+        best = target;
+        bestRate = rate;
+      }
+    };
+
+    for (let i = 0; i < samples && i < regionValues.length; i++) {
+      const region = sampleAll ? i : random.int(regionValues.length);
+      const center = {
+        x: ((region % regionCols) + 0.5) * regionSize,
+        y: (Math.floor(region / regionCols) + 0.5) * regionSize,
+      };
+      consider(center, regionValues[region]);
+    }
+
+    for (const point of extra) {
+      consider(point, this.valueAt(point));
+    }
+
+    const target: Point = best ?? position;
+    const jitter = regionSize * AIM_JITTER;
+
+    return {
+      x: Math.max(0, Math.min(this.settings.canvasWidth, target.x + (random.next() - 0.5) * jitter)),
+      y: Math.max(0, Math.min(this.settings.canvasHeight, target.y + (random.next() - 0.5) * jitter)),
+    };
+  }
+
+  // Total every region's worth in one pass over the grid
+  private measure(board: OwnershipGrid, ownCode: number, weights: PlannerWeights) {
+    const regionOfCell = this.regionOfCell ?? this.mapCells(board);
+    const values = this.regionValues;
+    const { cells, weights: cellWeights } = board;
+
+    // Bonus cells are worth more; walls and holes are worth nothing
+    values.fill(0);
+    for (let i = 0; i < cells.length; i++) {
+      const owner = cells[i];
+      if (owner === OWNER_NONE) values[regionOfCell[i]] += weights.none * cellWeights[i];
+      else if (owner !== ownCode) values[regionOfCell[i]] += weights.opponent * cellWeights[i];
+    }
+  }
+
+  private valueAt(point: Point): number {
+    const col = Math.min(this.regionCols - 1, Math.max(0, Math.floor(point.x / this.regionSize)));
+    const row = Math.min(this.regionRows - 1, Math.max(0, Math.floor(point.y / this.regionSize)));
+    return this.regionValues[row * this.regionCols + col];
+  }
+
+  private mapCells(board: OwnershipGrid): Uint16Array {
+    const map = new Uint16Array(board.cols * board.rows);
+
+    for (let row = 0; row < board.rows; row++) {
+      const regionRow = Math.min(this.regionRows - 1, Math.floor(((row + 0.5) * board.cellSize) / this.regionSize));
+      for (let col = 0; col < board.cols; col++) {
+        const regionCol = Math.min(this.regionCols - 1, Math.floor(((col + 0.5) * board.cellSize) / this.regionSize));
+        map[row * board.cols + col] = regionRow * this.regionCols + regionCol;
+      }
+    }
+
+    this.regionOfCell = map;
+    return map;
+  }
+}
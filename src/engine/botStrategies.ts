@@ -0,0 +1,121 @@
+import { BotPersonality, GameSettings, Point } from '../types/game.ts';
+import { BotMotor, BotMove, BotObservation, BotStrategy, ClassicStrategy, findNearestPowerUp } from './bot.ts';
+import { CoveragePlanner, PlannerWeights } from './botPlanner.ts';
+import { SeededRandom } from './random.ts';
+
+export const BOT_PERSONALITIES: BotPersonality[] = ['classic', 'floodFiller', 'stealer', 'powerUpHunter'];
+
+// How often a scanning bot re-reads the board
+const RETARGET_MS = 400;
+
+interface ScanOptions {
+  weights: PlannerWeights;
+  // Also consider the spots the opponents' brushes are at
+  followOpponent: boolean;
+}
+
+/**
+ * Re-plans from the ownership grid every few hundred milliseconds. The
+ * weights decide the personality: a flood filler values blank canvas, a
+ * stealer values the opponent's paint.
+ */
+class ScanningStrategy implements BotStrategy {
+  private settings: GameSettings;
+  private motor: BotMotor;
+  private planner: CoveragePlanner;
+  private options: ScanOptions;
+  private target: Point | null = null;
+  private lastScan = Number.NEGATIVE_INFINITY;
+
+  constructor(settings: GameSettings, random: SeededRandom, options: ScanOptions) {
+    this.settings = settings;
+    this.motor = new BotMotor(settings, random);
+    this.planner = new CoveragePlanner(settings, random);
+    this.options = options;
+  }
+
+  decide(observation: BotObservation): BotMove {
+    const { now, team, position, effects, coverage } = observation;
+    this.motor.updateEffort(coverage[team]);
+
+    if (!this.target || now - this.lastScan > RETARGET_MS) {
+      const extra = this.options.followOpponent ? observation.opponentPositions : [];
+      const speed = this.settings.botSpeed * this.motor.effort;
+      this.target = this.planner.plan(team, position, observation.board, speed, this.options.weights, extra);
+      this.lastScan = now;
+    }
+
+    const step = this.motor.stepTowards(position, this.target, effects);
+    if (!step) {
+      this.target = null;
+    }
+
+    return { position: step ?? position, paint: this.motor.shouldPaint() };
+  }
+}
+
+/** Goes straight for the nearest power-up, and has no opinion when there is none. */
+export class PowerUpHunterStrategy implements BotStrategy {
+  private motor: BotMotor;
+
+  constructor(settings: GameSettings, random: SeededRandom) {
+    this.motor = new BotMotor(settings, random);
+  }
+
+  decide({ team, position, effects, powerUps, coverage }: BotObservation): BotMove | null {
+    const powerUp = findNearestPowerUp(position, powerUps);
+    if (!powerUp) return null;
+
+    this.motor.updateEffort(coverage[team]);
+    const step = this.motor.stepTowards(position, powerUp, effects);
+
+    return { position: step ?? powerUp, paint: this.motor.shouldPaint() };
+  }
+}
+
+/** Grows outwards over blank canvas, ignoring the opponent. */
+export const createFloodFiller = (settings: GameSettings, random: SeededRandom): BotStrategy =>
+  new ScanningStrategy(settings, random, {
+    weights: { none: 1, opponent: 0.4 },
+    followOpponent: false,
+  });
+
+/** Hunts for the opponent's paint and follows their brush to paint over it. */
+export const createStealer = (settings: GameSettings, random: SeededRandom): BotStrategy =>
+  new ScanningStrategy(settings, random, {
+    weights: { none: 0.2, opponent: 1 },
+    followOpponent: true,
+  });
+
+/** The first strategy with an opinion decides the move. */
+export const composeStrategies = (...strategies: BotStrategy[]): BotStrategy => ({
+  decide: (observation) => {
+    for (const strategy of strategies) {
+      const move = strategy.decide(observation);
+      if (move) return move;
+    }
+    return null;
+  },
+});
+
+export const createBotStrategy = (
+  personality: BotPersonality,
+  settings: GameSettings,
+  random: SeededRandom
+): BotStrategy => {
+  switch (personality) {
+    case 'classic':
+      return new ClassicStrategy(settings, random);
+    case 'floodFiller':
+      return createFloodFiller(settings, random);
+    case 'stealer':
+      return createStealer(settings, random);
+    case 'powerUpHunter':
+      return composeStrategies(
+        new PowerUpHunterStrategy(settings, random),
+        createFloodFiller(settings, random)
+      );
+    default:
+      throw new Error(`Unknown bot personality ${personality}`);
+  }
+};
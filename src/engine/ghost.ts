@@ -0,0 +1,51 @@
+import { MatchLog, OpponentKind, SimulationInput, Team } from '../types/game.ts';
+import { GameSimulation } from './GameSimulation.ts';
+import { MatchDriver } from './matchDriver.ts';
+import { decodeInputs, encodeInputs } from './matchLog.ts';
+
+/**
+ * The strokes a player made in a logged match, moved onto the bot team so
+ * they can be replayed as someone else's opponent. Encoded like
+ * MatchLog.inputs.
+ */
+export const ghostInputsFromLog = (log: Pick<MatchLog, 'inputs'>): number[] =>
+  encodeInputs(
+    decodeInputs(log.inputs)
+      .filter(input => input.team === 'player')
+      .map(input => ({ ...input, team: 'bot' as const }))
+  );
+
+/** The bot-team inputs of a logged match, for comparing against a ghost. */
+export const opponentInputsFromLog = (log: Pick<MatchLog, 'inputs'>): number[] =>
+  encodeInputs(decodeInputs(log.inputs).filter(input => input.team === 'bot'));
+
+/**
+ * Plays against a recorded run: the ghost's strokes are queued up front on
+ * the bot team and land on exactly the ticks they were made.
+ */
+export class GhostMatchDriver implements MatchDriver {
+  readonly localTeam: Team = 'player';
+  readonly opponent: OpponentKind = 'remote';
+  private ghostInputs: number[];
+  private simulation: GameSimulation | null = null;
+
+  constructor(ghostInputs: number[]) {
+    this.ghostInputs = ghostInputs;
+  }
+
+  attach(simulation: GameSimulation) {
+    this.simulation = simulation;
+    for (const input of decodeInputs(this.ghostInputs)) {
+      simulation.addInput({ ...input, team: 'bot' });
+    }
+  }
+
+  queueInput(input: SimulationInput) {
+    this.simulation?.addInput({ ...input, team: this.localTeam });
+  }
+
+  advance(time: number): boolean {
+    this.simulation?.advanceTo(time);
+    return true;
+  }
+}
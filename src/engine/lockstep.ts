@@ -0,0 +1,169 @@
+import { SimulationInput, SimulationInputType, Team } from '../types/game.ts';
+import { GameSimulation, TICK_MS } from './GameSimulation.ts';
+import { MatchDriver } from './matchDriver.ts';
+
+// Local inputs are scheduled this many ticks ahead so they reach the other
+// client before it needs them (~96ms of latency is hidden entirely)
+export const INPUT_DELAY_TICKS = 6;
+// Batches go out every few ticks rather than every tick to keep the message
+// rate well under realtime channel limits
+const SEND_INTERVAL_TICKS = 3;
+// Running this far behind the clock counts as waiting on the opponent
+const LAG_TOLERANCE_MS = 250;
+
+const INPUT_TYPES: SimulationInputType[] = ['pointerDown', 'pointerMove', 'pointerUp'];
+const INPUT_BATCH_STRIDE = 4;
+
+/**
+ * Inputs one client has committed to. `through` promises that no further
+ * inputs will be scheduled at or before that tick; `inputs` is
+ * [tick, input type, x, y] per input. `seq` orders batches, since a
+ * transport may deliver them out of order.
+ */
+export interface LockstepBatch {
+  seq: number;
+  through: number;
+  inputs: number[];
+}
+
+/**
+ * Delay-based lockstep for two players sharing one deterministic simulation.
+ * Both clients run the full match; each only steps a tick once it holds every
+ * input for it, so they can never diverge. When the opponent's inputs are
+ * late the match pauses instead of guessing.
+ */
+export class LockstepDriver implements MatchDriver {
+  readonly localTeam: Team;
+  readonly remoteTeam: Team;
+  readonly opponent = 'remote' as const;
+  private send: (batch: LockstepBatch) => void;
+  private simulation: GameSimulation | null = null;
+
+  private remoteThrough = 0;
+  private nextRemoteSeq = 0;
+  private earlyBatches = new Map<number, LockstepBatch>();
+  private nextSeq = 0;
+  private lastScheduledTick = 0;
+  private sentThrough = -1;
+  private outgoing: number[] = [];
+
+  constructor(localTeam: Team, send: (batch: LockstepBatch) => void) {
+    this.localTeam = localTeam;
+    this.remoteTeam = localTeam === 'player' ? 'bot' : 'player';
+    this.send = send;
+  }
+
+  attach(simulation: GameSimulation) {
+    this.simulation = simulation;
+    this.drain();
+    this.flush(true);
+  }
+
+  queueInput(input: SimulationInput) {
+    const simulation = this.simulation;
+    if (!simulation || simulation.isFinished) return;
+
+    const currentTick = simulation.getState().tick;
+    const delayed = Math.max(Math.ceil(input.time / TICK_MS), currentTick + 1) + INPUT_DELAY_TICKS;
+    // Never schedule before an earlier input, or a pointerUp could overtake its moves
+    const tick = Math.max(delayed, this.lastScheduledTick);
+    const x = Math.round(input.x);
+    const y = Math.round(input.y);
+
+    this.lastScheduledTick = tick;
+    simulation.addInput({ time: tick * TICK_MS, type: input.type, x, y, team: this.localTeam });
+    this.outgoing.push(tick, INPUT_TYPES.indexOf(input.type), x, y);
+  }
+
+  /** Accepts batches in any order, and before the simulation is attached. */
+  receive(batch: LockstepBatch) {
+    if (batch.seq < this.nextRemoteSeq) return;
+    this.earlyBatches.set(batch.seq, batch);
+    this.drain();
+  }
+
+  advance(time: number): boolean {
+    const simulation = this.simulation;
+    if (!simulation) return false;
+
+    simulation.advanceTo(Math.min(time, this.remoteThrough * TICK_MS));
+    this.flush();
+
+    const { elapsed } = simulation.getState();
+    return simulation.isFinished || time - elapsed < LAG_TOLERANCE_MS;
+  }
+
+  private drain() {
+    if (!this.simulation) return;
+
+    let next = this.earlyBatches.get(this.nextRemoteSeq);
+    while (next) {
+      this.earlyBatches.delete(this.nextRemoteSeq);
+      this.applyBatch(next);
+      this.nextRemoteSeq++;
+      next = this.earlyBatches.get(this.nextRemoteSeq);
+    }
+  }
+
+  private applyBatch(batch: LockstepBatch) {
+    const simulation = this.simulation!;
+
+    for (let i = 0; i + 3 < batch.inputs.length; i += INPUT_BATCH_STRIDE) {
+      const type = INPUT_TYPES[batch.inputs[i + 1]];
+      if (!type) continue;
+      simulation.addInput({
+        time: batch.inputs[i] * TICK_MS,
+        type,
+        x: batch.inputs[i + 2],
+        y: batch.inputs[i + 3],
+        team: this.remoteTeam,
+      });
+    }
+
+    this.remoteThrough = Math.max(this.remoteThrough, batch.through);
+  }
+
+  private flush(force = false) {
+    const simulation = this.simulation;
+    if (!simulation) return;
+
+    const through = simulation.getState().tick + INPUT_DELAY_TICKS;
+    if (!force && through - this.sentThrough < SEND_INTERVAL_TICKS) return;
+
+    this.send({ seq: this.nextSeq++, through, inputs: this.outgoing });
+    this.outgoing = [];
+    this.sentThrough = through;
+  }
+}
+
+/**
+ * The transport end of a lockstep match, handed to the screen that plays it.
+ * The driver itself runs with the simulation, off the main thread; batches
+ * pass through here both ways. Every batch received is kept, so a simulation
+ * that connects late - or again - still gets the whole match.
+ */
+export class LockstepLink {
+  readonly localTeam: Team;
+  readonly send: (batch: LockstepBatch) => void;
+  private received: LockstepBatch[] = [];
+  private listener: ((batch: LockstepBatch) => void) | null = null;
+
+  constructor(localTeam: Team, send: (batch: LockstepBatch) => void) {
+    this.localTeam = localTeam;
+    this.send = send;
+  }
+
+  receive(batch: LockstepBatch) {
+    this.received.push(batch);
+    this.listener?.(batch);
+  }
+
+  /** Pass on every batch so far and each one after. Returns a disconnect function. */
+  connect(listener: (batch: LockstepBatch) => void): () => void {
+    this.listener = listener;
+    this.received.forEach(listener);
+    return () => {
+      if (this.listener === listener) this.listener = null;
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { OpponentKind, SimulationInput, Team } from '../types/game.ts';
+import { GameSimulation } from './GameSimulation.ts';
+
+/**
+ * Connects a simulation to whoever is playing it. Its host forwards local
+ * pointer inputs and wall-clock time; the driver decides which team they
+ * belong to, feeds the opponent's inputs, and how far the match may advance.
+ */
+export interface MatchDriver {
+  readonly localTeam: Team;
+  readonly opponent: OpponentKind;
+  attach(simulation: GameSimulation): void;
+  queueInput(input: SimulationInput): void;
+  /** Advance towards `time`. Returns false while waiting on the opponent. */
+  advance(time: number): boolean;
+}
+
+/** Single player against the built-in bot. */
+export class BotMatchDriver implements MatchDriver {
+  readonly localTeam: Team = 'player';
+  readonly opponent: OpponentKind = 'bot';
+  private simulation: GameSimulation | null = null;
+
+  attach(simulation: GameSimulation) {
+    this.simulation = simulation;
+  }
+
+  queueInput(input: SimulationInput) {
+    this.simulation?.addInput({ ...input, team: this.localTeam });
+  }
+
+  advance(time: number): boolean {
+    this.simulation?.advanceTo(time);
+    return true;
+  }
+}
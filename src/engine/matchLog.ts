@@ -0,0 +1,151 @@
+import {
+  GameResult,
+  GameSettings,
+  MatchLog,
+  PowerUpPickup,
+  SimulationInput,
+  SimulationInputType,
+  Team,
+} from '../types/game.ts';
+import { GameSimulation, TICK_MS } from './GameSimulation.ts';
+import { resultFromScores } from './teams.ts';
+
+// Bump whenever a change to the engine alters how a logged match replays
+export const MATCH_LOG_VERSION = 8;
+
+const INPUT_TYPES: SimulationInputType[] = ['pointerDown', 'pointerMove', 'pointerUp'];
+// Only these teams' lead brushes take inputs
+const INPUT_TEAMS: Team[] = ['player', 'bot'];
+
+export const INPUT_STRIDE = 5;
+const PICKUP_STRIDE = 3;
+// A team's inputs on one tick: at most a press, its last move and a release
+const MAX_INPUTS_PER_TICK = 3;
+
+/** The most inputs a match on `settings` can log, overtime included. */
+export const maxLoggedInputs = ({ timer, overtime }: GameSettings): number => {
+  const length = (timer + (overtime.enabled ? overtime.maxLength : 0)) * 1000;
+  return Math.ceil(length / TICK_MS) * INPUT_TEAMS.length * MAX_INPUTS_PER_TICK;
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+/**
+ * Whether a log from outside has the input and pickup arrays a replay can
+ * read: finite numbers in whole records, inputs of known types and teams,
+ * and no more inputs than a match on `settings` could log.
+ */
+export const isWellFormedLog = (log: unknown, settings: GameSettings): log is Pick<MatchLog, 'inputs' | 'pickups'> => {
+  if (typeof log !== 'object' || log === null) return false;
+  const { inputs, pickups } = log as Record<string, unknown>;
+  if (!isNumberArray(inputs) || !isNumberArray(pickups)) return false;
+  if (inputs.length % INPUT_STRIDE !== 0 || pickups.length % PICKUP_STRIDE !== 0) return false;
+  if (inputs.length > maxLoggedInputs(settings) * INPUT_STRIDE) return false;
+
+  for (let i = 0; i < inputs.length; i += INPUT_STRIDE) {
+    if (!INPUT_TYPES[inputs[i + 1]] || !INPUT_TEAMS[inputs[i + 4]]) return false;
+  }
+  return true;
+};
+
+// Inputs are logged at tick boundaries, so times are stored as tick deltas
+export const encodeInputs = (inputs: SimulationInput[]): number[] => {
+  const encoded: number[] = [];
+  let lastTick = 0;
+
+  for (const input of inputs) {
+    const tick = Math.round(input.time / TICK_MS);
+    encoded.push(
+      tick - lastTick,
+      INPUT_TYPES.indexOf(input.type),
+      input.x,
+      input.y,
+      INPUT_TEAMS.indexOf(input.team ?? 'player')
+    );
+    lastTick = tick;
+  }
+
+  return encoded;
+};
+
+export const decodeInputs = (encoded: number[]): SimulationInput[] => {
+  const inputs: SimulationInput[] = [];
+  let tick = 0;
+
+  for (let i = 0; i + 4 < encoded.length; i += INPUT_STRIDE) {
+    tick += encoded[i];
+    const type = INPUT_TYPES[encoded[i + 1]];
+    const team = INPUT_TEAMS[encoded[i + 4]];
+    if (!type) throw new Error(`Unknown input type ${encoded[i + 1]}`);
+    if (!team) throw new Error(`Unknown team ${encoded[i + 4]}`);
+    inputs.push({ time: tick * TICK_MS, type, x: encoded[i + 2], y: encoded[i + 3], team });
+  }
+
+  return inputs;
+};
+
+/** One team's inputs out of an encoded input log, encoded the same way. */
+export const inputsForTeam = (encoded: number[], team: Team): number[] =>
+  encodeInputs(decodeInputs(encoded).filter(input => input.team === team));
+
+// Power-up ids are `powerup-<n>`; only the index goes over the wire. Teams
+// go by their index in the match's team list.
+export const encodePickups = (pickups: PowerUpPickup[], teams: Team[]): number[] =>
+  pickups.flatMap(pickup => [
+    Math.round(pickup.time / TICK_MS),
+    teams.indexOf(pickup.team),
+    Number(pickup.powerUpId.replace('powerup-', '')),
+  ]);
+
+export const createMatchLog = (simulation: GameSimulation): MatchLog => ({
+  version: MATCH_LOG_VERSION,
+  seed: simulation.seed,
+  settings: simulation.settings,
+  opponent: simulation.opponent,
+  botPersonality: simulation.botPersonality,
+  inputs: encodeInputs(simulation.getInputLog()),
+  pickups: encodePickups(simulation.getPickupLog(), simulation.settings.teams.map(team => team.id)),
+  result: simulation.getResult(),
+});
+
+export interface ReplayOutcome {
+  result: GameResult;
+  pickups: number[];
+  powerUpsCollected: Record<Team, number>;
+  duration: number; // ms, overtime included
+}
+
+/** The same result seen from `team`'s side: "player" is always that team. */
+export const resultForTeam = (result: GameResult, team: Team): GameResult => {
+  if (team === 'player') return result;
+
+  return resultFromScores(result.scores ?? { player: result.playerScore, bot: result.botScore }, team);
+};
+
+/** Re-run a logged match from scratch, without rendering. */
+export const replayMatch = (
+  log: Pick<MatchLog, 'seed' | 'inputs' | 'opponent' | 'botPersonality'>,
+  settings: GameSettings
+): ReplayOutcome => {
+  const simulation = new GameSimulation(log.seed, settings, null, {
+    opponent: log.opponent,
+    botPersonality: log.botPersonality,
+  });
+  for (const input of decodeInputs(log.inputs)) {
+    simulation.addInput(input);
+  }
+  simulation.runToEnd();
+
+  const pickups = simulation.getPickupLog();
+  const teams = settings.teams.map(team => team.id);
+
+  return {
+    result: simulation.getResult(),
+    pickups: encodePickups(pickups, teams),
+    powerUpsCollected: Object.fromEntries(
+      teams.map(team => [team, pickups.filter(pickup => pickup.team === team).length])
+    ),
+    duration: simulation.duration,
+  };
+};
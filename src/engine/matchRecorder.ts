@@ -0,0 +1,224 @@
+import {
+  GameResult,
+  GameSettings,
+  MatchRecording,
+  PaintRenderer,
+  Point,
+  PowerUp,
+  Team,
+} from '../types/game.ts';
+import { GameSimulation, TICK_MS } from './GameSimulation.ts';
+import { POWER_UP_TYPES } from './powerUps.ts';
+
+export const MATCH_RECORDING_VERSION = 4;
+
+export const PAINT_STRIDE = 6;
+export const POWER_UP_EVENT_STRIDE = 6;
+
+// Paint operations store this in place of a team to swap colors with for a
+// plain paint
+const NO_SWAP = -1;
+
+// A pickup is stored as PICKUP plus the index of the team that made it
+export const POWER_UP_EVENT = {
+  spawn: 0,
+  expire: 1,
+  pickup: 2,
+} as const;
+
+const brushCount = ({ teams }: GameSettings) => teams.reduce((count, team) => count + 1 + team.allies, 0);
+
+/** Numbers per frame: the time, x and y of every brush, every team's score. */
+export const frameStride = (settings: GameSettings) => 1 + brushCount(settings) * 2 + settings.teams.length;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Records a running simulation into a MatchRecording. Create it with the
+ * match's settings, attach it with `recorder.attach(simulation)` and pass
+ * `recorder.wrap(renderer)` as the simulation's renderer so paint operations
+ * are captured too.
+ */
+export class MatchRecorder {
+  private frames: number[] = [];
+  private paints: number[] = [];
+  private powerUpEvents: number[] = [];
+  private activePowerUps = new Map<string, PowerUp>();
+  private pickupsSeen = 0;
+  private paintTime = TICK_MS;
+  private teams: Team[];
+
+  constructor(settings: GameSettings) {
+    this.teams = settings.teams.map(team => team.id);
+  }
+
+  wrap(renderer: PaintRenderer | null): PaintRenderer {
+    const { teams } = this;
+    return {
+      paintCircle: (x, y, radius, team) => {
+        this.paints.push(this.paintTime, teams.indexOf(team), round1(x), round1(y), round1(radius), NO_SWAP);
+        renderer?.paintCircle(x, y, radius, team);
+      },
+      swapArea: (x, y, radius, [a, b]) => {
+        this.paints.push(this.paintTime, teams.indexOf(a), round1(x), round1(y), round1(radius), teams.indexOf(b));
+        renderer?.swapArea?.(x, y, radius, [a, b]);
+      },
+    };
+  }
+
+  attach(simulation: GameSimulation) {
+    this.capture(simulation);
+    simulation.addTickListener(sim => this.capture(sim));
+  }
+
+  finish(simulation: GameSimulation, id: string, result: GameResult = simulation.getResult()): MatchRecording {
+    return {
+      version: MATCH_RECORDING_VERSION,
+      id,
+      recordedAt: Date.now(),
+      settings: simulation.settings,
+      seed: simulation.seed,
+      duration: simulation.duration,
+      result,
+      frames: this.frames,
+      paints: this.paints,
+      powerUpEvents: this.powerUpEvents,
+    };
+  }
+
+  private capture(simulation: GameSimulation) {
+    const state = simulation.getState();
+    const time = state.elapsed;
+
+    this.frames.push(
+      time,
+      ...state.brushes.flatMap(({ position }) => [Math.round(position.x), Math.round(position.y)]),
+      ...this.teams.map(team => state.scores[team])
+    );
+
+    const pickups = simulation.getPickupLog().slice(this.pickupsSeen);
+    this.pickupsSeen += pickups.length;
+
+    for (const pickup of pickups) {
+      const powerUp = this.activePowerUps.get(pickup.powerUpId);
+      if (!powerUp) continue;
+      this.pushPowerUpEvent(time, POWER_UP_EVENT.pickup + this.teams.indexOf(pickup.team), powerUp);
+      this.activePowerUps.delete(pickup.powerUpId);
+    }
+
+    const current = new Set(state.powerUps.map(p => p.id));
+    for (const [id, powerUp] of this.activePowerUps) {
+      if (!current.has(id)) {
+        this.pushPowerUpEvent(time, POWER_UP_EVENT.expire, powerUp);
+        this.activePowerUps.delete(id);
+      }
+    }
+
+    for (const powerUp of state.powerUps) {
+      if (!this.activePowerUps.has(powerUp.id)) {
+        this.activePowerUps.set(powerUp.id, powerUp);
+        this.pushPowerUpEvent(time, POWER_UP_EVENT.spawn, powerUp);
+      }
+    }
+
+    this.paintTime = time + TICK_MS;
+  }
+
+  private pushPowerUpEvent(time: number, event: number, powerUp: PowerUp) {
+    this.powerUpEvents.push(
+      time,
+      event,
+      Number(powerUp.id.replace('powerup-', '')),
+      POWER_UP_TYPES.indexOf(powerUp.type),
+      Math.round(powerUp.x),
+      Math.round(powerUp.y)
+    );
+  }
+}
+
+export interface RecordedFrame {
+  time: number;
+  brushes: { team: Team; position: Point }[]; // in the simulation's brush order
+  scores: Record<Team, number>;
+}
+
+/** Latest frame at or before `time`. */
+export const getFrameAt = (recording: MatchRecording, time: number): RecordedFrame => {
+  const { frames, settings } = recording;
+  const stride = frameStride(settings);
+  let low = 0;
+  let high = frames.length / stride - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid * stride] <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const i = low * stride;
+  const brushTeams = settings.teams.flatMap(team => Array<Team>(1 + team.allies).fill(team.id));
+  const scoresAt = i + 1 + brushTeams.length * 2;
+
+  return {
+    time: frames[i],
+    brushes: brushTeams.map((team, brush) => ({
+      team,
+      position: { x: frames[i + 1 + brush * 2], y: frames[i + 2 + brush * 2] },
+    })),
+    scores: Object.fromEntries(settings.teams.map((team, index) => [team.id, frames[scoresAt + index]])),
+  };
+};
+
+/** Power-ups on the board at `time`. */
+export const getPowerUpsAt = (recording: MatchRecording, time: number): PowerUp[] => {
+  const active = new Map<number, PowerUp>();
+  const events = recording.powerUpEvents;
+
+  for (let i = 0; i < events.length && events[i] <= time; i += POWER_UP_EVENT_STRIDE) {
+    const index = events[i + 2];
+    if (events[i + 1] === POWER_UP_EVENT.spawn) {
+      active.set(index, {
+        id: `powerup-${index}`,
+        type: POWER_UP_TYPES[events[i + 3]],
+        x: events[i + 4],
+        y: events[i + 5],
+        collected: false,
+        spawnTime: events[i],
+      });
+    } else {
+      active.delete(index);
+    }
+  }
+
+  return [...active.values()];
+};
+
+/**
+ * Draws recorded paint operations from `fromIndex` up to `time` and returns
+ * the index to resume from on the next call.
+ */
+export const replayPaints = (
+  recording: MatchRecording,
+  fromIndex: number,
+  time: number,
+  renderer: PaintRenderer
+): number => {
+  const { paints } = recording;
+  const teams = recording.settings.teams.map(team => team.id);
+  let i = fromIndex;
+
+  while (i < paints.length && paints[i] <= time) {
+    const team = teams[paints[i + 1]];
+    if (paints[i + 5] === NO_SWAP) {
+      renderer.paintCircle(paints[i + 2], paints[i + 3], paints[i + 4], team);
+    } else {
+      renderer.swapArea?.(paints[i + 2], paints[i + 3], paints[i + 4], [team, teams[paints[i + 5]]]);
+    }
+    i += PAINT_STRIDE;
+  }
+
+  return i;
+};
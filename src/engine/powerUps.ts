@@ -0,0 +1,263 @@
+import { BrushEffect, GameSettings, Point, PowerUp, PowerUpType, ProtectedZone, Team } from '../types/game.ts';
+import { SeededRandom } from './random.ts';
+import { isPaintable } from './arena.ts';
+
+const MAX_ACTIVE_POWER_UPS = 2;
+const COLLISION_PADDING = 20;
+// Rerolls for a spawn point off the arena's walls and holes
+const MAX_SPAWN_TRIES = 10;
+
+const SPLAT_RADIUS = 60;
+const INK_LINE_RADIUS = 12;
+const SHIELD_RADIUS = 70;
+const SWAP_RADIUS = 90;
+const MAGNET_RANGE = 220;
+const MAGNET_PULL = 5; // px per tick
+
+// Names of the icons the UI draws for each power-up; see components/PowerUpIcon
+export type PowerUpIconName = 'zap' | 'bomb' | 'maximize' | 'snowflake' | 'pen-line' | 'shield' | 'swap' | 'magnet';
+
+/** What a power-up may do to the match it was picked up in. */
+export interface PowerUpMatch {
+  readonly settings: GameSettings;
+  readonly random: SeededRandom;
+  setEffect(team: Team, effect: BrushEffect, active: boolean): void;
+  paint(x: number, y: number, radius: number, team: Team): void;
+  swapArea(x: number, y: number, radius: number, a: Team, b: Team): void;
+  addZone(zone: ProtectedZone): void;
+  removeZone(id: string): void;
+}
+
+export interface PowerUpPickupContext {
+  powerUp: PowerUp;
+  team: Team;      // who picked it up
+  opponent: Team;  // the rival it works against: the leading one when there are several
+  now: number;
+}
+
+/**
+ * One kind of power-up. Instant ones only `apply`; timed ones `apply` when
+ * picked up and `expire` `duration` ms later. A team picking up a timed
+ * power-up it already has running expires the old one first, so effects
+ * never stack.
+ */
+export interface PowerUpDefinition {
+  type: PowerUpType;
+  label: string;
+  description: string;
+  icon: PowerUpIconName;
+  color: string;
+  spawnWeight: number;
+  duration: number; // ms; 0 for instant power-ups
+  effect?: BrushEffect; // the brush effect it sets while running, if any
+  apply(match: PowerUpMatch, pickup: PowerUpPickupContext): void;
+  expire?(match: PowerUpMatch, pickup: PowerUpPickupContext): void;
+}
+
+// A timed effect on the picker (or on their opponent)
+const timedEffect = (effect: BrushEffect, target: 'self' | 'opponent') => ({
+  effect,
+  apply: (match: PowerUpMatch, { team, opponent }: PowerUpPickupContext) =>
+    match.setEffect(target === 'self' ? team : opponent, effect, true),
+  expire: (match: PowerUpMatch, { team, opponent }: PowerUpPickupContext) =>
+    match.setEffect(target === 'self' ? team : opponent, effect, false),
+});
+
+const paintSplat = (match: PowerUpMatch, { powerUp: { x, y }, team }: PowerUpPickupContext) => {
+  match.paint(x, y, SPLAT_RADIUS, team);
+
+  // Irregular blobs around the edge
+  for (let i = 0; i < 12; i++) {
+    const angle = (i / 8) * Math.PI * 2;
+    const splatX = x + Math.cos(angle) * (SPLAT_RADIUS + match.random.next() * 30);
+    const splatY = y + Math.sin(angle) * (SPLAT_RADIUS + match.random.next() * 30);
+    match.paint(splatX, splatY, 8 + match.random.next() * 15, team);
+  }
+};
+
+// A stroke right across the board through the power-up, across or down at random
+const inkLine = (match: PowerUpMatch, { powerUp: { x, y }, team }: PowerUpPickupContext) => {
+  const { canvasWidth, canvasHeight } = match.settings;
+  const horizontal = match.random.next() < 0.5;
+  const length = horizontal ? canvasWidth : canvasHeight;
+  const spacing = INK_LINE_RADIUS / 2;
+
+  for (let along = 0; along <= length; along += spacing) {
+    match.paint(horizontal ? along : x, horizontal ? y : along, INK_LINE_RADIUS, team);
+  }
+};
+
+// In registry order, which is also how recordings index power-up types, so
+// new types go at the end
+export const POWER_UP_DEFINITIONS: PowerUpDefinition[] = [
+  {
+    type: 'speedUp',
+    label: 'Speed Boost',
+    description: 'Move faster for 3 seconds',
+    icon: 'zap',
+    color: '#FFD700',
+    spawnWeight: 3,
+    duration: 3000,
+    ...timedEffect('speedUp', 'self'),
+  },
+  {
+    type: 'paintSplat',
+    label: 'Paint Splat',
+    description: 'Instantly paint a large area',
+    icon: 'bomb',
+    color: '#FF4444',
+    spawnWeight: 3,
+    duration: 0,
+    apply: paintSplat,
+  },
+  {
+    type: 'enlarge',
+    label: 'Enlarge Brush',
+    description: 'Bigger brush for 3 seconds',
+    icon: 'maximize',
+    color: '#8B5CF6',
+    spawnWeight: 3,
+    duration: 3000,
+    ...timedEffect('enlarge', 'self'),
+  },
+  {
+    type: 'freeze',
+    label: 'Freeze',
+    description: 'Your opponent cannot paint for 1.5 seconds',
+    icon: 'snowflake',
+    color: '#60A5FA',
+    spawnWeight: 1,
+    duration: 1500,
+    ...timedEffect('frozen', 'opponent'),
+  },
+  {
+    type: 'inkBomb',
+    label: 'Ink Bomb',
+    description: 'Paints a line right across the canvas',
+    icon: 'pen-line',
+    color: '#333333',
+    spawnWeight: 2,
+    duration: 0,
+    apply: inkLine,
+  },
+  {
+    type: 'shield',
+    label: 'Shield',
+    description: 'Claims an area your opponent cannot paint for 4 seconds',
+    icon: 'shield',
+    color: '#10B981',
+    spawnWeight: 1,
+    duration: 4000,
+    apply: (match, { powerUp: { id, x, y }, team }) => {
+      match.paint(x, y, SHIELD_RADIUS, team);
+      match.addZone({ id, team, x, y, radius: SHIELD_RADIUS });
+    },
+    expire: (match, { powerUp }) => match.removeZone(powerUp.id),
+  },
+  {
+    type: 'colorSwap',
+    label: 'Color Swap',
+    description: 'Trades colors with your opponent in an area',
+    icon: 'swap',
+    color: '#EC4899',
+    spawnWeight: 1,
+    duration: 0,
+    apply: (match, { powerUp: { x, y }, team, opponent }) => match.swapArea(x, y, SWAP_RADIUS, team, opponent),
+  },
+  {
+    type: 'magnet',
+    label: 'Magnet',
+    description: 'Pulls power-ups towards you for 4 seconds',
+    icon: 'magnet',
+    color: '#F97316',
+    spawnWeight: 1,
+    duration: 4000,
+    ...timedEffect('magnet', 'self'),
+  },
+];
+
+export const POWER_UPS = Object.fromEntries(
+  POWER_UP_DEFINITIONS.map(definition => [definition.type, definition])
+) as Record<PowerUpType, PowerUpDefinition>;
+
+export const POWER_UP_TYPES: PowerUpType[] = POWER_UP_DEFINITIONS.map(definition => definition.type);
+
+const TOTAL_SPAWN_WEIGHT = POWER_UP_DEFINITIONS.reduce((sum, definition) => sum + definition.spawnWeight, 0);
+
+const pickPowerUpType = (random: SeededRandom): PowerUpType => {
+  let roll = random.next() * TOTAL_SPAWN_WEIGHT;
+  for (const definition of POWER_UP_DEFINITIONS) {
+    roll -= definition.spawnWeight;
+    if (roll < 0) return definition.type;
+  }
+  return POWER_UP_DEFINITIONS[POWER_UP_DEFINITIONS.length - 1].type;
+};
+
+export const pickupContext = (powerUp: PowerUp, team: Team, opponent: Team, now: number): PowerUpPickupContext => ({
+  powerUp,
+  team,
+  opponent,
+  now,
+});
+
+export const shouldSpawnPowerUp = (
+  powerUps: PowerUp[],
+  now: number,
+  lastSpawn: number,
+  settings: GameSettings
+): boolean => {
+  if (now - lastSpawn <= settings.powerUpSpawnInterval) return false;
+  return powerUps.filter(p => !p.collected).length < MAX_ACTIVE_POWER_UPS;
+};
+
+export const createPowerUp = (
+  id: number,
+  now: number,
+  settings: GameSettings,
+  random: SeededRandom
+): PowerUp => {
+  const type = pickPowerUpType(random);
+
+  let x = 0;
+  let y = 0;
+  for (let tries = 0; tries < MAX_SPAWN_TRIES; tries++) {
+    x = random.next() * (settings.canvasWidth - 50) + 25;
+    y = random.next() * (settings.canvasHeight - 50) + 25;
+    if (isPaintable(settings.arena, x, y)) break;
+  }
+
+  return {
+    id: `powerup-${id}`,
+    type,
+    x,
+    y,
+    collected: false,
+    spawnTime: now,
+  };
+};
+
+export const removeExpiredPowerUps = (powerUps: PowerUp[], now: number, settings: GameSettings): PowerUp[] =>
+  powerUps.filter(p => !p.collected && now - p.spawnTime < settings.powerUpDuration);
+
+export const findPowerUpCollision = (
+  powerUps: PowerUp[],
+  x: number,
+  y: number,
+  brushSize: number
+): PowerUp | undefined =>
+  powerUps.find(p => !p.collected && Math.hypot(p.x - x, p.y - y) < brushSize + COLLISION_PADDING);
+
+/** Power-ups within magnet range of `to` drift one tick's pull towards it. */
+export const attractPowerUps = (powerUps: PowerUp[], to: Point): PowerUp[] =>
+  powerUps.map(powerUp => {
+    const dx = to.x - powerUp.x;
+    const dy = to.y - powerUp.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > MAGNET_RANGE || distance <= MAGNET_PULL) return powerUp;
+
+    return {
+      ...powerUp,
+      x: powerUp.x + (dx / distance) * MAGNET_PULL,
+      y: powerUp.y + (dy / distance) * MAGNET_PULL,
+    };
+  });
@@ -0,0 +1,32 @@
+// Seeded pseudo-random generator (mulberry32). Every random decision inside
+// the simulation goes through one of these so a match can be replayed from
+// its seed alone.
+
+export interface SeededRandom {
+  next: () => number;
+  range: (min: number, max: number) => number;
+  int: (maxExclusive: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+}
+
+export const createRandom = (seed: number): SeededRandom => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+};
+
+// Seeds are generated outside the simulation, so Math.random is fine here
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
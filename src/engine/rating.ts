@@ -0,0 +1,41 @@
+import { GameResult, SkillRating } from '../types/game.ts';
+
+// Glicko-1 skill rating. A rating comes with a deviation: how unsure we still
+// are about it. New players start unsure, so their first matches move the
+// rating a lot; the deviation shrinks with every rated match.
+
+export const INITIAL_RATING: SkillRating = { rating: 1000, deviation: 350 };
+
+// Never become completely certain, so a player who improves can still climb
+const MIN_DEVIATION = 60;
+const MAX_DEVIATION = 350;
+
+const Q = Math.LN10 / 400;
+
+const g = (deviation: number) => 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+
+const expectedScore = (player: SkillRating, opponent: SkillRating) =>
+  1 / (1 + Math.pow(10, (-g(opponent.deviation) * (player.rating - opponent.rating)) / 400));
+
+/** 1 for a win, 0.5 for a draw, 0 for a loss, from the player's side. */
+export const scoreForResult = ({ winner }: GameResult): number =>
+  winner === 'player' ? 1 : winner === 'draw' ? 0.5 : 0;
+
+/**
+ * The player's rating after one match against `opponent`. Ratings are stored
+ * as whole numbers.
+ */
+export const updateRating = (player: SkillRating, opponent: SkillRating, score: number): SkillRating => {
+  const impact = g(opponent.deviation);
+  const expected = expectedScore(player, opponent);
+  const dSquared = 1 / (Q * Q * impact * impact * expected * (1 - expected));
+  const precision = 1 / (player.deviation * player.deviation) + 1 / dSquared;
+
+  const rating = player.rating + (Q / precision) * impact * (score - expected);
+  const deviation = Math.sqrt(1 / precision);
+
+  return {
+    rating: Math.round(rating),
+    deviation: Math.round(Math.max(MIN_DEVIATION, Math.min(MAX_DEVIATION, deviation))),
+  };
+};
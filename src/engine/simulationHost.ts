@@ -0,0 +1,203 @@
+import {
+  BotPersonality,
+  GameResult,
+  GameSettings,
+  MatchLog,
+  MatchRecording,
+  OpponentKind,
+  PaintRenderer,
+  SimulationInput,
+  SimulationState,
+  Team,
+} from '../types/game.ts';
+import { GameSimulation } from './GameSimulation.ts';
+import { GhostMatchDriver } from './ghost.ts';
+import { LockstepBatch, LockstepDriver } from './lockstep.ts';
+import { BotMatchDriver, MatchDriver } from './matchDriver.ts';
+import { createMatchLog, resultForTeam } from './matchLog.ts';
+import { MatchRecorder } from './matchRecorder.ts';
+
+/** Who plays the match, in a form that can be posted to a worker. */
+export type DriverSetup =
+  | { kind: 'bot' }
+  | { kind: 'ghost'; ghostInputs: number[] }
+  | { kind: 'lockstep'; localTeam: Team };
+
+export interface SimulationSetup {
+  matchId: string;
+  seed: number;
+  settings: GameSettings;
+  driver: DriverSetup;
+  botPersonality?: BotPersonality;
+}
+
+/** Which team the local player controls, and what they play against. */
+export const describeDriver = (driver: DriverSetup): { localTeam: Team; opponent: OpponentKind } => {
+  switch (driver.kind) {
+    case 'bot':
+      return { localTeam: 'player', opponent: 'bot' };
+    case 'ghost':
+      return { localTeam: 'player', opponent: 'remote' };
+    case 'lockstep':
+      return { localTeam: driver.localTeam, opponent: 'remote' };
+  }
+};
+
+const createDriver = (driver: DriverSetup, send: (batch: LockstepBatch) => void): MatchDriver => {
+  switch (driver.kind) {
+    case 'bot':
+      return new BotMatchDriver();
+    case 'ghost':
+      return new GhostMatchDriver(driver.ghostInputs);
+    case 'lockstep':
+      return new LockstepDriver(driver.localTeam, send);
+  }
+};
+
+/** A paint operation for the screen's renderer; `swapWith` makes it a color swap. */
+export interface PaintCall {
+  x: number;
+  y: number;
+  radius: number;
+  team: Team;
+  swapWith?: Team;
+}
+
+/** How the match ended, from the local team's side. */
+export interface MatchOutcome {
+  result: GameResult;
+  log: MatchLog;
+  recording: MatchRecording;
+}
+
+// From the screen
+export type SimulationCommand =
+  | { type: 'input'; input: SimulationInput }
+  | { type: 'receive'; batch: LockstepBatch }
+  // Sent every animation frame while the match runs: it is `elapsed` ms in
+  | { type: 'advance'; elapsed: number }
+  // The match stopped at `elapsed`
+  | { type: 'hold'; elapsed: number };
+
+// To the screen
+export type SimulationEvent =
+  | {
+      type: 'snapshot';
+      state: SimulationState;
+      inSync: boolean;
+      // Paint since the last snapshot, in order
+      paints: PaintCall[];
+      // Set on the final snapshot
+      outcome: MatchOutcome | null;
+    }
+  | { type: 'send'; batch: LockstepBatch };
+
+/**
+ * Runs a match up to the time the screen's animation frames report and
+ * reports a snapshot after each tick that changed something. Meant for a
+ * worker, where pointer handling on the main thread can't hold it up, but
+ * runs anywhere.
+ *
+ * With `ownFrames` it also steps on its own animation frames between the
+ * screen's, from where the last one said the match was; a worker passes it
+ * where it has requestAnimationFrame. Either way the match steps in fixed
+ * ticks up to the time it is handed, so the frame rate never sets its pace.
+ */
+export class SimulationHost {
+  private simulation: GameSimulation;
+  private recorder: MatchRecorder;
+  private driver: MatchDriver;
+  private matchId: string;
+  private post: (event: SimulationEvent) => void;
+
+  private ownFrames: boolean;
+
+  private paints: PaintCall[] = [];
+  private frame: number | null = null;
+  // performance.now() at the match's time zero, while the match runs
+  private origin = 0;
+  private lastTick = -1;
+  private wasInSync = true;
+
+  constructor(
+    { matchId, seed, settings, driver, botPersonality }: SimulationSetup,
+    post: (event: SimulationEvent) => void,
+    { ownFrames = false }: { ownFrames?: boolean } = {}
+  ) {
+    this.matchId = matchId;
+    this.post = post;
+    this.ownFrames = ownFrames;
+    this.recorder = new MatchRecorder(settings);
+    this.driver = createDriver(driver, batch => post({ type: 'send', batch }));
+
+    const renderer: PaintRenderer = {
+      paintCircle: (x, y, radius, team) => this.paints.push({ x, y, radius, team }),
+      swapArea: (x, y, radius, [team, swapWith]) => this.paints.push({ x, y, radius, team, swapWith }),
+    };
+    this.simulation = new GameSimulation(seed, settings, this.recorder.wrap(renderer), {
+      opponent: this.driver.opponent,
+      botPersonality,
+    });
+    this.recorder.attach(this.simulation);
+    this.driver.attach(this.simulation);
+  }
+
+  handle(command: SimulationCommand) {
+    switch (command.type) {
+      case 'input':
+        this.driver.queueInput(command.input);
+        break;
+      case 'receive':
+        if (this.driver instanceof LockstepDriver) this.driver.receive(command.batch);
+        break;
+      case 'advance':
+        this.origin = performance.now() - command.elapsed;
+        this.advance(command.elapsed);
+        if (this.ownFrames && !this.simulation.isFinished) this.frame ??= requestAnimationFrame(this.onFrame);
+        break;
+      case 'hold':
+        this.stop();
+        this.advance(command.elapsed);
+        break;
+    }
+  }
+
+  dispose() {
+    this.stop();
+  }
+
+  private stop() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+  }
+
+  private onFrame = () => {
+    this.frame = requestAnimationFrame(this.onFrame);
+    this.advance(performance.now() - this.origin);
+  };
+
+  private advance(time: number) {
+    const { simulation } = this;
+    const inSync = this.driver.advance(time);
+    const state = simulation.getState();
+    if (state.tick === this.lastTick && inSync === this.wasInSync && this.paints.length === 0) return;
+
+    this.lastTick = state.tick;
+    this.wasInSync = inSync;
+    const outcome = simulation.isFinished ? this.finish() : null;
+    this.post({ type: 'snapshot', state, inSync, paints: this.paints, outcome });
+    this.paints = [];
+  }
+
+  private finish(): MatchOutcome {
+    this.stop();
+    const { simulation } = this;
+    const result = resultForTeam(simulation.getResult(), this.driver.localTeam);
+
+    return {
+      result,
+      log: createMatchLog(simulation),
+      recording: this.recorder.finish(simulation, this.matchId, result),
+    };
+  }
+}
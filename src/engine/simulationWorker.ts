@@ -0,0 +1,22 @@
+import { SimulationCommand, SimulationEvent, SimulationHost, SimulationSetup } from './simulationHost.ts';
+
+// Runs a match's SimulationHost off the main thread. The first message sets
+// the match up; every later one is a command for it.
+export type SimulationWorkerMessage = { type: 'setup'; setup: SimulationSetup } | SimulationCommand;
+
+let host: SimulationHost | null = null;
+
+self.addEventListener('message', (event: MessageEvent<SimulationWorkerMessage>) => {
+  const message = event.data;
+
+  if (message.type === 'setup') {
+    host?.dispose();
+    host = new SimulationHost(message.setup, (simulationEvent: SimulationEvent) => self.postMessage(simulationEvent), {
+      // Not every browser gives workers animation frames
+      ownFrames: typeof requestAnimationFrame === 'function',
+    });
+    return;
+  }
+
+  host?.handle(message);
+});
@@ -0,0 +1,68 @@
+import { GameResult, GameSettings, OpponentKind, Point, Team } from '../types/game.ts';
+import { isPaintable } from './arena.ts';
+
+// Where teams without a spawn in the arena start, as fractions of the board;
+// the first paintable spot wins
+const EXTRA_SPAWN_SPOTS = [
+  { x: 0.1, y: 0.5 },
+  { x: 0.9, y: 0.5 },
+  { x: 0.5, y: 0.5 },
+];
+
+export interface BrushSlot {
+  team: Team;
+  spawn: Point;
+  isBot: boolean; // moved by a built-in bot rather than by inputs
+}
+
+const teamSpawn = ({ arena, canvasWidth, canvasHeight }: GameSettings, team: Team, extraIndex: number): Point => {
+  if (arena.spawns[team]) return arena.spawns[team];
+
+  const spots = [...EXTRA_SPAWN_SPOTS.slice(extraIndex), ...EXTRA_SPAWN_SPOTS.slice(0, extraIndex)]
+    .map(spot => ({ x: Math.round(spot.x * canvasWidth), y: Math.round(spot.y * canvasHeight) }));
+  return spots.find(spot => isPaintable(arena, spot.x, spot.y)) ?? arena.spawns.bot;
+};
+
+// Allies start a brush apart from their lead, on the side facing the center
+const allySpawn = ({ arena, canvasWidth, brushSize }: GameSettings, lead: Point, ally: number): Point => {
+  const direction = lead.x <= canvasWidth / 2 ? 1 : -1;
+  const x = Math.max(0, Math.min(canvasWidth, lead.x + direction * brushSize * ally));
+  return isPaintable(arena, x, lead.y) ? { x, y: lead.y } : lead;
+};
+
+/**
+ * Every brush in a match, in the order the simulation moves them: each team's
+ * lead brush and then its allies, team by team. The player's lead is driven
+ * by inputs, and so is the bot team's when the opponent is remote; every
+ * other brush is a built-in bot.
+ */
+export const brushRoster = (settings: GameSettings, opponent: OpponentKind): BrushSlot[] => {
+  const extraTeams = settings.teams.filter(team => !settings.arena.spawns[team.id]);
+
+  return settings.teams.flatMap(team => {
+    const lead = teamSpawn(settings, team.id, extraTeams.indexOf(team));
+    const leadIsBot = !(team.id === 'player' || (team.id === 'bot' && opponent === 'remote'));
+
+    return [
+      { team: team.id, spawn: { ...lead }, isBot: leadIsBot },
+      ...Array.from({ length: team.allies }, (_, index) => ({
+        team: team.id,
+        spawn: allySpawn(settings, lead, index + 1),
+        isBot: true,
+      })),
+    ];
+  });
+};
+
+/**
+ * A result seen from `team`'s side, from every team's score: "player" is
+ * always that team and "bot" the best of the rest, so with more than two
+ * teams a win means beating every other team.
+ */
+export const resultFromScores = (scores: Record<Team, number>, team: Team): GameResult => {
+  const playerScore = scores[team] ?? 0;
+  const botScore = Math.max(0, ...Object.entries(scores).filter(([id]) => id !== team).map(([, score]) => score));
+  const winner = playerScore > botScore ? 'player' : botScore > playerScore ? 'bot' : 'draw';
+
+  return { playerScore, botScore, winner, scores };
+};
@@ -0,0 +1,185 @@
+import { TournamentEntrant, TournamentFormat, TournamentPairing, TournamentStanding } from '../types/game.ts';
+
+// Tournaments are played asynchronously in rounds. Everyone in a round plays
+// the same seeded match against the bot, and each pairing goes to the better
+// verified score. Brackets are single elimination; Swiss rounds pair players
+// on equal points who have not met yet.
+
+const pairing = (round: number, position: number, playerA: string, playerB: string | null): TournamentPairing => ({
+  round,
+  position,
+  playerA,
+  playerB,
+  scoreA: null,
+  scoreB: null,
+  settled: false,
+});
+
+/** Rounds a single-elimination bracket needs for this many entrants. */
+export const bracketRoundCount = (entrants: number): number =>
+  Math.max(1, Math.ceil(Math.log2(Math.max(2, entrants))));
+
+// Seeds in bracket order, so the top seeds meet as late as possible:
+// 1, 8, 4, 5, 2, 7, 3, 6 for eight slots
+const bracketSlots = (size: number): number[] => {
+  let slots = [1];
+  while (slots.length < size) {
+    const mirror = slots.length * 2 + 1;
+    slots = slots.flatMap(seed => [seed, mirror - seed]);
+  }
+  return slots;
+};
+
+/**
+ * Who won a pairing: the better verified score, or whoever played at all.
+ * A bye goes to playerA. Null for a draw or when neither played.
+ */
+export const pairingWinner = ({ playerA, playerB, scoreA, scoreB }: TournamentPairing): string | null => {
+  if (playerB === null) return playerA;
+  if (scoreA === null) return scoreB === null ? null : playerB;
+  if (scoreB === null) return playerA;
+  if (scoreA === scoreB) return null;
+  return scoreA > scoreB ? playerA : playerB;
+};
+
+/**
+ * Who goes through a bracket pairing. Someone has to, so a draw or a pairing
+ * neither player turned up for goes to the higher seed.
+ */
+export const bracketAdvancer = (match: TournamentPairing, seedRanks: Map<string, number>): string => {
+  const winner = pairingWinner(match);
+  if (winner || match.playerB === null) return winner ?? match.playerA;
+  return (seedRanks.get(match.playerA) ?? Infinity) <= (seedRanks.get(match.playerB) ?? Infinity)
+    ? match.playerA
+    : match.playerB;
+};
+
+/**
+ * Pairings of a bracket round. The opening round slots entrants by seed and
+ * gives the top seeds the byes; later rounds pair the neighbouring winners of
+ * the previous round.
+ */
+export const pairBracketRound = (
+  round: number,
+  entrants: TournamentEntrant[],
+  previous: TournamentPairing[],
+): TournamentPairing[] => {
+  const seedRanks = new Map(entrants.map(entrant => [entrant.userId, entrant.seedRank]));
+
+  let players: (string | null)[];
+  if (round === 1) {
+    const bySeed = new Map(entrants.map(entrant => [entrant.seedRank, entrant.userId]));
+    players = bracketSlots(2 ** bracketRoundCount(entrants.length)).map(seed => bySeed.get(seed) ?? null);
+  } else {
+    players = [...previous]
+      .sort((a, b) => a.position - b.position)
+      .map(match => bracketAdvancer(match, seedRanks));
+  }
+
+  const pairings: TournamentPairing[] = [];
+  for (let i = 0; i < players.length; i += 2) {
+    const [a, b] = [players[i], players[i + 1] ?? null];
+    const playerA = a ?? b;
+    if (playerA) {
+      pairings.push(pairing(round, pairings.length, playerA, a ? b : null));
+    }
+  }
+  return pairings;
+};
+
+/**
+ * Pairings of a Swiss round: players in standings order meet the next player
+ * they have not met yet. With an odd field the lowest-ranked player who has
+ * not had a bye sits this round out with one.
+ */
+export const pairSwissRound = (
+  round: number,
+  entrants: TournamentEntrant[],
+  played: TournamentPairing[],
+): TournamentPairing[] => {
+  const queue = tournamentStandings('swiss', entrants, played).map(standing => standing.userId);
+  const met = new Set(played.flatMap(match =>
+    match.playerB ? [`${match.playerA}:${match.playerB}`, `${match.playerB}:${match.playerA}`] : []
+  ));
+
+  let bye: string | null = null;
+  if (queue.length % 2 === 1) {
+    const hadBye = new Set(played.filter(match => match.playerB === null).map(match => match.playerA));
+    let index = queue.length - 1;
+    while (index > 0 && hadBye.has(queue[index])) index--;
+    [bye] = queue.splice(hadBye.has(queue[index]) ? queue.length - 1 : index, 1);
+  }
+
+  const pairings: TournamentPairing[] = [];
+  while (queue.length > 1) {
+    const playerA = queue.shift()!;
+    const opponent = queue.findIndex(playerB => !met.has(`${playerA}:${playerB}`));
+    const [playerB] = queue.splice(Math.max(0, opponent), 1);
+    pairings.push(pairing(round, pairings.length, playerA, playerB));
+  }
+  if (bye) {
+    pairings.push(pairing(round, pairings.length, bye, null));
+  }
+  return pairings;
+};
+
+/**
+ * Standings from the settled pairings so far. Swiss ranks on points, then
+ * total score, then seed. A bracket ranks on how far each player got.
+ */
+export const tournamentStandings = (
+  format: TournamentFormat,
+  entrants: TournamentEntrant[],
+  pairings: TournamentPairing[],
+): TournamentStanding[] => {
+  const seedRanks = new Map(entrants.map(entrant => [entrant.userId, entrant.seedRank]));
+  const rows = new Map<string, TournamentStanding>(entrants.map(({ userId }) => [
+    userId,
+    { userId, rank: 0, points: 0, totalScore: 0, eliminatedRound: null },
+  ]));
+
+  for (const match of pairings) {
+    if (!match.settled) continue;
+
+    const a = rows.get(match.playerA);
+    const b = match.playerB ? rows.get(match.playerB) : undefined;
+    if (a && match.scoreA !== null) a.totalScore += match.scoreA;
+    if (b && match.scoreB !== null) b.totalScore += match.scoreB;
+
+    if (format === 'swiss') {
+      const winner = pairingWinner(match);
+      if (winner) {
+        rows.get(winner)!.points += 1;
+      } else if (a && b && match.scoreA !== null) {
+        // A drawn pairing, not one that neither player turned up for
+        a.points += 0.5;
+        b.points += 0.5;
+      }
+    } else {
+      const advancer = bracketAdvancer(match, seedRanks);
+      rows.get(advancer)!.points += 1;
+      const loser = advancer === match.playerA ? b : a;
+      if (loser) loser.eliminatedRound = match.round;
+    }
+  }
+
+  const seedRank = (standing: TournamentStanding) => seedRanks.get(standing.userId) ?? Infinity;
+  // Players still in the bracket rank above everyone knocked out
+  const lastRound = (standing: TournamentStanding) => standing.eliminatedRound ?? Number.MAX_SAFE_INTEGER;
+
+  return [...rows.values()]
+    .sort((a, b) =>
+      (format === 'bracket' ? lastRound(b) - lastRound(a) : 0) ||
+      b.points - a.points ||
+      b.totalScore - a.totalScore ||
+      seedRank(a) - seedRank(b)
+    )
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
+};
+
+/**
+ * $CC won per final rank. `split` holds whole percentages of the pool for
+ * 1st, 2nd, ... place; amounts are rounded down.
+ */
+export const prizeAmounts = (pool: number, split: number[], players: number): number[] =>
+  split.slice(0, players).map(percent => Math.floor((pool * percent) / 100));
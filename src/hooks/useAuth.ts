@@ -154,6 +154,11 @@ export const useAuth = () => {
     }
   }, [user]);
 
+  // The server updates the rating after each verified match; mirror it locally
+  const updateSkillRating = useCallback((rating: number) => {
+    setUser(prev => prev ? { ...prev, skill_rating: rating, rated_games: prev.rated_games + 1 } : null);
+  }, []);
+
   const signOut = useCallback(async () => {
     try {
       localStorage.removeItem('colorclash_session_token');
@@ -174,6 +179,7 @@ export const useAuth = () => {
     isAuthenticated,
     authenticateWithWallet,
     updateUserStats,
+    updateSkillRating,
     signOut
   };
 };
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { GameSettings, PaintRenderer, Team } from '../types/game';
+import { EntityScene } from '../render/entityLayer';
+import { createLayeredRenderer, LayeredRenderer } from '../render/layeredRenderer';
+
+const createLayer = (container: HTMLElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.className = 'absolute inset-0 w-full h-full';
+  container.appendChild(canvas);
+  return canvas;
+};
+
+// Canvas layers for a match, stacked inside `containerRef`: paint below,
+// entities (brushes, power-ups, zones) above, with the UI left to the DOM.
+// The simulation decides what to paint and keeps score; this hook only draws it.
+//
+// The canvases are created here rather than rendered by React, as one handed
+// to a render worker can never be drawn on again: each mount gets fresh ones.
+export const useCanvasLayers = (
+  containerRef: React.RefObject<HTMLElement>,
+  settings: GameSettings
+) => {
+  const layersRef = useRef<LayeredRenderer | null>(null);
+  // Carried over to fresh layers
+  const sceneRef = useRef<EntityScene | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const paintCanvas = createLayer(container);
+    paintCanvas.style.imageRendering = 'pixelated';
+    const entityCanvas = createLayer(container);
+    const layers = createLayeredRenderer(paintCanvas, entityCanvas, settings);
+    layers.paint({ kind: 'arena' });
+    if (sceneRef.current) layers.setScene(sceneRef.current);
+    layersRef.current = layers;
+
+    return () => {
+      layers.dispose();
+      layersRef.current = null;
+      paintCanvas.remove();
+      entityCanvas.remove();
+    };
+  }, [containerRef, settings]);
+
+  const initializeCanvas = useCallback(() => {
+    layersRef.current?.paint({ kind: 'arena' });
+  }, []);
+
+  const paintCircle = useCallback((x: number, y: number, radius: number, team: Team) => {
+    layersRef.current?.paint({ kind: 'circle', x, y, radius, team });
+  }, []);
+
+  const swapArea = useCallback((x: number, y: number, radius: number, teams: [Team, Team]) => {
+    layersRef.current?.paint({ kind: 'swap', x, y, radius, teams });
+  }, []);
+
+  const setScene = useCallback((scene: EntityScene) => {
+    sceneRef.current = scene;
+    layersRef.current?.setScene(scene);
+  }, []);
+
+  const renderer = useMemo<PaintRenderer>(() => ({ paintCircle, swapArea }), [paintCircle, swapArea]);
+
+  return {
+    initializeCanvas,
+    renderer,
+    setScene
+  };
+};
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Challenge, SentChallenge, getChallenge, listChallenges } from '../services/challengeService';
+
+/** A challenge opened from a link, loaded once per id. */
+export const useChallenge = (challengeId?: string) => {
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [isLoading, setIsLoading] = useState(!!challengeId);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!challengeId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    getChallenge(challengeId).then(response => {
+      if (cancelled) return;
+      setIsLoading(false);
+
+      if (!response.success || !response.challenge) {
+        setError(response.error || 'Challenge not found');
+        return;
+      }
+
+      setChallenge(response.challenge);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [challengeId]);
+
+  return {
+    challenge,
+    isLoading,
+    error
+  };
+};
+
+/** Challenges the player has sent, refreshed whenever `enabled` turns on. */
+export const useSentChallenges = (enabled: boolean) => {
+  const [challenges, setChallenges] = useState<SentChallenge[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    const response = await listChallenges();
+    setIsLoading(false);
+
+    if (response.success && response.challenges) {
+      setChallenges(response.challenges);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  return {
+    challenges,
+    isLoading,
+    refresh
+  };
+};
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DailyChallenge,
+  DailyLeaderboardEntry,
+  DailyStanding,
+  getDailyChallenge,
+} from '../services/dailyChallengeService';
+
+/**
+ * Today's daily challenge with its leaderboard and the player's rank,
+ * refreshed whenever `enabled` turns on or the player signs in.
+ */
+export const useDailyChallenge = (enabled: boolean, isAuthenticated: boolean) => {
+  const [challenge, setChallenge] = useState<DailyChallenge | null>(null);
+  const [leaderboard, setLeaderboard] = useState<DailyLeaderboardEntry[]>([]);
+  const [totalPlayers, setTotalPlayers] = useState(0);
+  const [hasPlayed, setHasPlayed] = useState(false);
+  const [standing, setStanding] = useState<DailyStanding | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    const response = await getDailyChallenge();
+    setIsLoading(false);
+
+    if (!response.success || !response.challenge) {
+      console.error('Daily challenge error:', response.error);
+      return;
+    }
+
+    setChallenge(response.challenge);
+    setLeaderboard(response.leaderboard ?? []);
+    setTotalPlayers(response.totalPlayers ?? 0);
+    setHasPlayed(!!response.hasPlayed);
+    setStanding(response.standing ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, isAuthenticated, refresh]);
+
+  return {
+    challenge,
+    leaderboard,
+    totalPlayers,
+    hasPlayed,
+    standing,
+    isLoading,
+    refresh
+  };
+};
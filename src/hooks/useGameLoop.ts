@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls `onFrame` once per animation frame while `isRunning`. The frame rate
+ * never sets the pace of the match: the simulation steps in fixed TICK_MS
+ * ticks up to the wall-clock time it is handed and carries the remainder over
+ * to the next frame, so a slow or throttled device runs the same ticks, just
+ * more of them per frame.
+ */
+export const useGameLoop = (isRunning: boolean, onFrame: () => void) => {
+  // The latest callback, so a new one does not restart the loop
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    let animationFrame: number;
+    const frame = () => {
+      onFrameRef.current();
+      animationFrame = requestAnimationFrame(frame);
+    };
+
+    animationFrame = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [isRunning]);
+};
@@ -0,0 +1,122 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { BotPersonality, GameSettings, PaintRenderer, SimulationInputType } from '../types/game';
+import { GameSimulation } from '../engine/GameSimulation';
+import { createSeed } from '../engine/random';
+import { LockstepLink } from '../engine/lockstep';
+import {
+  describeDriver,
+  DriverSetup,
+  MatchOutcome,
+  SimulationCommand,
+  SimulationEvent,
+  SimulationHost,
+  SimulationSetup
+} from '../engine/simulationHost';
+import type { SimulationWorkerMessage } from '../engine/simulationWorker';
+
+interface GameSimulationOptions {
+  matchId: string;
+  seed?: number;
+  // Defaults to the built-in bot; a lockstep link plays a PvP match over it
+  driver?: DriverSetup | LockstepLink;
+  botPersonality?: BotPersonality;
+}
+
+// The simulation runs in a worker and reports back a snapshot per tick; this
+// side forwards inputs and the match time of each animation frame, and draws
+// the paint it reports. Browsers without workers run the same host here
+// instead.
+export const useGameSimulation = (
+  settings: GameSettings,
+  renderer: PaintRenderer,
+  { matchId, seed, driver, botPersonality }: GameSimulationOptions
+) => {
+  const [link] = useState(() => (driver instanceof LockstepLink ? driver : null));
+  const [setup] = useState<SimulationSetup>(() => ({
+    matchId,
+    seed: seed ?? createSeed(),
+    settings,
+    driver: driver instanceof LockstepLink
+      ? { kind: 'lockstep', localTeam: driver.localTeam }
+      : driver ?? { kind: 'bot' },
+    botPersonality,
+  }));
+  const { localTeam, opponent } = describeDriver(setup.driver);
+  // The opening state is worked out here too, so there is a match to show
+  // before the worker first reports in
+  const [opening] = useState(() => new GameSimulation(setup.seed, settings, null, { opponent, botPersonality }));
+  const [state, setState] = useState(() => opening.getState());
+  const [isWaitingForOpponent, setIsWaitingForOpponent] = useState(false);
+  const [outcome, setOutcome] = useState<MatchOutcome | null>(null);
+  const postRef = useRef<(command: SimulationCommand) => void>(() => {});
+
+  useEffect(() => {
+    const onEvent = (event: SimulationEvent) => {
+      if (event.type === 'send') {
+        link?.send(event.batch);
+        return;
+      }
+
+      for (const { x, y, radius, team, swapWith } of event.paints) {
+        if (swapWith) {
+          renderer.swapArea?.(x, y, radius, [team, swapWith]);
+        } else {
+          renderer.paintCircle(x, y, radius, team);
+        }
+      }
+      setState(event.state);
+      setIsWaitingForOpponent(!event.inSync);
+      if (event.outcome) setOutcome(event.outcome);
+    };
+
+    let post: (command: SimulationCommand) => void;
+    let dispose: () => void;
+
+    if (typeof Worker !== 'undefined') {
+      const worker = new Worker(new URL('../engine/simulationWorker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<SimulationEvent>) => onEvent(event.data));
+      const send = (message: SimulationWorkerMessage) => worker.postMessage(message);
+      send({ type: 'setup', setup });
+      post = send;
+      dispose = () => worker.terminate();
+    } else {
+      const host = new SimulationHost(setup, onEvent);
+      post = command => host.handle(command);
+      dispose = () => host.dispose();
+    }
+
+    const disconnect = link?.connect(batch => post({ type: 'receive', batch }));
+    postRef.current = post;
+
+    return () => {
+      disconnect?.();
+      dispose();
+      postRef.current = () => {};
+    };
+  }, [setup, link, renderer]);
+
+  const advance = useCallback((elapsed: number) => {
+    postRef.current({ type: 'advance', elapsed });
+  }, []);
+
+  const hold = useCallback((elapsed: number) => {
+    postRef.current({ type: 'hold', elapsed });
+  }, []);
+
+  const sendInput = useCallback((type: SimulationInputType, time: number, x: number, y: number) => {
+    postRef.current({ type: 'input', input: { time, type, x, y } });
+  }, []);
+
+  return {
+    state,
+    localTeam,
+    opponent,
+    botPersonality: opening.botPersonality,
+    duration: opening.duration,
+    isWaitingForOpponent,
+    outcome,
+    advance,
+    hold,
+    sendInput
+  };
+};
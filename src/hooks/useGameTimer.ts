@@ -1,50 +1,88 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 
-export const useGameTimer = (initialTime: number) => {
-  const [timeLeft, setTimeLeft] = useState(initialTime);
+// Wall clock for a match. The simulation owns match time; this only tells it
+// how many milliseconds have really passed since the start, up to the time
+// the match is scheduled to run. Overtime extends that schedule. Timed with
+// performance.now(), which unlike Date.now() never jumps when the system
+// clock is adjusted.
+//
+// While paused the clock stands still, and with it the simulation: bots,
+// power-up lifetimes and effect durations all run on match time.
+export const useGameTimer = () => {
   const [isRunning, setIsRunning] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const startTimer = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
-
-    setIsRunning(true);
-    setTimeLeft(initialTime);
-
-    intervalRef.current = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          setIsRunning(false);
-          if (intervalRef.current) {
-            clearInterval(intervalRef.current);
-          }
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  }, [initialTime]);
+  const [isPaused, setIsPaused] = useState(false);
+  // Whole seconds before the clock starts, while counting down
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const startTimeRef = useRef(0);
+  const durationRef = useRef(0);
+  const pausedAtRef = useRef<number | null>(null);
+
+  // The start time is fixed up front, so the match begins exactly when the
+  // countdown reaches zero however late the display updates fire
+  const startTimer = useCallback((duration: number, countdownSeconds = 0) => {
+    startTimeRef.current = performance.now() + countdownSeconds * 1000;
+    durationRef.current = duration;
+    pausedAtRef.current = null;
+    setIsPaused(false);
+    setCountdown(countdownSeconds > 0 ? countdownSeconds : null);
+    setIsRunning(countdownSeconds <= 0);
+  }, []);
+
+  // Step the countdown on each whole second before the start
+  useEffect(() => {
+    if (countdown === null) return;
+
+    const nextSecond = startTimeRef.current - (countdown - 1) * 1000;
+    const timeout = setTimeout(() => {
+      // A throttled tab may wake up several seconds late
+      const left = Math.min(countdown - 1, Math.ceil((startTimeRef.current - performance.now()) / 1000));
+      if (left > 0) {
+        setCountdown(left);
+      } else {
+        setCountdown(null);
+        setIsRunning(true);
+      }
+    }, Math.max(0, nextSecond - performance.now()));
+
+    return () => clearTimeout(timeout);
+  }, [countdown]);
+
+  const extendTimer = useCallback((extra: number) => {
+    durationRef.current += extra;
+  }, []);
 
   const stopTimer = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
     setIsRunning(false);
   }, []);
 
-  const resetTimer = useCallback(() => {
-    stopTimer();
-    setTimeLeft(initialTime);
-  }, [initialTime, stopTimer]);
+  const pauseTimer = useCallback(() => {
+    if (pausedAtRef.current !== null) return;
+    pausedAtRef.current = performance.now();
+    setIsPaused(true);
+  }, []);
+
+  // The time spent paused is skipped, so the match picks up where it stopped
+  const resumeTimer = useCallback(() => {
+    if (pausedAtRef.current === null) return;
+    startTimeRef.current += performance.now() - pausedAtRef.current;
+    pausedAtRef.current = null;
+    setIsPaused(false);
+  }, []);
+
+  const getElapsed = useCallback(() => {
+    const now = pausedAtRef.current ?? performance.now();
+    return Math.min(now - startTimeRef.current, durationRef.current);
+  }, []);
 
   return {
-    timeLeft,
     isRunning,
+    isPaused,
+    countdown,
     startTimer,
+    extendTimer,
     stopTimer,
-    resetTimer
+    pauseTimer,
+    resumeTimer,
+    getElapsed
   };
-};
\ No newline at end of file
+};
@@ -1,19 +1,25 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { DailyGameData } from '../types/game';
 import { GAME_SETTINGS } from '../config/gameConfig';
+import { fetchRouletteKeys, spinRoulette } from '../services/rouletteService';
 
-export const useRouletteKeys = () => {
+// Roulette keys are kept on the server, which awards them for verified
+// matches and spends them on spins; this only mirrors the count.
+export const useRouletteKeys = (isAuthenticated: boolean) => {
   const [rouletteKeys, setRouletteKeys] = useState<number>(0);
   const [dailyGames, setDailyGames] = useState<number>(0);
   const [canPlayToday, setCanPlayToday] = useState<boolean>(true);
 
-  // Load keys from localStorage on mount
+  const refreshRouletteKeys = useCallback(async () => {
+    const response = await fetchRouletteKeys();
+    setRouletteKeys(response.success ? response.keys ?? 0 : 0);
+  }, []);
+
   useEffect(() => {
-    const saved = localStorage.getItem('colorClashRouletteKeys');
-    if (saved) {
-      setRouletteKeys(parseInt(saved, 10));
-    }
+    refreshRouletteKeys();
+  }, [isAuthenticated, refreshRouletteKeys]);
 
+  useEffect(() => {
     // Check daily game limit
     const today = new Date().toDateString();
     const dailyData = localStorage.getItem('colorClashDailyGames');
@@ -41,18 +47,11 @@ export const useRouletteKeys = () => {
     }
   }, []);
 
-  // Save keys to localStorage when they change
-  useEffect(() => {
-    localStorage.setItem('colorClashRouletteKeys', rouletteKeys.toString());
-  }, [rouletteKeys]);
-
-  const addRouletteKeys = (amount: number) => {
-    setRouletteKeys(prev => prev + amount);
-  };
-
-  const spendRouletteKeys = (amount: number) => {
-    setRouletteKeys(prev => Math.max(0, prev - amount));
-  };
+  const spinRouletteKey = useCallback(async () => {
+    const response = await spinRoulette();
+    if (response.keys !== undefined) setRouletteKeys(response.keys);
+    return response;
+  }, []);
 
   const incrementDailyGames = () => {
     const today = new Date().toDateString();
@@ -67,8 +66,8 @@ export const useRouletteKeys = () => {
   };
   return {
     rouletteKeys,
-    addRouletteKeys,
-    spendRouletteKeys,
+    refreshRouletteKeys,
+    spinRouletteKey,
     dailyGames,
     canPlayToday,
     incrementDailyGames
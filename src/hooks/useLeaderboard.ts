@@ -1,5 +1,8 @@
-import { useState, useEffect } from 'react';
-import { LeaderboardEntry } from '../types/game';
+import { useState, useEffect, useCallback } from 'react';
+import { LeaderboardEntry, RatingEntry } from '../types/game';
+import { supabase } from '../lib/supabase';
+
+const RATING_LEADERBOARD_SIZE = 50;
 
 export const useLeaderboard = () => {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
@@ -53,4 +56,44 @@ export const useLeaderboard = () => {
     leaderboard,
     updateLeaderboard
   };
-};
\ No newline at end of file
+};
+
+/** Top rated players from their profiles, refreshed whenever `enabled` turns on. */
+export const useRatingLeaderboard = (enabled: boolean) => {
+  const [ratings, setRatings] = useState<RatingEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('wallet_address, username, farcaster_fid, skill_rating, rated_games')
+      .gt('rated_games', 0)
+      .order('skill_rating', { ascending: false })
+      .limit(RATING_LEADERBOARD_SIZE);
+    setIsLoading(false);
+
+    if (error) {
+      console.error('Rating leaderboard error:', error);
+      return;
+    }
+
+    setRatings((data ?? []).map(profile => ({
+      address: profile.wallet_address,
+      username: profile.username ?? undefined,
+      farcasterFid: profile.farcaster_fid ?? undefined,
+      rating: profile.skill_rating,
+      ratedGames: profile.rated_games,
+    })));
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  return {
+    ratings,
+    isLoading,
+    refresh
+  };
+};
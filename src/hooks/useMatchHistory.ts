@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MatchRecording } from '../types/game';
+import { MATCH_RECORDING_VERSION } from '../engine/matchRecorder';
+
+const STORAGE_KEY = 'colorClashMatchHistory';
+const MAX_RECORDINGS = 10;
+
+export const useMatchHistory = () => {
+  const [recordings, setRecordings] = useState<MatchRecording[]>([]);
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        // Older recordings cannot be played back by this version
+        const parsed: MatchRecording[] = JSON.parse(saved);
+        setRecordings(parsed.filter(recording => recording.version === MATCH_RECORDING_VERSION));
+      }
+    } catch (error) {
+      console.error('Failed to load match history:', error);
+    }
+  }, []);
+
+  const addRecording = useCallback((recording: MatchRecording) => {
+    setRecordings(prev => {
+      let updated = [recording, ...prev].slice(0, MAX_RECORDINGS);
+
+      // Recordings are fairly large; drop the oldest until they fit
+      while (updated.length > 0) {
+        try {
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+          break;
+        } catch (error) {
+          console.warn('Match history storage full, dropping oldest recording:', error);
+          updated = updated.slice(0, -1);
+        }
+      }
+
+      return updated;
+    });
+  }, []);
+
+  const getRecording = useCallback((id: string) => {
+    return recordings.find(recording => recording.id === id) ?? null;
+  }, [recordings]);
+
+  return {
+    recordings,
+    addRecording,
+    getRecording
+  };
+};
@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Team } from '../types/game';
+import { LockstepLink } from '../engine/lockstep';
+import { createRealtimeTransport, PvpMessage, PvpTransport } from '../services/pvpTransport';
+import { createLobby as createLobbyRequest, joinLobby as joinLobbyRequest } from '../services/pvpLobbyService';
+
+export interface PvpLobby {
+  lobbyId: string;
+  team: Team;
+  inviteCode?: string;
+}
+
+// Inputs flow every few ticks during a match, so this much silence means the
+// opponent has gone
+const DISCONNECT_TIMEOUT_MS = 10000;
+// Time for the last input batches to reach the opponent before the channel closes
+const CLOSE_DELAY_MS = 5000;
+
+export const usePvpLobby = (playerName: string, playerAvatar?: string) => {
+  const [lobby, setLobby] = useState<PvpLobby | null>(null);
+  const [opponentName, setOpponentName] = useState<string | null>(null);
+  const [opponentAvatar, setOpponentAvatar] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isOpponentReady, setIsOpponentReady] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [opponentLeft, setOpponentLeft] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // In state so the game screen re-renders with it; the ref is for the
+  // transport's message handler
+  const [driver, setDriver] = useState<LockstepLink | null>(null);
+
+  const transportRef = useRef<PvpTransport | null>(null);
+  const driverRef = useRef<LockstepLink | null>(null);
+  const isReadyRef = useRef(false);
+  const lastMessageRef = useRef(0);
+
+  const reset = useCallback(() => {
+    transportRef.current?.close();
+    transportRef.current = null;
+    driverRef.current = null;
+    setDriver(null);
+    isReadyRef.current = false;
+    setLobby(null);
+    setOpponentName(null);
+    setOpponentAvatar(null);
+    setIsReady(false);
+    setIsOpponentReady(false);
+    setHasStarted(false);
+    setOpponentLeft(false);
+    setError(null);
+  }, []);
+
+  const connect = useCallback((lobbyId: string, team: Team) => {
+    const transport = createRealtimeTransport(lobbyId);
+    let greeted = false;
+
+    transportRef.current = transport;
+    const link = new LockstepLink(team, batch => transport.send({ type: 'inputs', team, batch }));
+    driverRef.current = link;
+    setDriver(link);
+    lastMessageRef.current = Date.now();
+
+    transport.onMessage((message: PvpMessage) => {
+      if (message.team === team) return;
+      lastMessageRef.current = Date.now();
+
+      switch (message.type) {
+        case 'hello':
+          setOpponentName(message.name);
+          setOpponentAvatar(message.avatar ?? null);
+          // Answer once so whoever subscribed first learns about us too, and
+          // repeat our ready state in case it was sent before they arrived
+          if (!greeted) {
+            greeted = true;
+            transport.send({ type: 'hello', team, name: playerName, avatar: playerAvatar });
+            if (isReadyRef.current) transport.send({ type: 'ready', team });
+          }
+          break;
+        case 'ready':
+          setIsOpponentReady(true);
+          break;
+        case 'start':
+          setHasStarted(true);
+          break;
+        case 'inputs':
+          driverRef.current?.receive(message.batch);
+          break;
+        case 'leave':
+          setOpponentLeft(true);
+          break;
+      }
+    });
+
+    transport.send({ type: 'hello', team, name: playerName, avatar: playerAvatar });
+  }, [playerName, playerAvatar]);
+
+  const createLobby = useCallback(async () => {
+    reset();
+    setIsConnecting(true);
+    const response = await createLobbyRequest();
+    setIsConnecting(false);
+
+    if (!response.success || !response.lobbyId || !response.inviteCode) {
+      setError(response.error || 'Could not create lobby');
+      return;
+    }
+
+    setLobby({ lobbyId: response.lobbyId, team: 'player', inviteCode: response.inviteCode });
+    connect(response.lobbyId, 'player');
+  }, [reset, connect]);
+
+  const joinLobby = useCallback(async (inviteCode: string) => {
+    reset();
+    setIsConnecting(true);
+    const response = await joinLobbyRequest(inviteCode.trim());
+    setIsConnecting(false);
+
+    if (!response.success || !response.lobbyId) {
+      setError(response.error || 'Could not join lobby');
+      return;
+    }
+
+    setLobby({ lobbyId: response.lobbyId, team: 'bot', inviteCode: inviteCode.trim().toUpperCase() });
+    setOpponentName(response.hostName || null);
+    connect(response.lobbyId, 'bot');
+  }, [reset, connect]);
+
+  // Call once this player holds a match ticket for the lobby
+  const markReady = useCallback(() => {
+    if (!lobby || !transportRef.current) return;
+    isReadyRef.current = true;
+    setIsReady(true);
+    transportRef.current.send({ type: 'ready', team: lobby.team });
+  }, [lobby]);
+
+  // The host starts the match once both players are ready
+  useEffect(() => {
+    if (lobby?.team === 'player' && isReady && isOpponentReady && !hasStarted) {
+      transportRef.current?.send({ type: 'start', team: 'player' });
+      setHasStarted(true);
+    }
+  }, [lobby, isReady, isOpponentReady, hasStarted]);
+
+  // Silence during a match means the opponent disconnected
+  useEffect(() => {
+    if (!hasStarted || opponentLeft) return;
+
+    const check = setInterval(() => {
+      if (Date.now() - lastMessageRef.current > DISCONNECT_TIMEOUT_MS) {
+        setOpponentLeft(true);
+      }
+    }, 1000);
+
+    return () => clearInterval(check);
+  }, [hasStarted, opponentLeft]);
+
+  const leaveLobby = useCallback(() => {
+    if (lobby) {
+      transportRef.current?.send({ type: 'leave', team: lobby.team });
+    }
+    reset();
+  }, [lobby, reset]);
+
+  // After the final tick: keep the channel open briefly so the opponent gets
+  // our last inputs, then clean up without signalling a disconnect
+  const endMatch = useCallback(() => {
+    const transport = transportRef.current;
+    transportRef.current = null;
+    setHasStarted(false);
+    setTimeout(() => transport?.close(), CLOSE_DELAY_MS);
+  }, []);
+
+  useEffect(() => {
+    return () => transportRef.current?.close();
+  }, []);
+
+  return {
+    lobby,
+    opponentName,
+    opponentAvatar,
+    isReady,
+    isOpponentReady,
+    hasStarted,
+    opponentLeft,
+    isConnecting,
+    error,
+    driver,
+    createLobby,
+    joinLobby,
+    markReady,
+    leaveLobby,
+    endMatch
+  };
+};
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  GetTournamentResponse,
+  TournamentSummary,
+  getTournament,
+  listTournaments,
+} from '../services/tournamentService';
+
+type TournamentDetail = Omit<GetTournamentResponse, 'success' | 'error'>;
+
+/**
+ * The tournament list, plus the rounds and standings of the one the player
+ * has opened. Both are refreshed whenever `enabled` turns on or the player
+ * signs in.
+ */
+export const useTournaments = (enabled: boolean, isAuthenticated: boolean) => {
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<TournamentDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    const [list, selected] = await Promise.all([
+      listTournaments(),
+      selectedId ? getTournament(selectedId) : Promise.resolve(null),
+    ]);
+    setIsLoading(false);
+
+    if (list.success && list.tournaments) {
+      setTournaments(list.tournaments);
+    } else {
+      console.error('Tournament list error:', list.error);
+    }
+
+    if (selected?.success) {
+      setDetail(selected);
+    } else if (selected) {
+      console.error('Tournament error:', selected.error);
+    }
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, isAuthenticated, refresh]);
+
+  const select = useCallback((tournamentId: string | null) => {
+    setDetail(null);
+    setSelectedId(tournamentId);
+  }, []);
+
+  return {
+    tournaments,
+    selectedId,
+    detail,
+    isLoading,
+    select,
+    refresh
+  };
+};
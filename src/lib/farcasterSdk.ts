@@ -1,5 +1,15 @@
 import sdk from '@farcaster/miniapp-sdk';
 // hello world
+export const isFarcasterEnvironment = (): boolean => {
+  if (typeof window === 'undefined') return false;
+
+  return !!(
+    (window as any).sdk ||
+    window.farcaster ||
+    window.parent !== window
+  );
+};
+
 export const initializeFarcasterSdk = async (): Promise<boolean> => {
   try {
     if (typeof window === 'undefined') {
@@ -7,13 +17,7 @@ export const initializeFarcasterSdk = async (): Promise<boolean> => {
       return false;
     }
 
-    const isFarcasterEnv = !!(
-      (window as any).sdk ||
-      window.farcaster ||
-      window.parent !== window
-    );
-
-    if (!isFarcasterEnv) {
+    if (!isFarcasterEnvironment()) {
       console.log('Not running in Farcaster environment, skipping SDK ready call');
       return false;
     }
@@ -60,4 +64,26 @@ export const getFarcasterContext = () => {
   }
 };
 
+/**
+ * Open the cast composer with optional embeds (max two). Inside a Farcaster
+ * client this uses the Mini App action, otherwise it falls back to the
+ * Warpcast compose URL.
+ */
+export const composeCast = async (text: string, embeds: string[] = []) => {
+  const castEmbeds = embeds.slice(0, 2) as [] | [string] | [string, string];
+
+  if (isFarcasterEnvironment()) {
+    try {
+      await sdk.actions.composeCast({ text, embeds: castEmbeds });
+      return;
+    } catch (error) {
+      console.error('composeCast action failed, falling back to Warpcast URL:', error);
+    }
+  }
+
+  const params = new URLSearchParams({ text });
+  castEmbeds.forEach(embed => params.append('embeds[]', embed));
+  window.open(`https://warpcast.com/~/compose?${params.toString()}`, '_blank');
+};
+
 export { sdk };
\ No newline at end of file
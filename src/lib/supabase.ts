@@ -24,6 +24,9 @@ export interface UserProfile {
   total_games: number;
   total_wins: number;
   total_tokens_won: number;
+  skill_rating: number;
+  rating_deviation: number;
+  rated_games: number;
   created_at: string;
   updated_at: string;
 }
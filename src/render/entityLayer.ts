@@ -0,0 +1,244 @@
+import { BrushEffects, GameSettings, Point, PowerUp, ProtectedZone, Team } from '../types/game';
+import { PowerUpIconName, POWER_UPS } from '../engine/powerUps';
+import { Context2D, teamColors } from './paintLayer';
+
+// Everything drawn over the paint that moves or animates. Redrawn from
+// scratch every frame, so it holds no state of its own.
+export interface EntityScene {
+  brushes: { team: Team; position: Point }[];
+  // Left out where they aren't known, as in recordings
+  effects?: Record<Team, BrushEffects>;
+  powerUps: PowerUp[]; // uncollected only
+  zones: ProtectedZone[];
+  // This team's speed trail is drawn bright rather than in its color
+  highlightTeam?: Team;
+}
+
+const OUTLINE = '#333333';
+const BONUS_COLOR = '#FFD700';
+const HIGHLIGHT_COLOR = '#FACC15';
+
+// The power-up icons' outlines on a 24-unit grid, stroked like the icon set
+// the rest of the UI uses
+const ICON_PATHS: Record<PowerUpIconName, string> = {
+  zap: 'M13 2 3 14h9l-1 8 10-12h-9l1-8z',
+  bomb: 'M2 13a9 9 0 1 0 18 0a9 9 0 1 0-18 0M14.35 4.65 16.3 2.7a2.41 2.41 0 0 1 3.4 0l1.6 1.6a2.4 2.4 0 0 1 0 3.4l-1.95 1.95M22 2l-1.5 1.5',
+  maximize: 'M15 3h6v6M9 21H3v-6M21 3l-7 7M3 21l7-7',
+  snowflake: 'M2 12h20M12 2v20M20 16l-4-4 4-4M4 8l4 4-4 4M16 4l-4 4-4-4M8 20l4-4 4 4',
+  'pen-line': 'M12 20h9M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z',
+  shield: 'M20 13c0 5-3.5 7.5-7.66 8.95a1 1 0 0 1-.67-.01C7.5 20.5 4 18 4 13V6a1 1 0 0 1 1-1c2 0 4.5-1.2 6.24-2.72a1.17 1.17 0 0 1 1.52 0C14.51 3.81 17 5 19 5a1 1 0 0 1 1 1z',
+  swap: 'M8 3 4 7l4 4M4 7h16M16 21l4-4-4-4M20 17H4',
+  magnet: 'M6 15l-4-4 6.75-6.77a7.79 7.79 0 0 1 11 11L13 22l-4-4 6.39-6.36a2.14 2.14 0 0 0-3-3L6 15M5 8l4 4M12 15l4 4',
+};
+
+const iconPaths = new Map<PowerUpIconName, Path2D>();
+const iconPath = (icon: PowerUpIconName) => {
+  let path = iconPaths.get(icon);
+  if (!path) {
+    path = new Path2D(ICON_PATHS[icon]);
+    iconPaths.set(icon, path);
+  }
+  return path;
+};
+
+// 0..1 through a repeating animation of `period` ms
+const phase = (time: number, period: number, delay = 0) => (((time - delay) % period) + period) % period / period;
+
+const drawBonusZones = (ctx: Context2D, { arena }: GameSettings) => {
+  ctx.save();
+  ctx.strokeStyle = BONUS_COLOR;
+  ctx.fillStyle = BONUS_COLOR;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.font = '900 12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (const zone of arena.bonusZones) {
+    ctx.beginPath();
+    if (zone.kind === 'circle') {
+      ctx.arc(zone.x, zone.y, zone.radius, 0, 2 * Math.PI);
+    } else {
+      ctx.roundRect(zone.x, zone.y, zone.width, zone.height, 6);
+    }
+    ctx.stroke();
+
+    const [x, y] = zone.kind === 'circle' ? [zone.x, zone.y] : [zone.x + zone.width / 2, zone.y + zone.height / 2];
+    ctx.fillText('x2', x, y);
+  }
+
+  ctx.restore();
+};
+
+const drawShieldZones = (ctx: Context2D, zones: ProtectedZone[], colors: Record<Team, string>, time: number) => {
+  ctx.save();
+  ctx.lineWidth = 4;
+  ctx.setLineDash([8, 6]);
+  ctx.shadowBlur = 12;
+  ctx.globalAlpha = 0.6 + 0.4 * Math.cos(phase(time, 2000) * 2 * Math.PI);
+
+  for (const zone of zones) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.shadowColor = colors[zone.team];
+    ctx.beginPath();
+    ctx.arc(zone.x, zone.y, zone.radius, 0, 2 * Math.PI);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+};
+
+const drawPowerUp = (ctx: Context2D, powerUp: PowerUp, time: number) => {
+  const { icon, color } = POWER_UPS[powerUp.type];
+  // Bounces a quarter of its height once a second
+  const lift = Math.abs(Math.sin(phase(time, 1000) * Math.PI)) * 12;
+
+  ctx.save();
+  ctx.translate(powerUp.x, powerUp.y - lift);
+
+  ctx.beginPath();
+  ctx.arc(0, 0, 26, 0, 2 * Math.PI);
+  ctx.strokeStyle = 'rgba(250, 204, 21, 0.5)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  const fill = ctx.createLinearGradient(-24, -24, 24, 24);
+  fill.addColorStop(0, '#FFFFFF');
+  fill.addColorStop(1, '#F3F4F6');
+  ctx.beginPath();
+  ctx.arc(0, 0, 23, 0, 2 * Math.PI);
+  ctx.fillStyle = fill;
+  ctx.fill();
+  ctx.strokeStyle = OUTLINE;
+  ctx.lineWidth = 3;
+  ctx.stroke();
+
+  ctx.translate(-12, -12);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.stroke(iconPath(icon));
+
+  ctx.restore();
+};
+
+// Sparkles pinging out one after another around a sped-up brush
+const drawSpeedTrail = (ctx: Context2D, color: string, glow: string, time: number) => {
+  const ping = phase(time, 1000);
+  ctx.globalAlpha = 0.6 * (1 - ping);
+  ctx.fillStyle = glow;
+  ctx.beginPath();
+  ctx.arc(0, 0, 22 + ping * 22, 0, 2 * Math.PI);
+  ctx.fill();
+
+  ctx.globalAlpha = 0.3 + 0.1 * Math.cos(phase(time, 2000) * 2 * Math.PI);
+  ctx.beginPath();
+  ctx.arc(0, 0, 20, 0, 2 * Math.PI);
+  ctx.fill();
+
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  for (let i = 0; i < 8; i++) {
+    const spark = phase(time, 800, i * 100);
+    const angle = (i * Math.PI) / 4;
+    const size = 4 * (1 + spark);
+    ctx.globalAlpha = 1 - spark;
+    ctx.save();
+    ctx.translate(Math.cos(angle) * 25, Math.sin(angle) * 25);
+    ctx.beginPath();
+    ctx.arc(0, 0, size / 2, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.rotate(Math.PI / 4);
+    ctx.beginPath();
+    ctx.moveTo(-size, 0);
+    ctx.lineTo(size, 0);
+    ctx.moveTo(0, -size);
+    ctx.lineTo(0, size);
+    ctx.stroke();
+    ctx.restore();
+  }
+  ctx.globalAlpha = 1;
+};
+
+const drawBrush = (ctx: Context2D, color: string, effects: BrushEffects | undefined, trailColor: string, glow: string, time: number) => {
+  if (effects?.enlarge) ctx.scale(1.25, 1.25);
+  if (effects?.speedUp) drawSpeedTrail(ctx, trailColor, glow, time);
+
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = OUTLINE;
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+  ctx.shadowBlur = 6;
+  ctx.shadowOffsetY = 2;
+
+  // Handle
+  const wood = ctx.createLinearGradient(0, -24, 0, 24);
+  wood.addColorStop(0, '#8B4513');
+  wood.addColorStop(1, '#654321');
+  ctx.fillStyle = wood;
+  ctx.beginPath();
+  ctx.roundRect(-8, -24, 16, 48, 8);
+  ctx.fill();
+  ctx.stroke();
+
+  // Head, with its bristles below
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.roundRect(-16, -36, 32, 24, 8);
+  ctx.fill();
+  ctx.stroke();
+  ctx.shadowColor = 'transparent';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.roundRect(-12, -16, 24, 12, [0, 0, 2, 2]);
+  ctx.fill();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+  ctx.fillRect(-12, -10, 24, 6);
+  ctx.beginPath();
+  ctx.moveTo(-12, -16);
+  ctx.lineTo(-12, -4);
+  ctx.moveTo(12, -16);
+  ctx.lineTo(12, -4);
+  ctx.stroke();
+
+  // Metal ferrule
+  const metal = ctx.createLinearGradient(0, 0, 0, 8);
+  metal.addColorStop(0, '#D1D5DB');
+  metal.addColorStop(1, '#6B7280');
+  ctx.fillStyle = metal;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.roundRect(-6, 0, 12, 8, 2);
+  ctx.fill();
+  ctx.stroke();
+};
+
+/**
+ * Draw a frame of the entity layer, in game units, over whatever transform
+ * the caller set for the layer's resolution. `time` drives the animations.
+ */
+export const drawEntities = (ctx: Context2D, settings: GameSettings, scene: EntityScene, time: number) => {
+  const colors = teamColors(settings);
+
+  ctx.clearRect(0, 0, settings.canvasWidth, settings.canvasHeight);
+
+  drawBonusZones(ctx, settings);
+  drawShieldZones(ctx, scene.zones, colors, time);
+  scene.powerUps.forEach(powerUp => drawPowerUp(ctx, powerUp, time));
+
+  for (const { team, position } of scene.brushes) {
+    const isHighlighted = team === scene.highlightTeam;
+    ctx.save();
+    ctx.translate(position.x, position.y);
+    drawBrush(
+      ctx,
+      colors[team],
+      scene.effects?.[team],
+      isHighlighted ? '#FFFFFF' : colors[team],
+      isHighlighted ? HIGHLIGHT_COLOR : colors[team],
+      time
+    );
+    ctx.restore();
+  }
+};
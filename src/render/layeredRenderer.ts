@@ -0,0 +1,110 @@
+import { GameSettings } from '../types/game';
+import { drawEntities, EntityScene } from './entityLayer';
+import { createPaintLayer, PaintCommand } from './paintLayer';
+import type { RenderWorkerMessage } from './renderWorker';
+
+// 'worker' draws both canvas layers in a render worker; '2d' draws them on
+// the main thread, for browsers without OffscreenCanvas
+export type RenderBackend = 'worker' | '2d';
+
+// The match's canvas layers, bottom to top: paint, then entities. The UI
+// layer (scores, timer, overlays) stays in the DOM above them.
+export interface LayeredRenderer {
+  backend: RenderBackend;
+  paint: (command: PaintCommand) => void;
+  // Latest state to draw on the entity layer; it animates on its own between updates
+  setScene: (scene: EntityScene) => void;
+  dispose: () => void;
+}
+
+const supportsWorkerBackend = () => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return false;
+  if (!('transferControlToOffscreen' in HTMLCanvasElement.prototype)) return false;
+
+  // Some browsers shipped OffscreenCanvas before its 2D context
+  try {
+    return new OffscreenCanvas(1, 1).getContext('2d') !== null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Set up the paint and entity layers on two stacked canvases, picking the
+ * worker backend where the browser supports it. Each canvas can only be
+ * handed to a worker once, so a disposed renderer's canvases can't be reused.
+ */
+export const createLayeredRenderer = (
+  paintCanvas: HTMLCanvasElement,
+  entityCanvas: HTMLCanvasElement,
+  settings: GameSettings
+): LayeredRenderer => {
+  // Paint stays at game resolution, the grid the simulation scores on;
+  // entities are drawn at the screen's
+  const pixelRatio = Math.min(2, window.devicePixelRatio || 1);
+  paintCanvas.width = settings.canvasWidth;
+  paintCanvas.height = settings.canvasHeight;
+  entityCanvas.width = Math.round(settings.canvasWidth * pixelRatio);
+  entityCanvas.height = Math.round(settings.canvasHeight * pixelRatio);
+
+  let scene: EntityScene | null = null;
+  let animationFrame = 0;
+
+  const loop = (onFrame: (time: number) => void) => {
+    const tick = (time: number) => {
+      onFrame(time);
+      animationFrame = requestAnimationFrame(tick);
+    };
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  if (supportsWorkerBackend()) {
+    const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+    const paint = paintCanvas.transferControlToOffscreen();
+    const entities = entityCanvas.transferControlToOffscreen();
+    const init: RenderWorkerMessage = { type: 'init', paint, entities, settings, pixelRatio };
+    worker.postMessage(init, [paint, entities]);
+
+    // Paint is batched into the next frame's message, and the scene only
+    // sent when it changed
+    let commands: PaintCommand[] = [];
+    let isSceneDirty = false;
+    loop(time => {
+      const frame: RenderWorkerMessage = { type: 'frame', time, commands, scene: isSceneDirty ? scene : null };
+      worker.postMessage(frame);
+      commands = [];
+      isSceneDirty = false;
+    });
+
+    return {
+      backend: 'worker',
+      paint: command => commands.push(command),
+      setScene: next => {
+        scene = next;
+        isSceneDirty = true;
+      },
+      dispose: () => {
+        cancelAnimationFrame(animationFrame);
+        worker.terminate();
+      }
+    };
+  }
+
+  const paintContext = paintCanvas.getContext('2d');
+  const entityContext = entityCanvas.getContext('2d');
+  const paint = paintContext && createPaintLayer(paintContext, settings);
+  entityContext?.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+  loop(time => {
+    if (entityContext && scene) drawEntities(entityContext, settings, scene, time);
+  });
+
+  return {
+    backend: '2d',
+    paint: command => paint?.(command),
+    setScene: next => {
+      scene = next;
+    },
+    dispose: () => cancelAnimationFrame(animationFrame)
+  };
+};
@@ -0,0 +1,150 @@
+import { ArenaShape, GameSettings, Team } from '../types/game';
+import { blockedShapes } from '../engine/arena';
+
+// On screen or in a render worker
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Each team's paint color in the match. */
+export const teamColors = ({ teams }: GameSettings): Record<Team, string> =>
+  Object.fromEntries(teams.map(team => [team.id, team.color]));
+
+export const ARENA_COLORS = {
+  background: '#D8CFAF',
+  bonus: '#EFE3B8',
+  wall: '#333333',
+  hole: '#6B634F',
+};
+
+const toRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+// Per-channel slack so anti-aliased edges swap too
+const COLOR_TOLERANCE = 24;
+
+const isColor = (data: Uint8ClampedArray, i: number, rgb: number[]) =>
+  Math.abs(data[i] - rgb[0]) + Math.abs(data[i + 1] - rgb[1]) + Math.abs(data[i + 2] - rgb[2]) <= COLOR_TOLERANCE * 3;
+
+/** Swap two team colors pixel by pixel inside a circle. */
+export const swapTeamColors = (
+  ctx: Context2D,
+  x: number,
+  y: number,
+  radius: number,
+  colors: [string, string]
+) => {
+  const left = Math.max(0, Math.floor(x - radius));
+  const top = Math.max(0, Math.floor(y - radius));
+  const width = Math.min(ctx.canvas.width, Math.ceil(x + radius)) - left;
+  const height = Math.min(ctx.canvas.height, Math.ceil(y + radius)) - top;
+  if (width <= 0 || height <= 0) return;
+
+  const [rgbA, rgbB] = colors.map(toRgb);
+  const image = ctx.getImageData(left, top, width, height);
+  const { data } = image;
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (Math.hypot(left + col + 0.5 - x, top + row + 0.5 - y) > radius) continue;
+
+      const i = (row * width + col) * 4;
+      const target = isColor(data, i, rgbA) ? rgbB : isColor(data, i, rgbB) ? rgbA : null;
+      if (target) {
+        data[i] = target[0];
+        data[i + 1] = target[1];
+        data[i + 2] = target[2];
+      }
+    }
+  }
+
+  ctx.putImageData(image, left, top);
+};
+
+const addShape = (path: Path2D, shape: ArenaShape) => {
+  if (shape.kind === 'rect') {
+    path.rect(shape.x, shape.y, shape.width, shape.height);
+  } else {
+    path.moveTo(shape.x + shape.radius, shape.y);
+    path.arc(shape.x, shape.y, shape.radius, 0, 2 * Math.PI);
+  }
+};
+
+export const fillArenaShapes = (ctx: Context2D, shapes: ArenaShape[], color: string) => {
+  if (shapes.length === 0) return;
+  const path = new Path2D();
+  shapes.forEach(shape => addShape(path, shape));
+  ctx.fillStyle = color;
+  ctx.fill(path);
+};
+
+/** Draw a fresh canvas for the match's arena: background, zones, walls and holes. */
+export const drawArena = (ctx: Context2D, settings: GameSettings) => {
+  const { canvasWidth, canvasHeight, arena, teams } = settings;
+  ctx.fillStyle = ARENA_COLORS.background;
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+  fillArenaShapes(ctx, arena.bonusZones, ARENA_COLORS.bonus);
+  for (const team of teams) {
+    fillArenaShapes(ctx, arena.prePainted.filter(zone => zone.team === team.id).map(zone => zone.shape), team.color);
+  }
+  fillArenaShapes(ctx, arena.holes, ARENA_COLORS.hole);
+  fillArenaShapes(ctx, arena.walls, ARENA_COLORS.wall);
+};
+
+/**
+ * Clip region covering everything but the arena's walls and holes, so paint
+ * drawn over them leaves them showing. Null when the whole canvas is paintable.
+ */
+export const paintableClip = ({ canvasWidth, canvasHeight, arena }: GameSettings): Path2D | null => {
+  const blocked = blockedShapes(arena);
+  if (blocked.length === 0) return null;
+
+  const path = new Path2D();
+  path.rect(0, 0, canvasWidth, canvasHeight);
+  blocked.forEach(shape => addShape(path, shape));
+  return path;
+};
+
+/** Fill a brush circle in `color`, kept off the arena's walls and holes by `clip`. */
+export const fillPaint = (
+  ctx: Context2D,
+  clip: Path2D | null,
+  x: number,
+  y: number,
+  radius: number,
+  color: string
+) => {
+  ctx.save();
+  if (clip) ctx.clip(clip, 'evenodd');
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.restore();
+};
+
+// What the simulation paints, as it is queued for a layer that may live in a worker
+export type PaintCommand =
+  | { kind: 'arena' }
+  | { kind: 'circle'; x: number; y: number; radius: number; team: Team }
+  | { kind: 'swap'; x: number; y: number; radius: number; teams: [Team, Team] };
+
+/** Bind a paint layer's context to the match, returning a function that draws one command. */
+export const createPaintLayer = (ctx: Context2D, settings: GameSettings) => {
+  const clip = paintableClip(settings);
+  const colors = teamColors(settings);
+
+  return (command: PaintCommand) => {
+    switch (command.kind) {
+      case 'arena':
+        drawArena(ctx, settings);
+        break;
+      case 'circle':
+        // Clean, solid paint with defined edges
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.globalAlpha = 1.0;
+        fillPaint(ctx, clip, command.x, command.y, command.radius, colors[command.team]);
+        break;
+      case 'swap':
+        swapTeamColors(ctx, command.x, command.y, command.radius, [colors[command.teams[0]], colors[command.teams[1]]]);
+        break;
+    }
+  };
+};
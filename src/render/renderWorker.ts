@@ -0,0 +1,46 @@
+import { GameSettings } from '../types/game';
+import { drawEntities, EntityScene } from './entityLayer';
+import { createPaintLayer, PaintCommand } from './paintLayer';
+
+// Draws the paint and entity layers off the main thread, on canvases the page
+// handed over with transferControlToOffscreen. The page sends one message per
+// animation frame; the browser shows whatever was drawn by the end of it.
+export type RenderWorkerMessage =
+  | {
+      type: 'init';
+      paint: OffscreenCanvas;
+      entities: OffscreenCanvas;
+      settings: GameSettings;
+      pixelRatio: number;
+    }
+  | {
+      type: 'frame';
+      time: number;
+      commands: PaintCommand[];
+      // Null when the scene hasn't changed since the last frame
+      scene: EntityScene | null;
+    };
+
+let paint: ((command: PaintCommand) => void) | null = null;
+let entities: OffscreenCanvasRenderingContext2D | null = null;
+let settings: GameSettings | null = null;
+let scene: EntityScene | null = null;
+
+self.addEventListener('message', (event: MessageEvent<RenderWorkerMessage>) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    settings = message.settings;
+    const paintContext = message.paint.getContext('2d');
+    paint = paintContext && createPaintLayer(paintContext, settings);
+    entities = message.entities.getContext('2d');
+    entities?.setTransform(message.pixelRatio, 0, 0, message.pixelRatio, 0, 0);
+    return;
+  }
+
+  message.commands.forEach(command => paint?.(command));
+  scene = message.scene ?? scene;
+  if (entities && settings && scene) {
+    drawEntities(entities, settings, scene, message.time);
+  }
+});
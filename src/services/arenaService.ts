@@ -0,0 +1,70 @@
+import { ArenaDefinition } from '../types/game';
+import { GAME_SETTINGS } from '../config/gameConfig';
+import { parseArena } from '../engine/arena';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+export interface SaveArenaResponse {
+  success: boolean;
+  arena?: ArenaDefinition;
+  error?: string;
+}
+
+export interface GetArenaResponse {
+  success: boolean;
+  arena?: ArenaDefinition;
+  creatorName?: string;
+  error?: string;
+}
+
+async function callArenas<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/arenas`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  return response.json();
+}
+
+// Arenas from the server go through the same check the server applies, so
+// both sides build identical match settings from them
+const withParsedArena = <T extends { success: boolean; arena?: ArenaDefinition; error?: string }>(response: T): T => {
+  if (!response.success || !response.arena) return response;
+
+  const arena = parseArena(response.arena, GAME_SETTINGS);
+  return arena ? { ...response, arena } : { ...response, success: false, error: 'The server sent an unplayable arena' };
+};
+
+/** Save an arena from the editor. The saved arena comes back under its shareable id. */
+export async function saveArena(arena: ArenaDefinition): Promise<SaveArenaResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return withParsedArena(await callArenas<SaveArenaResponse>({ action: 'save', sessionToken, arena }));
+  } catch (error) {
+    console.error('Error saving arena:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/** A saved arena, e.g. from a shared link. */
+export async function getArena(arenaId: string): Promise<GetArenaResponse> {
+  try {
+    return withParsedArena(await callArenas<GetArenaResponse>({ action: 'get', arenaId }));
+  } catch (error) {
+    console.error('Error loading arena:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+export const getArenaLink = (arenaId: string) =>
+  `${window.location.origin}${window.location.pathname}?arena=${encodeURIComponent(arenaId)}`;
@@ -3,13 +3,11 @@ import { CONTRACT_ABIS } from '../config/gameConfig';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
 
 export interface RecordScoreRequest {
-  walletAddress: string;
-  score: number;
-  contractAddress: string;
-  playerName: string;
-  signer: ethers.JsonRpcSigner;
+  // A match verify-match accepted for the signed-in player
+  matchId: string;
 }
 
 export interface RecordScoreResponse {
@@ -17,14 +15,14 @@ export interface RecordScoreResponse {
   transactionHash?: string;
   blockNumber?: number;
   gasUsed?: string;
+  score?: number;
   error?: string;
   details?: string;
 }
 
 export interface GetClaimSignatureRequest {
-  walletAddress: string;
-  rewardAmount: number;
-  playerName?: string;
+  // A token prize the roulette function rolled for the signed-in player
+  spinId: string;
 }
 
 export interface GetClaimSignatureResponse {
@@ -120,151 +118,35 @@ function isFarcasterWallet(signer: any): boolean {
   }
 }
 
-export async function recordScoreOnChain(
+/**
+ * Record a verified match's score on-chain. The server looks the score up
+ * from its own replay of the match and sends it from the admin wallet, once
+ * per match.
+ */
+export async function recordScore(
   request: RecordScoreRequest
 ): Promise<RecordScoreResponse> {
-  try {
-    const { walletAddress, score, contractAddress, playerName, signer } = request;
-
-    // Validate inputs
-    if (!walletAddress || score === undefined || !contractAddress || !playerName || !signer) {
-      return {
-        success: false,
-        error: 'Missing required fields: walletAddress, score, contractAddress, playerName, signer'
-      };
-    }
-
-    if (score < 0 || score > 100) {
-      return {
-        success: false,
-        error: 'Score must be between 0 and 100'
-      };
-    }
-
-    // Validate contract address format
-    if (!ethers.isAddress(contractAddress)) {
-      return {
-        success: false,
-        error: 'Invalid contract address format'
-      };
-    }
-
-    // Verify signer address matches the provided wallet address
-    const signerAddress = await signer.getAddress();
-    if (signerAddress.toLowerCase() !== walletAddress.toLowerCase()) {
-      return {
-        success: false,
-        error: 'Signer address does not match wallet address'
-      };
-    }
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
 
-    console.log('Recording score on-chain:', {
-      walletAddress: signerAddress,
-      score,
-      contractAddress,
-      playerName
+  try {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/record-score`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...request, sessionToken }),
     });
 
-    // Detect if we're using Farcaster wallet BEFORE making any calls
-    const isFarcaster = isFarcasterWallet(signer);
-    console.log('Using Farcaster wallet:', isFarcaster);
-
-    // Create contract instance with user's signer
-    const contract = new ethers.Contract(
-      contractAddress,
-      CONTRACT_ABIS.SCORE_RECORDER,
-      signer
-    );
-
-    // Fetch current recording fee from contract (skip for Farcaster)
-    let feeInWei: bigint;
-    if (isFarcaster) {
-      console.log('Farcaster wallet detected - using default fee of 0.00001 ETH');
-      feeInWei = ethers.parseEther('0.00001');
-    } else {
-      try {
-        feeInWei = await contract.getRecordingFee();
-        console.log('Recording fee from contract:', ethers.formatEther(feeInWei), 'ETH');
-      } catch (feeError: any) {
-        console.error('Failed to fetch recording fee:', feeError);
-
-        // Fallback to default if any error occurs
-        console.log('Using default fee of 0.00001 ETH as fallback');
-        feeInWei = ethers.parseEther('0.00001');
-      }
-    }
-
-    // Skip gas estimation for Farcaster wallet
-    if (!isFarcaster) {
-      try {
-        const gasEstimate = await contract.recordScore.estimateGas(score, playerName, { value: feeInWei });
-        console.log('Estimated gas:', gasEstimate.toString());
-      } catch (estimateError: any) {
-        console.error('Gas estimation failed:', estimateError?.message);
-        // For non-Farcaster wallets, this might indicate a real problem
-        return {
-          success: false,
-          error: 'Transaction would fail - contract may not be deployed or configured correctly',
-          details: estimateError instanceof Error ? estimateError.message : String(estimateError)
-        };
-      }
-    } else {
-      console.log('Skipping gas estimation for Farcaster wallet');
-    }
-
-    // Send transaction with ETH fee (user pays gas + fee)
-    // For Farcaster wallet, we provide explicit gas parameters
-    const txParams: any = {
-      value: feeInWei
-    };
-
-    if (isFarcaster) {
-      console.log('Adding explicit gas parameters for Farcaster wallet');
-      txParams.gasLimit = 500000; // Increased gas limit for array operations in recordScore
-    }
-
-    const tx = await contract.recordScore(score, playerName, txParams);
-    console.log('Transaction sent:', tx.hash, 'with fee:', ethers.formatEther(feeInWei), 'ETH');
-
-    // For Farcaster wallet, don't wait for receipt (eth_getTransactionReceipt not supported)
-    if (isFarcaster) {
-      console.log('Farcaster wallet - returning immediately without waiting for receipt');
-      return {
-        success: true,
-        transactionHash: tx.hash,
-        blockNumber: undefined,
-        gasUsed: undefined
-      };
-    }
-
-    const receipt = await tx.wait();
-    console.log('Transaction confirmed:', receipt.hash, 'Block:', receipt.blockNumber);
-
-    return {
-      success: true,
-      transactionHash: receipt.hash,
-      blockNumber: receipt.blockNumber,
-      gasUsed: receipt.gasUsed.toString()
-    };
-
+    return await response.json();
   } catch (error) {
     console.error('Error recording score on-chain:', error);
-
-    let errorMessage = 'Failed to record score on-chain';
-
-    if (error instanceof Error) {
-      if (error.message.includes('user rejected')) {
-        errorMessage = 'Transaction was rejected by user';
-      } else if (error.message.includes('insufficient funds')) {
-        errorMessage = 'Insufficient funds for gas fees';
-      } else if (error.message.includes('network')) {
-        errorMessage = 'Network error - please check your connection';
-      }
-    }
-
     return {
       success: false,
-      error: errorMessage,
+      error: 'Failed to record score on-chain',
       details: error instanceof Error ? error.message : String(error)
     };
   }
@@ -273,6 +155,11 @@ export async function recordScoreOnChain(
 export async function getClaimSignature(
   request: GetClaimSignatureRequest
 ): Promise<GetClaimSignatureResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
   try {
     const apiUrl = `${SUPABASE_URL}/functions/v1/distribute-reward`;
 
@@ -285,7 +172,7 @@ export async function getClaimSignature(
         'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(request),
+      body: JSON.stringify({ ...request, sessionToken }),
       signal: controller.signal
     });
 
@@ -0,0 +1,106 @@
+import { MatchLog } from '../types/game';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+export interface Challenge {
+  id: string;
+  challengerName: string;
+  challengerScore: number;
+  isCompleted: boolean;
+}
+
+export interface SentChallenge {
+  id: string;
+  challengerScore: number;
+  opponentName: string | null;
+  opponentScore: number | null;
+  ghostScore: number | null;
+  winner: 'challenger' | 'opponent' | 'draw' | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface CreateChallengeResponse {
+  success: boolean;
+  challengeId?: string;
+  error?: string;
+}
+
+export interface GetChallengeResponse {
+  success: boolean;
+  challenge?: Challenge;
+  error?: string;
+}
+
+export interface ListChallengesResponse {
+  success: boolean;
+  challenges?: SentChallenge[];
+  error?: string;
+}
+
+async function callChallenges<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/challenges`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  return response.json();
+}
+
+/**
+ * Turn a verified match against the bot into a challenge. The log is sent
+ * as it was for the match submission; the server replays it once more and
+ * keeps the player's strokes as the ghost a friend will race.
+ */
+export async function createChallenge(matchId: string, log: MatchLog): Promise<CreateChallengeResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callChallenges<CreateChallengeResponse>({
+      action: 'create',
+      sessionToken,
+      matchId,
+      payload: JSON.stringify(log),
+    });
+  } catch (error) {
+    console.error('Error creating challenge:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/** Public details of a challenge, shown before it is accepted. */
+export async function getChallenge(challengeId: string): Promise<GetChallengeResponse> {
+  try {
+    return await callChallenges<GetChallengeResponse>({ action: 'get', challengeId });
+  } catch (error) {
+    console.error('Error loading challenge:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/** Challenges the signed-in player has sent, newest first. */
+export async function listChallenges(): Promise<ListChallengesResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callChallenges<ListChallengesResponse>({ action: 'list', sessionToken });
+  } catch (error) {
+    console.error('Error loading challenges:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+export const getChallengeLink = (challengeId: string) =>
+  `${window.location.origin}${window.location.pathname}?challenge=${encodeURIComponent(challengeId)}`;
@@ -0,0 +1,60 @@
+import { BotPersonality, DifficultyLevel, GameResult } from '../types/game';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+export interface DailyChallenge {
+  date: string;          // UTC day, YYYY-MM-DD
+  arenaId: string;
+  difficulty: DifficultyLevel;
+  botPersonality: BotPersonality;
+}
+
+export interface DailyLeaderboardEntry {
+  rank: number;
+  name: string;
+  score: number;
+  winner: GameResult['winner'];
+  isYou: boolean;
+}
+
+export interface DailyStanding {
+  rank: number;
+  score: number;
+  winner: GameResult['winner'];
+}
+
+export interface GetDailyChallengeResponse {
+  success: boolean;
+  challenge?: DailyChallenge;
+  leaderboard?: DailyLeaderboardEntry[];
+  totalPlayers?: number;
+  hasPlayed?: boolean;
+  standing?: DailyStanding | null;
+  error?: string;
+}
+
+/**
+ * Today's daily challenge and its leaderboard. Signed-in players also learn
+ * whether they have used their attempt and where their result ranks.
+ */
+export async function getDailyChallenge(): Promise<GetDailyChallengeResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY) ?? undefined;
+
+  try {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/daily-challenge`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action: 'get', sessionToken }),
+    });
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error loading daily challenge:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
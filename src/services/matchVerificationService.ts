@@ -0,0 +1,145 @@
+import { BotPersonality, DifficultyChoice, DifficultyLevel, GameResult, MatchLog, Team, TeamMode } from '../types/game';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+export interface MatchTicketResponse {
+  success: boolean;
+  matchId?: string;
+  seed?: number;
+  team?: Team;
+  difficulty?: DifficultyLevel;
+  botRating?: number;
+  arenaId?: string;
+  teamMode?: TeamMode;
+  matchLength?: number;
+  suddenDeath?: boolean;
+  brushPhysics?: boolean;
+  botPersonality?: BotPersonality;
+  ghostInputs?: number[];
+  error?: string;
+}
+
+export interface MatchTicketOptions {
+  lobbyId?: string;
+  challengeId?: string;
+  daily?: boolean;
+  tournamentId?: string;
+  difficulty?: DifficultyChoice;
+  arena?: string;
+  teamMode?: TeamMode;
+  matchLength?: number;
+  suddenDeath?: boolean;
+  brushPhysics?: boolean;
+}
+
+export interface VerifyMatchResponse {
+  success: boolean;
+  verified?: boolean;
+  result?: GameResult;
+  rouletteKeysAwarded?: number;
+  rating?: { rating: number; change: number } | null;
+  // A PvP result waits for the opponent's log
+  pending?: boolean;
+  // ...and is voided if it never comes in
+  voided?: boolean;
+  error?: string;
+  details?: string;
+}
+
+async function callVerifyMatch<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/verify-match`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  return response.json();
+}
+
+/**
+ * Ask the server for a match id and seed. The server picks the seed so a
+ * player cannot shop around for an easy bot. For a PvP lobby both players get
+ * the lobby's seed and the team they play. Accepting a challenge returns the
+ * challenge's seed together with the ghost's inputs. Solo matches are
+ * replayed at the difficulty, on the arena, in the team mode and with the
+ * match length, overtime and brush physics the ticket was issued for; an
+ * 'ADAPTIVE' ticket comes back with the rating its bot was sized for. A
+ * challenge keeps the arena, length, overtime and brush physics of the run
+ * it replays. A daily ticket carries
+ * the day's seed, arena, difficulty and bot personality, and each player gets
+ * one per day. A tournament ticket is for the player's pairing in the open
+ * round and carries the round's seed and the tournament's bot; each pairing
+ * can be played once.
+ */
+export async function requestMatchTicket(
+  { lobbyId, challengeId, daily, tournamentId, difficulty, arena, teamMode, matchLength, suddenDeath, brushPhysics }: MatchTicketOptions = {}
+): Promise<MatchTicketResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callVerifyMatch<MatchTicketResponse>({
+      action: 'start',
+      sessionToken,
+      lobbyId,
+      challengeId,
+      daily,
+      tournamentId,
+      difficulty,
+      arena,
+      teamMode,
+      matchLength,
+      suddenDeath,
+      brushPhysics,
+    });
+  } catch (error) {
+    console.error('Error requesting match ticket:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/** Upload the input log; the server re-simulates it before awarding anything. */
+export async function submitMatchLog(matchId: string, log: MatchLog): Promise<VerifyMatchResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callVerifyMatch<VerifyMatchResponse>({
+      action: 'submit',
+      sessionToken,
+      matchId,
+      payload: JSON.stringify(log),
+    });
+  } catch (error) {
+    console.error('Error submitting match log:', error);
+    return {
+      success: false,
+      error: 'Failed to verify match',
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/** A held PvP result, once the opponent's log is in; pending until then. */
+export async function fetchMatchResult(matchId: string): Promise<VerifyMatchResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callVerifyMatch<VerifyMatchResponse>({ action: 'result', sessionToken, matchId });
+  } catch (error) {
+    console.error('Error fetching match result:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
@@ -0,0 +1,47 @@
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+export interface PvpLobbyResponse {
+  success: boolean;
+  lobbyId?: string;
+  inviteCode?: string;
+  hostName?: string;
+  error?: string;
+}
+
+async function callPvpLobby(body: Record<string, unknown>): Promise<PvpLobbyResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/pvp-lobby`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, sessionToken }),
+    });
+
+    return await response.json();
+  } catch (error) {
+    console.error('PvP lobby request failed:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/** Open a lobby; the invite code is what goes in the invite link. */
+export async function createLobby(): Promise<PvpLobbyResponse> {
+  return callPvpLobby({ action: 'create' });
+}
+
+/** Take the guest seat in a lobby by its invite code. */
+export async function joinLobby(inviteCode: string): Promise<PvpLobbyResponse> {
+  return callPvpLobby({ action: 'join', inviteCode });
+}
+
+export const getInviteLink = (inviteCode: string) =>
+  `${window.location.origin}${window.location.pathname}?lobby=${encodeURIComponent(inviteCode)}`;
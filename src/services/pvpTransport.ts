@@ -0,0 +1,117 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { Team } from '../types/game';
+import { LockstepBatch } from '../engine/lockstep';
+
+// Every message carries the sender's team so a client can ignore its own
+export type PvpMessage =
+  | { type: 'hello'; team: Team; name: string; avatar?: string }
+  | { type: 'ready'; team: Team }
+  | { type: 'start'; team: Team }
+  | { type: 'inputs'; team: Team; batch: LockstepBatch }
+  | { type: 'leave'; team: Team };
+
+/**
+ * Message pipe between the two players of a lobby. Messages are delivered to
+ * the other side only, never echoed back.
+ */
+export interface PvpTransport {
+  send: (message: PvpMessage) => void;
+  onMessage: (handler: (message: PvpMessage) => void) => () => void;
+  close: () => void;
+}
+
+const createHandlerSet = () => {
+  const handlers = new Set<(message: PvpMessage) => void>();
+
+  return {
+    add: (handler: (message: PvpMessage) => void) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    emit: (message: PvpMessage) => handlers.forEach(handler => handler(message)),
+    clear: () => handlers.clear(),
+  };
+};
+
+/** Supabase Realtime broadcast channel shared by both players of a lobby. */
+export const createRealtimeTransport = (lobbyId: string): PvpTransport => {
+  const handlers = createHandlerSet();
+  const outbox: PvpMessage[] = [];
+  let isSubscribed = false;
+
+  const channel: RealtimeChannel = supabase.channel(`pvp:${lobbyId}`, {
+    config: { broadcast: { self: false, ack: false } },
+  });
+
+  const deliver = (message: PvpMessage) => {
+    channel.send({ type: 'broadcast', event: 'pvp', payload: message });
+  };
+
+  channel
+    .on('broadcast', { event: 'pvp' }, ({ payload }) => handlers.emit(payload as PvpMessage))
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        isSubscribed = true;
+        // Anything sent while connecting goes out in order
+        outbox.splice(0).forEach(deliver);
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('PvP channel error:', status);
+      }
+    });
+
+  return {
+    send: (message) => {
+      if (isSubscribed) {
+        deliver(message);
+      } else {
+        outbox.push(message);
+      }
+    },
+    onMessage: handlers.add,
+    close: () => {
+      handlers.clear();
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+/**
+ * In-memory stand-in for a realtime channel: two connected ends, with optional
+ * simulated latency. Useful for local development and for exercising the
+ * lockstep code without a network.
+ */
+export const createLocalTransportPair = (latencyMs = 0): [PvpTransport, PvpTransport] => {
+  const ends = [createHandlerSet(), createHandlerSet()];
+  const closed = [false, false];
+
+  const createEnd = (self: number): PvpTransport => {
+    const other = 1 - self;
+
+    return {
+      send: (message) => {
+        if (closed[self]) return;
+        // Copy like a real transport would, so neither side shares objects
+        const copy: PvpMessage = JSON.parse(JSON.stringify(message));
+        const deliver = () => {
+          if (!closed[other]) ends[other].emit(copy);
+        };
+
+        if (latencyMs > 0) {
+          setTimeout(deliver, latencyMs);
+        } else {
+          queueMicrotask(deliver);
+        }
+      },
+      onMessage: ends[self].add,
+      close: () => {
+        closed[self] = true;
+        ends[self].clear();
+      },
+    };
+  };
+
+  return [createEnd(0), createEnd(1)];
+};
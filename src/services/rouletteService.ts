@@ -0,0 +1,68 @@
+import { DifficultyLevel, RouletteReward } from '../types/game';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+export interface RouletteKeysResponse {
+  success: boolean;
+  keys?: number;
+  error?: string;
+}
+
+export interface RouletteSpinResponse {
+  success: boolean;
+  // Claims a token prize through distribute-reward
+  spinId?: string;
+  // The wheel segment it stopped on
+  rewardIndex?: number;
+  reward?: RouletteReward;
+  // The difficulty of the match the key came from, which set the odds
+  difficulty?: DifficultyLevel;
+  // Keys left after the spin, counting any it won
+  keys?: number;
+  error?: string;
+}
+
+async function callRoulette<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/roulette`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  return response.json();
+}
+
+/** The signed-in player's unspent keys, as the server counts them. */
+export async function fetchRouletteKeys(): Promise<RouletteKeysResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callRoulette<RouletteKeysResponse>({ action: 'keys', sessionToken });
+  } catch (error) {
+    console.error('Error loading roulette keys:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/** Spend a key on a spin. The server rolls the wheel; the screen only animates it. */
+export async function spinRoulette(): Promise<RouletteSpinResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callRoulette<RouletteSpinResponse>({ action: 'spin', sessionToken });
+  } catch (error) {
+    console.error('Error spinning the roulette:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
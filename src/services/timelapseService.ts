@@ -0,0 +1,196 @@
+import { MatchRecording, PaintRenderer, TeamDefinition } from '../types/game';
+import { getFrameAt, replayPaints } from '../engine/matchRecorder';
+import { drawArena, fillPaint, paintableClip, swapTeamColors, teamColors } from '../render/paintLayer';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+const TIMELAPSE_FPS = 30;
+const TIMELAPSE_PLAYBACK_MS = 3000;
+const TIMELAPSE_HOLD_MS = 1200;
+const TIMELAPSE_BITRATE = 1_500_000;
+// Room for each score on the right of the banner
+const RIVAL_SCORE_WIDTH = 72;
+
+const MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4',
+];
+
+export interface Timelapse {
+  blob: Blob;
+  mimeType: string;
+  extension: 'webm' | 'mp4';
+}
+
+export interface TimelapseUploadResponse {
+  success: boolean;
+  url?: string;
+  error?: string;
+}
+
+const pickMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+// The player team's score on the left, every other team's on the right
+const drawScoreBanner = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  teams: TeamDefinition[],
+  scores: Record<string, number>,
+  caption: string
+) => {
+  const [player, ...rivals] = teams;
+  ctx.fillStyle = 'rgba(51, 51, 51, 0.85)';
+  ctx.fillRect(0, 0, width, 56);
+
+  ctx.font = `900 ${rivals.length > 1 ? 22 : 28}px sans-serif`;
+  ctx.textBaseline = 'middle';
+
+  ctx.textAlign = 'left';
+  ctx.fillStyle = player.color;
+  ctx.fillText(`${scores[player.id]}%`, 16, 28);
+
+  ctx.textAlign = 'right';
+  rivals.forEach((rival, index) => {
+    ctx.fillStyle = rival.color;
+    ctx.fillText(`${scores[rival.id]}%`, width - 16 - (rivals.length - 1 - index) * RIVAL_SCORE_WIDTH, 28);
+  });
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = '900 18px sans-serif';
+  ctx.fillText(caption, width / 2, 28);
+};
+
+/**
+ * Render a short timelapse of a recorded match: the whole match squeezed into
+ * a few seconds of the canvas filling up, then a hold on the final score.
+ * MediaRecorder captures in real time, so this takes as long as the clip.
+ */
+export async function renderTimelapse(recording: MatchRecording): Promise<Timelapse> {
+  const mimeType = pickMimeType();
+  if (!mimeType) {
+    throw new Error('Video recording is not supported in this browser');
+  }
+
+  const { canvasWidth, canvasHeight } = recording.settings;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+
+  // The paint layer is incremental; a second canvas keeps the score banner
+  // from being painted over
+  const paintCanvas = document.createElement('canvas');
+  paintCanvas.width = canvasWidth;
+  paintCanvas.height = canvasHeight;
+  const paintCtx = paintCanvas.getContext('2d')!;
+  drawArena(paintCtx, recording.settings);
+  const clip = paintableClip(recording.settings);
+  const colors = teamColors(recording.settings);
+
+  const renderer: PaintRenderer = {
+    paintCircle: (x, y, radius, team) => fillPaint(paintCtx, clip, x, y, radius, colors[team]),
+    swapArea: (x, y, radius, [a, b]) => swapTeamColors(paintCtx, x, y, radius, [colors[a], colors[b]]),
+  };
+
+  const stream = canvas.captureStream(TIMELAPSE_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: TIMELAPSE_BITRATE });
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error('Video recording failed'));
+  });
+
+  const totalFrames = Math.ceil(((TIMELAPSE_PLAYBACK_MS + TIMELAPSE_HOLD_MS) / 1000) * TIMELAPSE_FPS);
+  const timeScale = recording.duration / TIMELAPSE_PLAYBACK_MS;
+  const regulation = recording.settings.timer * 1000;
+  let paintIndex = 0;
+
+  recorder.start();
+
+  for (let frame = 0; frame <= totalFrames; frame++) {
+    const clipTime = (frame / TIMELAPSE_FPS) * 1000;
+    const matchTime = Math.min(recording.duration, clipTime * timeScale);
+    const isFinal = matchTime >= recording.duration;
+
+    paintIndex = replayPaints(recording, paintIndex, matchTime, renderer);
+    ctx.drawImage(paintCanvas, 0, 0);
+
+    // The last frame holds the final scores
+    const { scores } = getFrameAt(recording, matchTime);
+    const caption = isFinal
+      ? 'COLOR CLASH'
+      : matchTime >= regulation ? 'OVERTIME' : `${Math.ceil((regulation - matchTime) / 1000)}s`;
+    drawScoreBanner(ctx, canvasWidth, recording.settings.teams, scores, caption);
+
+    await new Promise(resolve => setTimeout(resolve, 1000 / TIMELAPSE_FPS));
+  }
+
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+
+  return {
+    blob: new Blob(chunks, { type: mimeType }),
+    mimeType,
+    extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm',
+  };
+}
+
+/**
+ * Upload a timelapse so it can be embedded in a cast. Returns the public URL.
+ */
+export async function uploadTimelapse(matchId: string, timelapse: Timelapse): Promise<TimelapseUploadResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    const form = new FormData();
+    form.append('sessionToken', sessionToken);
+    form.append('matchId', matchId);
+    form.append('file', timelapse.blob, `${matchId}.${timelapse.extension}`);
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/upload-timelapse`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+      body: form,
+    });
+
+    return await response.json();
+  } catch (error) {
+    console.error('Timelapse upload failed:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/** Save a timelapse to the device, for when it cannot be embedded. */
+export function downloadTimelapse(matchId: string, timelapse: Timelapse) {
+  const url = URL.createObjectURL(timelapse.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `color-clash-${matchId}.${timelapse.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,133 @@
+import { BotPersonality, DifficultyLevel, TournamentFormat, TournamentStatus } from '../types/game';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const SESSION_TOKEN_KEY = 'colorclash_session_token';
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  entryOpensAt: string;
+  entryClosesAt: string;
+  roundMinutes: number;
+  totalRounds: number | null;
+  currentRound: number;
+  maxEntrants: number;
+  entrants: number;
+  arenaId: string;
+  difficulty: DifficultyLevel;
+  botPersonality: BotPersonality;
+  prizePool: number;     // whole $CC
+  prizeSplit: number[];  // percentages of the pool for 1st, 2nd, ...
+  payoutTxHash: string | null;
+  isEntered?: boolean;
+}
+
+export interface TournamentRound {
+  round: number;
+  startsAt: string;
+  endsAt: string;
+  isClosed: boolean;
+}
+
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  position: number;
+  playerA: string;
+  playerB: string | null;  // null for a bye
+  scoreA: number | null;
+  scoreB: number | null;
+  winner: 'a' | 'b' | null;
+  isSettled: boolean;
+  isYours: boolean;
+}
+
+export interface TournamentStandingEntry {
+  rank: number;
+  name: string;
+  points: number;
+  totalScore: number;
+  eliminatedRound: number | null;
+  prize: number | null;
+  isYou: boolean;
+}
+
+export interface ListTournamentsResponse {
+  success: boolean;
+  tournaments?: TournamentSummary[];
+  error?: string;
+}
+
+export interface GetTournamentResponse {
+  success: boolean;
+  tournament?: TournamentSummary;
+  rounds?: TournamentRound[];
+  matches?: TournamentMatch[];
+  standings?: TournamentStandingEntry[];
+  isEntered?: boolean;
+  playableMatchId?: string | null;
+  error?: string;
+}
+
+export interface JoinTournamentResponse {
+  success: boolean;
+  error?: string;
+}
+
+async function callTournaments<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/tournaments`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  return response.json();
+}
+
+/** Upcoming, running and past tournaments, latest entry window first. */
+export async function listTournaments(): Promise<ListTournamentsResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY) ?? undefined;
+
+  try {
+    return await callTournaments<ListTournamentsResponse>({ action: 'list', sessionToken });
+  } catch (error) {
+    console.error('Error loading tournaments:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/**
+ * A tournament's rounds, pairings and standings. Signed-in entrants also get
+ * the pairing they can play in the open round, if they have not played it.
+ */
+export async function getTournament(tournamentId: string): Promise<GetTournamentResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY) ?? undefined;
+
+  try {
+    return await callTournaments<GetTournamentResponse>({ action: 'get', sessionToken, tournamentId });
+  } catch (error) {
+    console.error('Error loading tournament:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
+
+/** Enter a tournament while its entry window is open. */
+export async function joinTournament(tournamentId: string): Promise<JoinTournamentResponse> {
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!sessionToken) {
+    return { success: false, error: 'Not signed in' };
+  }
+
+  try {
+    return await callTournaments<JoinTournamentResponse>({ action: 'join', sessionToken, tournamentId });
+  } catch (error) {
+    console.error('Error joining tournament:', error);
+    return { success: false, error: 'Could not reach the game server' };
+  }
+}
@@ -1,20 +1,216 @@
-export type GameState = 'home' | 'playing' | 'postGame' | 'roulette';
+export type GameState =
+  | 'home'
+  | 'lobby'
+  | 'challenge'
+  | 'playing'
+  | 'postGame'
+  | 'roulette'
+  | 'history'
+  | 'replay'
+  | 'arenaEditor'
+  | 'arenaTest'
+  | 'tournaments';
 
+// A side of a match: it paints in one color and scores its own coverage.
+// Every match has a 'player' team, the local player's, and a 'bot' team; team
+// modes add more (see config/teamModes.ts). In a PvP match the lobby host
+// plays the 'player' team and the guest the 'bot' team; results are stored
+// from the host's side.
+export type Team = string;
+
+// Which teams take part, and how many brushes each fields
+export type TeamMode = 'duel' | 'allies' | 'freeForAll';
+
+export interface TeamDefinition {
+  id: Team;
+  name: string;    // shown next to the team's score
+  color: string;   // paint color, as #RRGGBB
+  allies: number;  // built-in bots painting for the team besides its lead brush
+}
+
+// Who drives the 'bot' team's lead brush: the built-in bot, or inputs from
+// elsewhere (another player over the network, a recorded run). Every other
+// brush besides the player's own is always a built-in bot.
+export type OpponentKind = 'bot' | 'remote';
+
+// How the built-in bot plays; see engine/botStrategies.ts
+export type BotPersonality = 'classic' | 'floodFiller' | 'stealer' | 'powerUpHunter';
+
+// Bot difficulty presets a player can pick; see config/gameSettings.ts
+export type DifficultyLevel = 'EASY' | 'MEDIUM' | 'HARD' | 'EXPERT';
+
+// What the player asks for: a preset, or a bot sized to their skill rating
+export type DifficultyChoice = DifficultyLevel | 'ADAPTIVE';
+
+export interface SkillRating {
+  rating: number;
+  deviation: number; // Glicko rating deviation; lower means more certain
+}
+
+// 'voided' is a PvP match whose other log never came in: it counts for no one
+export type MatchVerificationStatus = 'pending' | 'verified' | 'rejected' | 'voided';
+
+// A result seen from the player's team. With more than two teams the player
+// wins only by beating every other team, and botScore is the best of theirs.
 export interface GameResult {
   playerScore: number;
   botScore: number;
   winner: 'player' | 'bot' | 'draw';
+  scores?: Record<Team, number>; // every team's score, as the engine reports it
+  difficulty?: DifficultyLevel; // Set for matches against the built-in bot
 }
 
+// Every kind of power-up; what each one does lives in engine/powerUps.ts
+export type PowerUpType =
+  | 'speedUp'
+  | 'paintSplat'
+  | 'enlarge'
+  | 'freeze'
+  | 'inkBomb'
+  | 'shield'
+  | 'colorSwap'
+  | 'magnet';
+
 export interface PowerUp {
   id: string;
-  type: 'speedUp' | 'paintSplat' | 'enlarge';
+  type: PowerUpType;
   x: number;
   y: number;
   collected: boolean;
   spawnTime: number;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Arena shapes are in canvas pixels
+export type ArenaShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { kind: 'circle'; x: number; y: number; radius: number };
+
+export interface PrePaintedZone {
+  team: Team;
+  shape: ArenaShape;
+}
+
+/**
+ * A map, as plain JSON. Walls and holes cannot be painted and do not count
+ * towards coverage - walls are drawn raised, holes sunken. Cells in a bonus
+ * zone count double. Pre-painted zones belong to a team from the first tick.
+ */
+export interface ArenaDefinition {
+  id: string;
+  name: string;
+  description: string;
+  walls: ArenaShape[];
+  holes: ArenaShape[];
+  bonusZones: ArenaShape[];
+  prePainted: PrePaintedZone[];
+  spawns: Record<Team, Point>; // 'player' and 'bot'; other teams start at fixed spots
+}
+
+// Timed effects a brush can be under
+export interface BrushEffects {
+  speedUp: boolean;
+  enlarge: boolean;
+  frozen: boolean;  // cannot paint (the bot cannot move either)
+  magnet: boolean;  // pulls nearby power-ups in
+}
+
+export type BrushEffect = keyof BrushEffects;
+
+// An area only its team can paint, e.g. from a shield
+export interface ProtectedZone {
+  id: string;
+  team: Team;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Percentage of the board each team owns
+export type Coverage = Record<Team, number>;
+
+// Draws what the simulation paints - the browser passes a canvas-backed one,
+// headless replays pass none
+export interface PaintRenderer {
+  paintCircle: (x: number, y: number, radius: number, team: Team) => void;
+  // Trade two teams' colors inside the circle
+  swapArea?: (x: number, y: number, radius: number, teams: [Team, Team]) => void;
+}
+
+// Ownership model the simulation scores from. It never reads pixels back, so
+// the server gets the same coverage as the client.
+export interface PaintSurface extends PaintRenderer {
+  getCoverage: () => Coverage;
+}
+
+export type SimulationInputType = 'pointerDown' | 'pointerMove' | 'pointerUp';
+
+export interface SimulationInput {
+  time: number; // ms since the match started
+  type: SimulationInputType;
+  x: number;
+  y: number;
+  team?: Team; // defaults to 'player'
+}
+
+export interface PowerUpPickup {
+  time: number;
+  team: Team;
+  powerUpId: string;
+}
+
+// Everything needed to re-simulate a match on the server. Inputs and pickups
+// are flattened number arrays to keep the upload small.
+export interface MatchLog {
+  version: number;
+  seed: number;
+  settings: GameSettings;
+  opponent: OpponentKind;
+  botPersonality: BotPersonality;
+  inputs: number[];   // [tick delta, input type, x, y, team] per input
+  pickups: number[];  // [tick, team, power-up index] per pickup
+  result: GameResult;
+}
+
+// What happened in a match, tick by tick, for playback. Unlike MatchLog it
+// does not need the engine to reproduce the match, so old recordings keep
+// playing after the bot or the rules change.
+export interface MatchRecording {
+  version: number;
+  id: string;
+  recordedAt: number;
+  settings: GameSettings;
+  seed: number;
+  duration: number;      // ms
+  result: GameResult;
+  frames: number[];      // [time, x and y of every brush, score of every team] per tick
+  paints: number[];      // [time, team, x, y, radius, team it swaps colors with or -1] per paint operation
+  powerUpEvents: number[]; // [time, event, index, type, x, y] per spawn/pickup/expiry
+}
+
+export interface BrushState {
+  team: Team;
+  position: Point;
+  isBot: boolean;   // moved by a built-in bot rather than by inputs
+}
+
+export interface SimulationState {
+  tick: number;
+  elapsed: number;        // ms of simulated time
+  timeLeft: number;       // ms left on the clock; of the overtime once it starts
+  isOvertime: boolean;
+  isFinished: boolean;
+  brushes: BrushState[];  // each team's lead brush, then its allies, in team order
+  effects: Record<Team, BrushEffects>; // a team's brushes share its effects
+  powerUps: PowerUp[];
+  zones: ProtectedZone[];
+  scores: Record<Team, number>; // whole percent
+}
+
 export interface RouletteReward {
   type: 'onChainToken' | 'inGameCurrency' | 'noReward';
   amount: number;
@@ -29,14 +225,38 @@ export interface BotDifficulty {
   powerUpSeekChance: number; // Probability (0-1) that bot will seek power-ups
 }
 
+// How strongly power-up effects act on a brush, for the player and the bot alike
+export interface PowerUpEffectSettings {
+  speedMultiplier: number; // a sped-up brush covers this many times the distance
+  maxStrokeCarry: number;  // px a sped-up pointer stroke may run on past the pointer
+  enlargeMultiplier: number;
+}
+
+// Sudden death: a match that ends with the top two teams within `margin`
+// whole percent keeps going until one of them pulls clear
+export interface OvertimeSettings {
+  enabled: boolean;
+  margin: number;    // whole percent the top two scores may differ by and still tie
+  maxLength: number; // s of overtime at most; the scores then stand as they are
+}
+
 export interface GameSettings {
-  timer: number;
+  timer: number;     // s of regulation time
   canvasWidth: number;
   canvasHeight: number;
   brushSize: number;
+  ownershipCellSize: number; // px per side of a scoring cell
   botSpeed: number;
+  // With brush physics a pointer-driven brush chases the pointer at up to
+  // brushSpeed px per tick (like the bot) instead of jumping to it
+  brushPhysics: boolean;
+  brushSpeed: number;
   powerUpDuration: number;
   powerUpSpawnInterval: number;
+  powerUpEffects: PowerUpEffectSettings;
+  overtime: OvertimeSettings;
+  arena: ArenaDefinition;
+  teams: TeamDefinition[]; // 'player' first; inputs for the same tick apply in this order
   dailyGameLimit: number;
   botDifficulty: BotDifficulty;
 }
@@ -50,7 +270,45 @@ export interface LeaderboardEntry {
   lastPlayed: number;
 }
 
+export interface RatingEntry {
+  address: string;
+  username?: string;
+  farcasterFid?: string;
+  rating: number;
+  ratedGames: number;
+}
+
 export interface DailyGameData {
   date: string;
   gamesPlayed: number;
-}
\ No newline at end of file
+}
+
+// Tournaments; pairing and ranking live in engine/tournament.ts
+export type TournamentFormat = 'bracket' | 'swiss';
+
+export type TournamentStatus = 'registration' | 'running' | 'completed' | 'finalized' | 'cancelled';
+
+export interface TournamentEntrant {
+  userId: string;
+  seedRank: number; // 1 is the top seed
+}
+
+// One pairing of a round. Both players play the round's seeded match against
+// the bot and the better verified score wins. playerB is null for a bye.
+export interface TournamentPairing {
+  round: number;
+  position: number;       // order within the round; brackets pair neighbours
+  playerA: string;
+  playerB: string | null;
+  scoreA: number | null;  // null until that player's match is verified
+  scoreB: number | null;
+  settled: boolean;       // the round has closed and no more scores count
+}
+
+export interface TournamentStanding {
+  userId: string;
+  rank: number;
+  points: number;      // Swiss: 1 per win or bye, 0.5 per draw. Bracket: rounds won
+  totalScore: number;  // sum of the player's verified scores, the first tiebreak
+  eliminatedRound: number | null; // bracket only
+}
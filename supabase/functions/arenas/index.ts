@@ -0,0 +1,151 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { parseArena } from "../../../src/engine/arena.ts";
+import { GAME_SETTINGS } from "../../../src/config/gameSettings.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Arenas a player may save per day, so the table cannot be flooded
+const MAX_ARENAS_PER_DAY = 10;
+
+interface ArenasRequest {
+  action: "save" | "get";
+  sessionToken?: string;
+  arenaId?: string;
+  arena?: unknown;
+}
+
+interface ProfileName {
+  username?: string | null;
+  wallet_address?: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const displayName = (profile: ProfileName | null) =>
+  profile?.username || profile?.wallet_address?.slice(0, 8) || "Someone";
+
+const getUserId = async (supabase: SupabaseClient, sessionToken?: string) => {
+  if (!sessionToken) return null;
+
+  const { data: session } = await supabase
+    .from("auth_sessions")
+    .select("user_id")
+    .eq("session_token", sessionToken)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return session?.user_id ?? null;
+};
+
+// Store an arena from the editor. The id it was drafted under is replaced by
+// the row's id, which is what links and match tickets refer to.
+const saveArena = async (supabase: SupabaseClient, userId: string, { arena }: ArenasRequest) => {
+  const parsed = parseArena(arena, GAME_SETTINGS);
+  if (!parsed) {
+    return jsonResponse({ success: false, error: "This arena is not playable" }, 422);
+  }
+
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const { count } = await supabase
+    .from("custom_arenas")
+    .select("id", { count: "exact", head: true })
+    .eq("creator_user_id", userId)
+    .gt("created_at", since);
+
+  if ((count ?? 0) >= MAX_ARENAS_PER_DAY) {
+    return jsonResponse({ success: false, error: "You have saved enough arenas for today" }, 429);
+  }
+
+  const { name, description, walls, holes, bonusZones, prePainted, spawns } = parsed;
+  const { data: saved, error } = await supabase
+    .from("custom_arenas")
+    .insert({
+      creator_user_id: userId,
+      name,
+      definition: { name, description, walls, holes, bonusZones, prePainted, spawns },
+    })
+    .select("id")
+    .single();
+
+  if (error || !saved) {
+    console.error("Arena save error:", error);
+    return jsonResponse({ success: false, error: "Failed to save arena" }, 500);
+  }
+
+  return jsonResponse({ success: true, arena: { ...parsed, id: saved.id } });
+};
+
+const getArena = async (supabase: SupabaseClient, arenaId?: string) => {
+  if (!arenaId) {
+    return jsonResponse({ success: false, error: "Missing required field: arenaId" }, 400);
+  }
+
+  const { data: row } = await supabase
+    .from("custom_arenas")
+    .select("id, definition, creator:user_profiles!custom_arenas_creator_user_id_fkey(username, wallet_address)")
+    .eq("id", arenaId)
+    .maybeSingle();
+
+  const arena = row && parseArena({ ...row.definition, id: row.id }, GAME_SETTINGS);
+  if (!arena) {
+    return jsonResponse({ success: false, error: "Arena not found" }, 404);
+  }
+
+  return jsonResponse({
+    success: true,
+    arena,
+    creatorName: displayName(row.creator as ProfileName | null),
+  });
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: ArenasRequest = await req.json();
+
+    if (!request.action) {
+      return jsonResponse({ success: false, error: "Missing required field: action" }, 400);
+    }
+
+    // Anyone with the link may look at an arena before signing in
+    if (request.action === "get") {
+      return await getArena(supabase, request.arenaId);
+    }
+
+    const userId = await getUserId(supabase, request.sessionToken);
+    if (!userId) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    if (request.action === "save") {
+      return await saveArena(supabase, userId, request);
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("Arenas error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Arena request failed",
+    }, 500);
+  }
+});
@@ -0,0 +1,285 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { isWellFormedLog, MATCH_LOG_VERSION, replayMatch } from "../../../src/engine/matchLog.ts";
+import { ghostInputsFromLog } from "../../../src/engine/ghost.ts";
+import { GAME_SETTINGS, settingsForMatch } from "../../../src/config/gameSettings.ts";
+import { arenaById } from "../../../src/config/arenas.ts";
+import { parseArena } from "../../../src/engine/arena.ts";
+import type { ArenaDefinition, MatchLog } from "../../../src/types/game.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const MAX_LISTED_CHALLENGES = 20;
+
+interface ChallengesRequest {
+  action: "create" | "get" | "list";
+  sessionToken?: string;
+  challengeId?: string;
+  matchId?: string;
+  payload?: string;
+}
+
+interface ProfileName {
+  username?: string | null;
+  wallet_address?: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const displayName = (profile: ProfileName | null) =>
+  profile?.username || profile?.wallet_address?.slice(0, 8) || "Someone";
+
+// A built-in arena, or one saved from the arena editor
+const loadArena = async (supabase: SupabaseClient, arenaId: string): Promise<ArenaDefinition | null> => {
+  const builtIn = arenaById(arenaId);
+  if (builtIn) return builtIn;
+
+  const { data: row } = await supabase
+    .from("custom_arenas")
+    .select("id, definition")
+    .eq("id", arenaId)
+    .maybeSingle();
+
+  return row ? parseArena({ ...row.definition, id: row.id }, GAME_SETTINGS) : null;
+};
+
+const getUserId = async (supabase: SupabaseClient, sessionToken?: string) => {
+  if (!sessionToken) return null;
+
+  const { data: session } = await supabase
+    .from("auth_sessions")
+    .select("user_id")
+    .eq("session_token", sessionToken)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return session?.user_id ?? null;
+};
+
+// Turn one of the player's own verified solo matches into a challenge. The
+// log is replayed again so the ghost is exactly the run that was verified.
+const createChallenge = async (
+  supabase: SupabaseClient,
+  userId: string,
+  { matchId, payload }: ChallengesRequest,
+) => {
+  if (!matchId || !payload) {
+    return jsonResponse({ success: false, error: "Missing required fields: matchId, payload" }, 400);
+  }
+
+  const { data: existing } = await supabase
+    .from("challenges")
+    .select("id")
+    .eq("source_match_id", matchId)
+    .eq("challenger_user_id", userId)
+    .maybeSingle();
+
+  if (existing) {
+    return jsonResponse({ success: true, challengeId: existing.id });
+  }
+
+  const { data: ticket } = await supabase
+    .from("match_tickets")
+    .select("id, seed, lobby_id, challenge_id, daily_date, tournament_match_id, consumed_at, difficulty, bot_rating, arena_id, team_mode, match_length, sudden_death, brush_physics")
+    .eq("id", matchId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!ticket || !ticket.consumed_at || ticket.lobby_id || ticket.challenge_id) {
+    return jsonResponse({ success: false, error: "Only your own matches against the bot can become challenges" }, 422);
+  }
+
+  // A ghost of a daily or tournament run would let others rehearse its seed
+  if (ticket.daily_date || ticket.tournament_match_id) {
+    return jsonResponse({ success: false, error: "Daily challenge and tournament runs cannot become challenges" }, 422);
+  }
+
+  // A ghost stands in for a single bot
+  if (ticket.team_mode) {
+    return jsonResponse({ success: false, error: "Only one-on-one matches can become challenges" }, 422);
+  }
+
+  const { data: session } = await supabase
+    .from("game_sessions")
+    .select("player_score, bot_score")
+    .eq("match_id", matchId)
+    .eq("verified", true)
+    .maybeSingle();
+
+  if (!session) {
+    return jsonResponse({ success: false, error: "Match has not been verified" }, 422);
+  }
+
+  let log: MatchLog;
+  try {
+    log = JSON.parse(payload);
+  } catch {
+    return jsonResponse({ success: false, error: "Malformed match log" }, 400);
+  }
+
+  const arena = ticket.arena_id ? await loadArena(supabase, ticket.arena_id) : null;
+  if (ticket.arena_id && !arena) {
+    return jsonResponse({ success: false, error: "This match's arena no longer exists" }, 422);
+  }
+
+  const settings = settingsForMatch({
+    difficulty: ticket.difficulty,
+    botRating: ticket.bot_rating,
+    arena,
+    matchLength: ticket.match_length,
+    suddenDeath: ticket.sudden_death,
+    brushPhysics: ticket.brush_physics,
+  });
+
+  if (!isWellFormedLog(log, settings)) {
+    return jsonResponse({ success: false, error: "Malformed match log" }, 400);
+  }
+
+  if (log.version !== MATCH_LOG_VERSION || log.seed !== Number(ticket.seed) || log.opponent !== "bot") {
+    return jsonResponse({ success: false, error: "Match log does not match the verified match" }, 422);
+  }
+
+  let replay;
+  try {
+    replay = replayMatch(log, settings);
+  } catch (error) {
+    console.error("Replay failed:", error);
+    return jsonResponse({ success: false, error: "Match log could not be replayed" }, 422);
+  }
+
+  if (replay.result.playerScore !== session.player_score || replay.result.botScore !== session.bot_score) {
+    return jsonResponse({ success: false, error: "Match log does not match the verified match" }, 422);
+  }
+
+  const { data: challenge, error } = await supabase
+    .from("challenges")
+    .insert({
+      challenger_user_id: userId,
+      source_match_id: matchId,
+      seed: ticket.seed,
+      ghost_inputs: ghostInputsFromLog(log),
+      challenger_score: session.player_score,
+      arena_id: ticket.arena_id,
+      match_length: ticket.match_length,
+      sudden_death: ticket.sudden_death,
+      brush_physics: ticket.brush_physics,
+    })
+    .select("id")
+    .single();
+
+  if (error || !challenge) {
+    console.error("Challenge creation error:", error);
+    return jsonResponse({ success: false, error: "Failed to create challenge" }, 500);
+  }
+
+  return jsonResponse({ success: true, challengeId: challenge.id });
+};
+
+const getChallenge = async (supabase: SupabaseClient, challengeId?: string) => {
+  if (!challengeId) {
+    return jsonResponse({ success: false, error: "Missing required field: challengeId" }, 400);
+  }
+
+  const { data: challenge } = await supabase
+    .from("challenges")
+    .select("id, challenger_score, completed_at, challenger:user_profiles!challenges_challenger_user_id_fkey(username, wallet_address)")
+    .eq("id", challengeId)
+    .maybeSingle();
+
+  if (!challenge) {
+    return jsonResponse({ success: false, error: "Challenge not found" }, 404);
+  }
+
+  return jsonResponse({
+    success: true,
+    challenge: {
+      id: challenge.id,
+      challengerName: displayName(challenge.challenger as ProfileName | null),
+      challengerScore: challenge.challenger_score,
+      isCompleted: !!challenge.completed_at,
+    },
+  });
+};
+
+const listChallenges = async (supabase: SupabaseClient, userId: string) => {
+  const { data: challenges, error } = await supabase
+    .from("challenges")
+    .select("id, challenger_score, opponent_score, ghost_score, winner, created_at, completed_at, opponent:user_profiles!challenges_opponent_user_id_fkey(username, wallet_address)")
+    .eq("challenger_user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_LISTED_CHALLENGES);
+
+  if (error) {
+    console.error("Challenge list error:", error);
+    return jsonResponse({ success: false, error: "Failed to load challenges" }, 500);
+  }
+
+  return jsonResponse({
+    success: true,
+    challenges: (challenges ?? []).map((challenge) => ({
+      id: challenge.id,
+      challengerScore: challenge.challenger_score,
+      opponentName: challenge.opponent ? displayName(challenge.opponent as ProfileName) : null,
+      opponentScore: challenge.opponent_score,
+      ghostScore: challenge.ghost_score,
+      winner: challenge.winner,
+      createdAt: challenge.created_at,
+      completedAt: challenge.completed_at,
+    })),
+  });
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: ChallengesRequest = await req.json();
+
+    if (!request.action) {
+      return jsonResponse({ success: false, error: "Missing required field: action" }, 400);
+    }
+
+    // Anyone with the link may look at a challenge before signing in
+    if (request.action === "get") {
+      return await getChallenge(supabase, request.challengeId);
+    }
+
+    const userId = await getUserId(supabase, request.sessionToken);
+    if (!userId) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    if (request.action === "create") {
+      return await createChallenge(supabase, userId, request);
+    }
+
+    if (request.action === "list") {
+      return await listChallenges(supabase, userId);
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("Challenges error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Challenge request failed",
+    }, 500);
+  }
+});
@@ -0,0 +1,205 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { BOT_PERSONALITIES } from "../../../src/engine/botStrategies.ts";
+import { DIFFICULTY_LEVELS } from "../../../src/config/gameSettings.ts";
+import { ARENAS } from "../../../src/config/arenas.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const DAILY_LEADERBOARD_SIZE = 50;
+
+interface DailyChallengeRequest {
+  action: "get";
+  sessionToken?: string;
+}
+
+interface DailyChallengeRow {
+  challenge_date: string;
+  arena_id: string;
+  difficulty: string;
+  bot_personality: string;
+}
+
+interface ProfileName {
+  username?: string | null;
+  wallet_address?: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const displayName = (profile: ProfileName | null) =>
+  profile?.username || profile?.wallet_address?.slice(0, 8) || "Someone";
+
+const getUserId = async (supabase: SupabaseClient, sessionToken?: string) => {
+  if (!sessionToken) return null;
+
+  const { data: session } = await supabase
+    .from("auth_sessions")
+    .select("user_id")
+    .eq("session_token", sessionToken)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return session?.user_id ?? null;
+};
+
+// Days roll over at midnight UTC, like the daily game limit
+const todayUtc = () => new Date().toISOString().slice(0, 10);
+
+const pick = <T>(options: T[]): T =>
+  options[crypto.getRandomValues(new Uint32Array(1))[0] % options.length];
+
+// The first request of the day draws its seed, arena and bot. Concurrent
+// requests may both draw; only the first insert is kept.
+const ensureDailyChallenge = async (supabase: SupabaseClient, date: string): Promise<DailyChallengeRow | null> => {
+  const columns = "challenge_date, arena_id, difficulty, bot_personality";
+
+  const { data: existing } = await supabase
+    .from("daily_challenges")
+    .select(columns)
+    .eq("challenge_date", date)
+    .maybeSingle<DailyChallengeRow>();
+
+  if (existing) return existing;
+
+  const { error } = await supabase
+    .from("daily_challenges")
+    .upsert({
+      challenge_date: date,
+      seed: crypto.getRandomValues(new Uint32Array(1))[0],
+      arena_id: pick(ARENAS).id,
+      difficulty: pick(DIFFICULTY_LEVELS),
+      bot_personality: pick(BOT_PERSONALITIES),
+    }, { onConflict: "challenge_date", ignoreDuplicates: true });
+
+  if (error) {
+    console.error("Daily challenge creation error:", error);
+    return null;
+  }
+
+  const { data: created } = await supabase
+    .from("daily_challenges")
+    .select(columns)
+    .eq("challenge_date", date)
+    .maybeSingle<DailyChallengeRow>();
+
+  return created;
+};
+
+// The player's place on the day's leaderboard; ties go to whoever finished first
+const playerStanding = async (supabase: SupabaseClient, date: string, userId: string) => {
+  const { data: result } = await supabase
+    .from("daily_results")
+    .select("player_score, winner, created_at")
+    .eq("challenge_date", date)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!result) return null;
+
+  const { count } = await supabase
+    .from("daily_results")
+    .select("id", { count: "exact", head: true })
+    .eq("challenge_date", date)
+    .or(`player_score.gt.${result.player_score},and(player_score.eq.${result.player_score},created_at.lt."${result.created_at}")`);
+
+  return { rank: (count ?? 0) + 1, score: result.player_score, winner: result.winner };
+};
+
+const getDailyChallenge = async (supabase: SupabaseClient, userId: string | null) => {
+  const date = todayUtc();
+  const challenge = await ensureDailyChallenge(supabase, date);
+  if (!challenge) {
+    return jsonResponse({ success: false, error: "Failed to load today's challenge" }, 500);
+  }
+
+  const { data: results, count, error } = await supabase
+    .from("daily_results")
+    .select("user_id, player_score, winner, player:user_profiles!daily_results_user_id_fkey(username, wallet_address)", { count: "exact" })
+    .eq("challenge_date", date)
+    .order("player_score", { ascending: false })
+    .order("created_at", { ascending: true })
+    .limit(DAILY_LEADERBOARD_SIZE);
+
+  if (error) {
+    console.error("Daily leaderboard error:", error);
+    return jsonResponse({ success: false, error: "Failed to load the daily leaderboard" }, 500);
+  }
+
+  // A ticket counts as the day's attempt even before its result is in
+  let hasPlayed = false;
+  let standing = null;
+  if (userId) {
+    const { data: ticket } = await supabase
+      .from("match_tickets")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("daily_date", date)
+      .maybeSingle();
+
+    hasPlayed = !!ticket;
+    standing = await playerStanding(supabase, date, userId);
+  }
+
+  return jsonResponse({
+    success: true,
+    challenge: {
+      date: challenge.challenge_date,
+      arenaId: challenge.arena_id,
+      difficulty: challenge.difficulty,
+      botPersonality: challenge.bot_personality,
+    },
+    leaderboard: (results ?? []).map((result, index) => ({
+      rank: index + 1,
+      name: displayName(result.player as ProfileName | null),
+      score: result.player_score,
+      winner: result.winner,
+      isYou: result.user_id === userId,
+    })),
+    totalPlayers: count ?? 0,
+    hasPlayed,
+    standing,
+  });
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: DailyChallengeRequest = await req.json();
+
+    if (!request.action) {
+      return jsonResponse({ success: false, error: "Missing required field: action" }, 400);
+    }
+
+    // Anyone may look at today's challenge; signed-in players also get their rank
+    if (request.action === "get") {
+      return await getDailyChallenge(supabase, await getUserId(supabase, request.sessionToken));
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("Daily challenge error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Daily challenge request failed",
+    }, 500);
+  }
+});
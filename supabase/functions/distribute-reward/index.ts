@@ -1,4 +1,5 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
 import { ethers } from "npm:ethers@6.15.0";
 
 const corsHeaders = {
@@ -7,6 +8,20 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+interface ClaimProfile {
+  wallet_address: string | null;
+  username: string | null;
+}
+
+// Signs the claim for a token prize the roulette function rolled for the
+// player. The amount comes from the recorded spin, and the nonce is derived
+// from its id, so the RewardDistributor pays each spin at most once.
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -16,65 +31,72 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { walletAddress, rewardAmount, playerName } = await req.json();
-
-    if (!walletAddress || !rewardAmount) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Missing required fields: walletAddress, rewardAmount"
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+    const { sessionToken, spinId } = await req.json();
+
+    if (!sessionToken || !spinId) {
+      return jsonResponse({ success: false, error: "Missing required fields: sessionToken, spinId" }, 400);
     }
 
-    if (rewardAmount <= 0) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Reward amount must be greater than 0"
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: session } = await supabase
+      .from("auth_sessions")
+      .select("user_id")
+      .eq("session_token", sessionToken)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
     }
 
-    // Validate wallet address format
-    if (!ethers.isAddress(walletAddress)) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Invalid wallet address format"
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+    const { data: spin } = await supabase
+      .from("roulette_spins")
+      .select("id, amount, claim_wallet, user_profiles!inner(wallet_address, username)")
+      .eq("id", spinId)
+      .eq("user_id", session.user_id)
+      .eq("reward_type", "onChainToken")
+      .maybeSingle();
+
+    if (!spin) {
+      return jsonResponse({ success: false, error: "No token prize of yours with this id" }, 404);
+    }
+
+    const profile = spin.user_profiles as unknown as ClaimProfile;
+
+    // The first claim pins the wallet, so a spin can't be signed for two
+    let walletAddress = spin.claim_wallet;
+    if (!walletAddress) {
+      if (!profile.wallet_address || !ethers.isAddress(profile.wallet_address)) {
+        return jsonResponse({ success: false, error: "Connect a wallet to claim this prize" }, 400);
+      }
+
+      await supabase
+        .from("roulette_spins")
+        .update({ claim_wallet: profile.wallet_address })
+        .eq("id", spin.id)
+        .is("claim_wallet", null);
+
+      const { data: pinned } = await supabase
+        .from("roulette_spins")
+        .select("claim_wallet")
+        .eq("id", spin.id)
+        .single();
+
+      walletAddress = pinned?.claim_wallet;
+      if (!walletAddress) {
+        return jsonResponse({ success: false, error: "Failed to save the claim wallet" }, 500);
+      }
     }
 
     const adminPrivateKey = Deno.env.get("ADMIN_PRIVATE_KEY");
 
     if (!adminPrivateKey) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Server configuration error: missing admin private key"
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+      return jsonResponse({ success: false, error: "Server configuration error: missing admin private key" }, 500);
     }
 
-    // Generate a unique nonce (timestamp + random number)
-    const nonce = Date.now() * 1000 + Math.floor(Math.random() * 1000);
+    const rewardAmount = BigInt(spin.amount);
+    const nonce = BigInt(ethers.id(spin.id));
 
     // Create the message hash that will be signed
     const messageHash = ethers.solidityPackedKeccak256(
@@ -86,35 +108,22 @@ Deno.serve(async (req: Request) => {
     const wallet = new ethers.Wallet(adminPrivateKey);
     const signature = await wallet.signMessage(ethers.getBytes(messageHash));
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        walletAddress,
-        playerName: playerName || walletAddress.slice(0, 8),
-        rewardAmount: rewardAmount.toString(),
-        nonce: nonce.toString(),
-        signature,
-        messageHash
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }  
-    );
-
+    return jsonResponse({
+      success: true,
+      walletAddress,
+      playerName: profile.username || walletAddress.slice(0, 8),
+      rewardAmount: rewardAmount.toString(),
+      nonce: nonce.toString(),
+      signature,
+      messageHash,
+    });
   } catch (error) {
     console.error("Error generating claim signature:", error);
 
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: "Failed to generate claim signature",
-        details: error.message || error.toString()
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({
+      success: false,
+      error: "Failed to generate claim signature",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
   }
-});
\ No newline at end of file
+});
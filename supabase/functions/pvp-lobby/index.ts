@@ -0,0 +1,144 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// No 0/O or 1/I so codes survive being read aloud or retyped
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 6;
+// Lobbies nobody joined within this window can no longer be joined
+const LOBBY_TTL_MS = 30 * 60 * 1000;
+
+interface PvpLobbyRequest {
+  action: "create" | "join";
+  sessionToken: string;
+  inviteCode?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const createInviteCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+  return Array.from(bytes, (b) => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join("");
+};
+
+const createLobby = async (supabase: SupabaseClient, userId: string) => {
+  const seed = crypto.getRandomValues(new Uint32Array(1))[0];
+
+  const { data: lobby, error } = await supabase
+    .from("pvp_lobbies")
+    .insert({ host_user_id: userId, seed, invite_code: createInviteCode() })
+    .select("id, invite_code")
+    .single();
+
+  if (error || !lobby) {
+    console.error("Lobby creation error:", error);
+    return jsonResponse({ success: false, error: "Failed to create lobby" }, 500);
+  }
+
+  return jsonResponse({ success: true, lobbyId: lobby.id, inviteCode: lobby.invite_code });
+};
+
+const joinLobby = async (supabase: SupabaseClient, userId: string, inviteCode?: string) => {
+  if (!inviteCode) {
+    return jsonResponse({ success: false, error: "Missing required field: inviteCode" }, 400);
+  }
+
+  const { data: lobby } = await supabase
+    .from("pvp_lobbies")
+    .select("id, host_user_id, guest_user_id, created_at, host:user_profiles!pvp_lobbies_host_user_id_fkey(username, wallet_address)")
+    .eq("invite_code", inviteCode.toUpperCase())
+    .maybeSingle();
+
+  if (!lobby) {
+    return jsonResponse({ success: false, error: "Lobby not found" }, 404);
+  }
+
+  if (lobby.host_user_id === userId) {
+    return jsonResponse({ success: false, error: "You cannot join your own lobby" }, 409);
+  }
+
+  const host = lobby.host as { username?: string; wallet_address?: string } | null;
+  const hostName = host?.username || host?.wallet_address?.slice(0, 8) || "Host";
+
+  // Rejoining after a reload is fine; taking someone else's seat is not
+  if (lobby.guest_user_id && lobby.guest_user_id !== userId) {
+    return jsonResponse({ success: false, error: "Lobby is already full" }, 409);
+  }
+
+  if (!lobby.guest_user_id) {
+    if (Date.now() - new Date(lobby.created_at).getTime() > LOBBY_TTL_MS) {
+      return jsonResponse({ success: false, error: "Invite has expired" }, 410);
+    }
+
+    const { data: joined, error } = await supabase
+      .from("pvp_lobbies")
+      .update({ guest_user_id: userId, joined_at: new Date().toISOString() })
+      .eq("id", lobby.id)
+      .is("guest_user_id", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error || !joined) {
+      return jsonResponse({ success: false, error: "Lobby is already full" }, 409);
+    }
+  }
+
+  return jsonResponse({ success: true, lobbyId: lobby.id, hostName });
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: PvpLobbyRequest = await req.json();
+
+    if (!request.action || !request.sessionToken) {
+      return jsonResponse({ success: false, error: "Missing required fields: action, sessionToken" }, 400);
+    }
+
+    const { data: session } = await supabase
+      .from("auth_sessions")
+      .select("user_id")
+      .eq("session_token", request.sessionToken)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    if (request.action === "create") {
+      return await createLobby(supabase, session.user_id);
+    }
+
+    if (request.action === "join") {
+      return await joinLobby(supabase, session.user_id, request.inviteCode);
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("PvP lobby error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Lobby request failed",
+    }, 500);
+  }
+});
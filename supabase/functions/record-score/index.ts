@@ -1,93 +1,142 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
 import { ethers } from "npm:ethers@6.15.0";
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey"
 };
+
 const SCORE_RECORDER_ABI = [
-  "function recordScore(uint256 score, string memory playerName) external",
+  "function recordScore(uint256 score, string memory playerName) external payable",
+  "function getRecordingFee() external view returns (uint256)",
   "event ScoreRecorded(address indexed player, string playerName, uint256 score, uint256 timestamp, uint256 gameNumber)"
 ];
-Deno.serve(async (req)=>{
+
+// The most the admin wallet pays the contract per score. A recording fee
+// above it is refused rather than paid.
+const MAX_RECORDING_FEE = ethers.parseEther("0.0001");
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+interface ScoreOwner {
+  wallet_address: string | null;
+  username: string | null;
+}
+
+Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
       status: 200,
       headers: corsHeaders
     });
   }
+
   try {
-    const { walletAddress, score, contractAddress, playerName } = await req.json();
-    if (!walletAddress || score === undefined || !contractAddress || !playerName) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: "Missing required fields: walletAddress, score, contractAddress, playerName"
-      }), {
-        status: 400,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json"
-        }
-      });
+    const { sessionToken, matchId } = await req.json();
+    if (!sessionToken || !matchId) {
+      return jsonResponse({ success: false, error: "Missing required fields: sessionToken, matchId" }, 400);
     }
-    if (score < 0 || score > 100) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: "Score must be between 0 and 100"
-      }), {
-        status: 400,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json"
-        }
-      });
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: session } = await supabase
+      .from("auth_sessions")
+      .select("user_id")
+      .eq("session_token", sessionToken)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
     }
-    const rpcUrl = Deno.env.get("ARBITRUM_RPC_URL") || "https://arb1.arbitrum.io/rpc";
+
     const adminPrivateKey = Deno.env.get("ADMIN_PRIVATE_KEY");
-    if (!adminPrivateKey) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: "Server configuration error: missing private key"
-      }), {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json"
-        }
-      });
+    const recorderAddress = Deno.env.get("SCORE_RECORDER_ADDRESS");
+    if (!adminPrivateKey || !recorderAddress) {
+      return jsonResponse({ success: false, error: "Server configuration error: missing private key or score recorder address" }, 500);
+    }
+
+    // Only scores that verify-match re-simulated can be recorded, each once,
+    // and the score comes from that replay rather than from the request
+    const { data: gameSession } = await supabase
+      .from("game_sessions")
+      .update({ score_recorded_at: new Date().toISOString() })
+      .eq("match_id", matchId)
+      .eq("user_id", session.user_id)
+      .eq("verified", true)
+      .is("score_recorded_at", null)
+      .select("id, player_score, user_profiles!inner(wallet_address, username)")
+      .maybeSingle();
+
+    if (!gameSession) {
+      return jsonResponse({ success: false, error: "Only your own verified matches can be recorded, once each" }, 403);
     }
+
+    const owner = gameSession.user_profiles as unknown as ScoreOwner;
+    const score = gameSession.player_score;
+    const playerName = owner.username || owner.wallet_address?.slice(0, 8) || "Player";
+
+    const rpcUrl = Deno.env.get("ARBITRUM_RPC_URL") || "https://arb1.arbitrum.io/rpc";
     const provider = new ethers.JsonRpcProvider(rpcUrl);
     const wallet = new ethers.Wallet(adminPrivateKey, provider);
-    const contract = new ethers.Contract(contractAddress, SCORE_RECORDER_ABI, wallet);
-    const tx = await contract.recordScore(score, playerName);
-    const receipt = await tx.wait();
-    return new Response(JSON.stringify({
+    const contract = new ethers.Contract(recorderAddress, SCORE_RECORDER_ABI, wallet);
+
+    // Nothing was recorded, so the score can be recorded again
+    const releaseScore = () =>
+      supabase
+        .from("game_sessions")
+        .update({ score_recorded_at: null })
+        .eq("id", gameSession.id);
+
+    // The contract charges a recording fee, which the admin wallet pays up
+    // to MAX_RECORDING_FEE
+    let tx;
+    try {
+      const fee: bigint = await contract.getRecordingFee();
+      if (fee > MAX_RECORDING_FEE) {
+        await releaseScore();
+        return jsonResponse({ success: false, error: "Recording fee is above what the server will pay" }, 503);
+      }
+      tx = await contract.recordScore(score, playerName, { value: fee });
+    } catch (error) {
+      await releaseScore();
+      throw error;
+    }
+
+    let receipt;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      // A reverted transaction recorded nothing either
+      await releaseScore();
+      throw error;
+    }
+    if (!receipt || receipt.status !== 1) {
+      await releaseScore();
+      return jsonResponse({ success: false, error: "Score transaction reverted", transactionHash: tx.hash }, 502);
+    }
+
+    return jsonResponse({
       success: true,
       transactionHash: receipt.hash,
       blockNumber: receipt.blockNumber,
       gasUsed: receipt.gasUsed.toString(),
-      walletAddress,
+      walletAddress: owner.wallet_address,
       playerName,
       score
-    }), {
-      status: 200,
-      headers: {
-        ...corsHeaders,
-        "Content-Type": "application/json"
-      }
     });
   } catch (error) {
     console.error("Error recording score:", error);
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: false,
-      error: error.message || "Failed to record score on-chain",
-      details: error.toString()
-    }), {
-      status: 500,
-      headers: {
-        ...corsHeaders,
-        "Content-Type": "application/json"
-      }
-    });
+      error: error instanceof Error ? error.message : "Failed to record score on-chain",
+      details: String(error)
+    }, 500);
   }
 });
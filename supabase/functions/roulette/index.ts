@@ -0,0 +1,187 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  DEFAULT_DIFFICULTY,
+  ROULETTE_REWARDS,
+  rouletteRewardsForDifficulty,
+} from "../../../src/config/gameSettings.ts";
+import type { DifficultyLevel, RouletteReward } from "../../../src/types/game.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface RouletteRequest {
+  action: "keys" | "spin";
+  sessionToken?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const getUserId = async (supabase: SupabaseClient, sessionToken?: string) => {
+  if (!sessionToken) return null;
+
+  const { data: session } = await supabase
+    .from("auth_sessions")
+    .select("user_id")
+    .eq("session_token", sessionToken)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return session?.user_id ?? null;
+};
+
+const countKeys = async (supabase: SupabaseClient, userId: string) => {
+  const { count } = await supabase
+    .from("roulette_keys")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("spent_at", null);
+
+  return count ?? 0;
+};
+
+// The index of the segment the wheel stops on, weighted by its odds
+const rollReward = (rewards: RouletteReward[]) => {
+  const total = rewards.reduce((sum, reward) => sum + reward.probability, 0);
+  let roll = (crypto.getRandomValues(new Uint32Array(1))[0] / 2 ** 32) * total;
+
+  for (let index = 0; index < rewards.length; index++) {
+    if (roll < rewards[index].probability) return index;
+    roll -= rewards[index].probability;
+  }
+  // Rounding can carry the roll past the end: it lands on the last segment
+  // that can come up at all
+  return rewards.findLastIndex(reward => reward.probability > 0);
+};
+
+// Spend the player's oldest key on a spin. Keys are only ever written by
+// verify-match for a verified match, so a spin is always backed by one, and
+// it is rolled at the odds of that match's difficulty.
+const spin = async (supabase: SupabaseClient, userId: string) => {
+  const { data: key } = await supabase
+    .from("roulette_keys")
+    .select("id, match_id, match_tickets(difficulty)")
+    .eq("user_id", userId)
+    .is("spent_at", null)
+    .order("created_at")
+    .limit(1)
+    .maybeSingle();
+
+  if (!key) {
+    return jsonResponse({ success: false, error: "No roulette keys left" }, 409);
+  }
+
+  // Another spin may have taken the same key in the meantime
+  const { data: spent } = await supabase
+    .from("roulette_keys")
+    .update({ spent_at: new Date().toISOString() })
+    .eq("id", key.id)
+    .is("spent_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (!spent) {
+    return jsonResponse({ success: false, error: "That key was just spent. Please try again." }, 409);
+  }
+
+  // PvP and challenge tickets carry no difficulty, and pay like MEDIUM
+  const ticket = key.match_tickets as { difficulty: DifficultyLevel | null } | null;
+  const difficulty = ticket?.difficulty ?? DEFAULT_DIFFICULTY;
+  const rewardIndex = rollReward(rouletteRewardsForDifficulty(difficulty));
+  const reward = ROULETTE_REWARDS[rewardIndex];
+
+  const { data: spinRow, error: spinError } = await supabase
+    .from("roulette_spins")
+    .insert({
+      user_id: userId,
+      key_id: key.id,
+      reward_type: reward.type,
+      amount: reward.amount,
+      label: reward.label,
+    })
+    .select("id")
+    .single();
+
+  if (spinError || !spinRow) {
+    console.error("Roulette spin insert error:", spinError);
+    // Nothing was won, so the player keeps the key
+    const { error: releaseError } = await supabase
+      .from("roulette_keys")
+      .update({ spent_at: null })
+      .eq("id", key.id);
+
+    if (releaseError) {
+      console.error("Roulette key release error:", releaseError);
+    }
+    return jsonResponse({ success: false, error: "Failed to record spin" }, 500);
+  }
+
+  // Keys won on the wheel count as earned by the same match
+  if (reward.type === "inGameCurrency" && reward.amount > 0) {
+    const { error: keysError } = await supabase
+      .from("roulette_keys")
+      .insert(Array.from({ length: reward.amount }, () => ({ user_id: userId, match_id: key.match_id })));
+
+    if (keysError) {
+      console.error("Roulette key insert error:", keysError);
+    }
+  }
+
+  return jsonResponse({
+    success: true,
+    spinId: spinRow.id,
+    rewardIndex,
+    reward,
+    difficulty,
+    keys: await countKeys(supabase, userId),
+  });
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: RouletteRequest = await req.json();
+
+    if (!request.action) {
+      return jsonResponse({ success: false, error: "Missing required field: action" }, 400);
+    }
+
+    const userId = await getUserId(supabase, request.sessionToken);
+    if (!userId) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    if (request.action === "keys") {
+      return jsonResponse({ success: true, keys: await countKeys(supabase, userId) });
+    }
+
+    if (request.action === "spin") {
+      return await spin(supabase, userId);
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("Roulette error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Roulette request failed",
+    }, 500);
+  }
+});
@@ -0,0 +1,648 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { ethers } from "npm:ethers@6.15.0";
+import {
+  bracketRoundCount,
+  pairBracketRound,
+  pairSwissRound,
+  prizeAmounts,
+  tournamentStandings,
+} from "../../../src/engine/tournament.ts";
+import { BOT_PERSONALITIES } from "../../../src/engine/botStrategies.ts";
+import { DIFFICULTY_LEVELS } from "../../../src/config/gameSettings.ts";
+import { arenaById } from "../../../src/config/arenas.ts";
+import type {
+  BotPersonality,
+  DifficultyLevel,
+  TournamentEntrant,
+  TournamentFormat,
+  TournamentPairing,
+} from "../../../src/types/game.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Scheduled calls authenticate with this header instead of an admin session
+const CRON_SECRET_HEADER = "x-cron-secret";
+
+const REWARD_DISTRIBUTOR_ABI = [
+  "function batchDistributeReward(address[] calldata recipients, uint256[] calldata amounts) external",
+];
+
+// $CC has 18 decimals; prize pools are stored in whole tokens
+const CC_DECIMALS = 18;
+// RewardDistributor.batchDistributeReward pays at most this many recipients
+const MAX_PRIZE_PLACES = 100;
+const MAX_ENTRANTS = 256;
+
+interface TournamentAdminRequest {
+  action: "create" | "advance" | "finalize";
+  // Not needed on a scheduled call that carries the cron secret
+  sessionToken?: string;
+  tournamentId?: string;
+  // Close the entry window or the open round now instead of waiting for it
+  force?: boolean;
+  tournament?: {
+    name?: string;
+    format?: TournamentFormat;
+    entryOpensAt?: string;
+    entryClosesAt?: string;
+    roundMinutes?: number;
+    rounds?: number;
+    maxEntrants?: number;
+    arenaId?: string;
+    difficulty?: DifficultyLevel;
+    botPersonality?: BotPersonality;
+    prizePool?: number;
+    prizeSplit?: number[];
+  };
+}
+
+interface TournamentRow {
+  id: string;
+  format: TournamentFormat;
+  status: string;
+  entry_closes_at: string;
+  round_minutes: number;
+  total_rounds: number | null;
+  current_round: number;
+  prize_pool: number;
+  prize_split: number[];
+}
+
+interface MatchRow {
+  round: number;
+  position: number;
+  player_a: string;
+  player_b: string | null;
+  score_a: number | null;
+  score_b: number | null;
+  settled_at: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const getUserId = async (supabase: SupabaseClient, sessionToken?: string) => {
+  if (!sessionToken) return null;
+
+  const { data: session } = await supabase
+    .from("auth_sessions")
+    .select("user_id")
+    .eq("session_token", sessionToken)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return session?.user_id ?? null;
+};
+
+// Tournaments are run by the wallets listed in TOURNAMENT_ADMIN_WALLETS, comma separated
+const isAdmin = async (supabase: SupabaseClient, userId: string) => {
+  const admins = (Deno.env.get("TOURNAMENT_ADMIN_WALLETS") ?? "")
+    .split(",")
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean);
+
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("wallet_address")
+    .eq("id", userId)
+    .maybeSingle();
+
+  return !!profile?.wallet_address && admins.includes(profile.wallet_address.toLowerCase());
+};
+
+// A scheduled call, carrying the CRON_SECRET shared with the scheduler. It is
+// compared in constant time so the secret can't be guessed byte by byte.
+const hasCronSecret = (req: Request) => {
+  const secret = Deno.env.get("CRON_SECRET");
+  const given = req.headers.get(CRON_SECRET_HEADER);
+  if (!secret || !given) return false;
+
+  const expected = new TextEncoder().encode(secret);
+  const actual = new TextEncoder().encode(given);
+  if (expected.length !== actual.length) return false;
+
+  let difference = 0;
+  for (let index = 0; index < expected.length; index++) {
+    difference |= expected[index] ^ actual[index];
+  }
+  return difference === 0;
+};
+
+const isWholeNumber = (value: unknown, min: number, max = Number.MAX_SAFE_INTEGER): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+const toPairing = (row: MatchRow): TournamentPairing => ({
+  round: row.round,
+  position: row.position,
+  playerA: row.player_a,
+  playerB: row.player_b,
+  scoreA: row.score_a,
+  scoreB: row.score_b,
+  settled: !!row.settled_at,
+});
+
+const loadField = async (supabase: SupabaseClient, tournamentId: string) => {
+  const [{ data: entries }, { data: matches }] = await Promise.all([
+    supabase
+      .from("tournament_entries")
+      .select("user_id, seed_rank")
+      .eq("tournament_id", tournamentId),
+    supabase
+      .from("tournament_matches")
+      .select("round, position, player_a, player_b, score_a, score_b, settled_at")
+      .eq("tournament_id", tournamentId),
+  ]);
+
+  const entrants: TournamentEntrant[] = (entries ?? []).map((entry) => ({
+    userId: entry.user_id,
+    seedRank: entry.seed_rank,
+  }));
+  return { entrants, pairings: (matches ?? []).map((row) => toPairing(row as MatchRow)) };
+};
+
+const createTournament = async (supabase: SupabaseClient, { tournament }: TournamentAdminRequest) => {
+  const {
+    name,
+    format,
+    entryOpensAt,
+    entryClosesAt,
+    roundMinutes,
+    rounds,
+    maxEntrants,
+    arenaId,
+    difficulty,
+    botPersonality,
+    prizePool = 0,
+    prizeSplit = [],
+  } = tournament ?? {};
+
+  const opensAt = Date.parse(entryOpensAt ?? "");
+  const closesAt = Date.parse(entryClosesAt ?? "");
+
+  const problem =
+    !name?.trim() || name.trim().length > 40 ? "name must be 1-40 characters"
+    : format !== "bracket" && format !== "swiss" ? "format must be 'bracket' or 'swiss'"
+    : Number.isNaN(opensAt) || Number.isNaN(closesAt) || closesAt <= opensAt ? "the entry window must close after it opens"
+    : !isWholeNumber(roundMinutes, 1) ? "roundMinutes must be a whole number of minutes"
+    : format === "swiss" && !isWholeNumber(rounds, 1) ? "Swiss tournaments need a number of rounds"
+    : !isWholeNumber(maxEntrants, 2, MAX_ENTRANTS) ? `maxEntrants must be between 2 and ${MAX_ENTRANTS}`
+    : !arenaId || !arenaById(arenaId) ? "arenaId must be a built-in arena"
+    : !difficulty || !DIFFICULTY_LEVELS.includes(difficulty) ? "unknown difficulty"
+    : !botPersonality || !BOT_PERSONALITIES.includes(botPersonality) ? "unknown botPersonality"
+    : !isWholeNumber(prizePool, 0) ? "prizePool must be a whole number of $CC"
+    : !Array.isArray(prizeSplit) || prizeSplit.length > MAX_PRIZE_PLACES ||
+        !prizeSplit.every((percent) => isWholeNumber(percent, 1, 100)) ||
+        prizeSplit.reduce((sum, percent) => sum + percent, 0) > 100
+      ? "prizeSplit must be whole percentages adding up to at most 100"
+    : null;
+
+  if (problem) {
+    return jsonResponse({ success: false, error: `Invalid tournament: ${problem}` }, 400);
+  }
+
+  const { data: created, error } = await supabase
+    .from("tournaments")
+    .insert({
+      name: name!.trim(),
+      format,
+      entry_opens_at: new Date(opensAt).toISOString(),
+      entry_closes_at: new Date(closesAt).toISOString(),
+      round_minutes: roundMinutes,
+      total_rounds: format === "swiss" ? rounds : null,
+      max_entrants: maxEntrants,
+      arena_id: arenaId,
+      difficulty,
+      bot_personality: botPersonality,
+      prize_pool: prizePool,
+      prize_split: prizeSplit,
+    })
+    .select("id")
+    .single();
+
+  if (error || !created) {
+    console.error("Tournament creation error:", error);
+    return jsonResponse({ success: false, error: "Failed to create tournament" }, 500);
+  }
+
+  return jsonResponse({ success: true, tournamentId: created.id });
+};
+
+// Every match of a round is played on the round's seed
+const openRound = async (
+  supabase: SupabaseClient,
+  tournament: TournamentRow,
+  round: number,
+  pairings: TournamentPairing[],
+) => {
+  const startsAt = new Date();
+  const { error: roundError } = await supabase
+    .from("tournament_rounds")
+    .insert({
+      tournament_id: tournament.id,
+      round,
+      seed: crypto.getRandomValues(new Uint32Array(1))[0],
+      starts_at: startsAt.toISOString(),
+      ends_at: new Date(startsAt.getTime() + tournament.round_minutes * 60 * 1000).toISOString(),
+    });
+
+  if (roundError) throw roundError;
+
+  const { error: matchesError } = await supabase
+    .from("tournament_matches")
+    .insert(pairings.map((pairing) => ({
+      tournament_id: tournament.id,
+      round,
+      position: pairing.position,
+      player_a: pairing.playerA,
+      player_b: pairing.playerB,
+    })));
+
+  if (matchesError) throw matchesError;
+};
+
+// Close the entry window: seed the field by skill rating and pair round one
+const startTournament = async (supabase: SupabaseClient, tournament: TournamentRow) => {
+  const { data: claimed } = await supabase
+    .from("tournaments")
+    .update({ status: "running" })
+    .eq("id", tournament.id)
+    .eq("status", "registration")
+    .select("id")
+    .maybeSingle();
+
+  if (!claimed) {
+    return jsonResponse({ success: false, error: "This tournament has already started" }, 409);
+  }
+
+  const { data: entries } = await supabase
+    .from("tournament_entries")
+    .select("user_id, joined_at, profile:user_profiles!tournament_entries_user_id_fkey(skill_rating)")
+    .eq("tournament_id", tournament.id)
+    .order("joined_at", { ascending: true });
+
+  if (!entries || entries.length < 2) {
+    await supabase.from("tournaments").update({ status: "cancelled" }).eq("id", tournament.id);
+    return jsonResponse({ success: true, status: "cancelled" });
+  }
+
+  // Higher rated players are seeded first; equal ratings by who joined first
+  const rating = (entry: typeof entries[number]) =>
+    (entry.profile as { skill_rating?: number } | null)?.skill_rating ?? 0;
+  const entrants: TournamentEntrant[] = [...entries]
+    .sort((a, b) => rating(b) - rating(a))
+    .map((entry, index) => ({ userId: entry.user_id, seedRank: index + 1 }));
+
+  for (const entrant of entrants) {
+    await supabase
+      .from("tournament_entries")
+      .update({ seed_rank: entrant.seedRank })
+      .eq("tournament_id", tournament.id)
+      .eq("user_id", entrant.userId);
+  }
+
+  // Swiss players meet each other at most once
+  const totalRounds = tournament.format === "bracket"
+    ? bracketRoundCount(entrants.length)
+    : Math.min(tournament.total_rounds ?? 1, entrants.length - 1);
+  const pairings = tournament.format === "bracket"
+    ? pairBracketRound(1, entrants, [])
+    : pairSwissRound(1, entrants, []);
+
+  await openRound(supabase, tournament, 1, pairings);
+  await supabase
+    .from("tournaments")
+    .update({ current_round: 1, total_rounds: totalRounds })
+    .eq("id", tournament.id);
+
+  return jsonResponse({ success: true, status: "running", round: 1, entrants: entrants.length });
+};
+
+// Close the open round. Scores submitted from now on no longer count. Then
+// pair the next round, or mark the tournament completed after the last one.
+const closeRound = async (supabase: SupabaseClient, tournament: TournamentRow) => {
+  const round = tournament.current_round;
+  const isLastRound = round >= (tournament.total_rounds ?? round);
+  const now = new Date().toISOString();
+
+  const { data: claimed } = await supabase
+    .from("tournaments")
+    .update(isLastRound ? { status: "completed" } : { current_round: round + 1 })
+    .eq("id", tournament.id)
+    .eq("status", "running")
+    .eq("current_round", round)
+    .select("id")
+    .maybeSingle();
+
+  if (!claimed) {
+    return jsonResponse({ success: false, error: "This round has already been closed" }, 409);
+  }
+
+  await supabase
+    .from("tournament_matches")
+    .update({ settled_at: now })
+    .eq("tournament_id", tournament.id)
+    .eq("round", round)
+    .is("settled_at", null);
+
+  await supabase
+    .from("tournament_rounds")
+    .update({ closed_at: now })
+    .eq("tournament_id", tournament.id)
+    .eq("round", round);
+
+  if (isLastRound) {
+    return jsonResponse({ success: true, status: "completed", round });
+  }
+
+  const { entrants, pairings } = await loadField(supabase, tournament.id);
+  const next = tournament.format === "bracket"
+    ? pairBracketRound(round + 1, entrants, pairings.filter((pairing) => pairing.round === round))
+    : pairSwissRound(round + 1, entrants, pairings);
+
+  await openRound(supabase, tournament, round + 1, next);
+
+  return jsonResponse({ success: true, status: "running", round: round + 1 });
+};
+
+// Called on a schedule with the cron secret as well as by hand: does nothing
+// until the entry window or the open round has run out, unless forced
+const advanceTournament = async (supabase: SupabaseClient, { tournamentId, force }: TournamentAdminRequest) => {
+  if (!tournamentId) {
+    return jsonResponse({ success: false, error: "Missing required field: tournamentId" }, 400);
+  }
+
+  const { data: tournament } = await supabase
+    .from("tournaments")
+    .select("id, format, status, entry_closes_at, round_minutes, total_rounds, current_round, prize_pool, prize_split")
+    .eq("id", tournamentId)
+    .maybeSingle<TournamentRow>();
+
+  if (!tournament) {
+    return jsonResponse({ success: false, error: "Tournament not found" }, 404);
+  }
+
+  if (tournament.status === "registration") {
+    if (!force && Date.now() < new Date(tournament.entry_closes_at).getTime()) {
+      return jsonResponse({ success: false, error: "Entries are still open" }, 409);
+    }
+    return await startTournament(supabase, tournament);
+  }
+
+  if (tournament.status === "running") {
+    const { data: round } = await supabase
+      .from("tournament_rounds")
+      .select("ends_at")
+      .eq("tournament_id", tournament.id)
+      .eq("round", tournament.current_round)
+      .maybeSingle();
+
+    if (!force && round && Date.now() < new Date(round.ends_at).getTime()) {
+      return jsonResponse({ success: false, error: `Round ${tournament.current_round} is still being played` }, 409);
+    }
+    return await closeRound(supabase, tournament);
+  }
+
+  return jsonResponse({ success: false, error: `A ${tournament.status} tournament has no round to advance` }, 409);
+};
+
+const payoutProvider = () =>
+  new ethers.JsonRpcProvider(Deno.env.get("ARBITRUM_RPC_URL") || "https://arb1.arbitrum.io/rpc");
+
+// A finalize call after the payout went out looks the transaction up instead
+// of sending another: it may have landed even though the call that sent it
+// never heard back.
+const reconcilePayout = async (supabase: SupabaseClient, tournamentId: string, txHash: string) => {
+  const receipt = await payoutProvider().getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    return jsonResponse({ success: false, error: "The payout has not been confirmed yet", transactionHash: txHash }, 409);
+  }
+
+  // A reverted payout paid nobody, so it can be sent again
+  if (receipt.status !== 1) {
+    await supabase
+      .from("tournaments")
+      .update({ status: "completed", finalized_at: null, payout_tx_hash: null })
+      .eq("id", tournamentId)
+      .eq("payout_tx_hash", txHash);
+
+    return jsonResponse({ success: false, error: "The payout transaction reverted", transactionHash: txHash }, 502);
+  }
+
+  await supabase
+    .from("tournaments")
+    .update({ payout_confirmed_at: new Date().toISOString() })
+    .eq("id", tournamentId);
+
+  return jsonResponse({
+    success: true,
+    status: "finalized",
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+  });
+};
+
+// Rank the field, record each entrant's final rank and prize, and pay the
+// winners in one RewardDistributor.batchDistributeReward transaction
+const finalizeTournament = async (supabase: SupabaseClient, { tournamentId }: TournamentAdminRequest) => {
+  if (!tournamentId) {
+    return jsonResponse({ success: false, error: "Missing required field: tournamentId" }, 400);
+  }
+
+  const adminPrivateKey = Deno.env.get("ADMIN_PRIVATE_KEY");
+  const distributorAddress = Deno.env.get("REWARD_DISTRIBUTOR_ADDRESS");
+  if (!adminPrivateKey || !distributorAddress) {
+    return jsonResponse({ success: false, error: "Server configuration error: missing admin private key or distributor address" }, 500);
+  }
+
+  // Claim the tournament first so it can never be paid out twice
+  const { data: tournament } = await supabase
+    .from("tournaments")
+    .update({ status: "finalized", finalized_at: new Date().toISOString() })
+    .eq("id", tournamentId)
+    .eq("status", "completed")
+    .select("id, format, prize_pool, prize_split")
+    .maybeSingle();
+
+  if (!tournament) {
+    const { data: finalized } = await supabase
+      .from("tournaments")
+      .select("payout_tx_hash, payout_confirmed_at")
+      .eq("id", tournamentId)
+      .eq("status", "finalized")
+      .maybeSingle();
+
+    if (finalized?.payout_tx_hash && !finalized.payout_confirmed_at) {
+      return await reconcilePayout(supabase, tournamentId, finalized.payout_tx_hash);
+    }
+    return jsonResponse({ success: false, error: "Only a completed tournament can be finalized" }, 409);
+  }
+
+  const { entrants, pairings } = await loadField(supabase, tournamentId);
+  const standings = tournamentStandings(tournament.format, entrants, pairings);
+  const amounts = prizeAmounts(tournament.prize_pool, tournament.prize_split, standings.length);
+
+  for (const standing of standings) {
+    await supabase
+      .from("tournament_entries")
+      .update({ final_rank: standing.rank, prize: amounts[standing.rank - 1] ?? null })
+      .eq("tournament_id", tournamentId)
+      .eq("user_id", standing.userId);
+  }
+
+  const winners = standings
+    .map((standing) => ({ userId: standing.userId, amount: amounts[standing.rank - 1] ?? 0 }))
+    .filter((winner) => winner.amount > 0);
+
+  if (winners.length === 0) {
+    return jsonResponse({ success: true, status: "finalized", winners: 0 });
+  }
+
+  const { data: profiles } = await supabase
+    .from("user_profiles")
+    .select("id, wallet_address")
+    .in("id", winners.map((winner) => winner.userId));
+  const wallets = new Map((profiles ?? []).map((profile) => [profile.id, profile.wallet_address]));
+  const paid = winners.filter((winner) => ethers.isAddress(wallets.get(winner.userId)));
+
+  if (paid.length === 0) {
+    return jsonResponse({ success: true, status: "finalized", winners: 0 });
+  }
+
+  let tx;
+  try {
+    const wallet = new ethers.Wallet(adminPrivateKey, payoutProvider());
+    const distributor = new ethers.Contract(distributorAddress, REWARD_DISTRIBUTOR_ABI, wallet);
+
+    tx = await distributor.batchDistributeReward(
+      paid.map((winner) => wallets.get(winner.userId)),
+      paid.map((winner) => ethers.parseUnits(String(winner.amount), CC_DECIMALS)),
+    );
+  } catch (error) {
+    // The transaction never went out, so the payout can be retried
+    console.error("Tournament payout error:", error);
+    await supabase
+      .from("tournaments")
+      .update({ status: "completed", finalized_at: null })
+      .eq("id", tournamentId);
+
+    return jsonResponse({
+      success: false,
+      error: "Failed to pay out the prize pool",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+
+  // Stored before waiting: from here on a retry reconciles against this
+  // transaction rather than paying again. If the write fails the tournament
+  // still stays finalized, so a retry is refused instead of paying twice.
+  const { error: hashError } = await supabase
+    .from("tournaments")
+    .update({ payout_tx_hash: tx.hash })
+    .eq("id", tournamentId);
+
+  if (hashError) {
+    console.error(`Tournament payout hash write error (tournament ${tournamentId}, tx ${tx.hash}):`, hashError);
+  }
+
+  try {
+    const receipt = await tx.wait();
+
+    const { error: confirmError } = await supabase
+      .from("tournaments")
+      .update({ payout_tx_hash: tx.hash, payout_confirmed_at: new Date().toISOString() })
+      .eq("id", tournamentId);
+
+    if (confirmError) {
+      console.error(`Tournament payout confirmation write error (tournament ${tournamentId}, tx ${tx.hash}):`, confirmError);
+    }
+
+    return jsonResponse({
+      success: true,
+      status: "finalized",
+      winners: paid.length,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    });
+  } catch (error) {
+    console.error("Tournament payout confirmation error:", error);
+    return jsonResponse({
+      success: false,
+      error: hashError
+        ? "The payout was sent but neither confirmed nor recorded; check the transaction by hand before paying again"
+        : "The payout was sent but not confirmed; finalize again to check on it",
+      transactionHash: tx.hash,
+      details: error instanceof Error ? error.message : String(error),
+    }, 502);
+  }
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: TournamentAdminRequest = await req.json();
+
+    if (req.headers.has(CRON_SECRET_HEADER)) {
+      if (!hasCronSecret(req)) {
+        return jsonResponse({ success: false, error: "Invalid cron secret" }, 401);
+      }
+      // The scheduler only moves tournaments along; creating and paying out
+      // stay with an admin
+      if (request.action !== "advance") {
+        return jsonResponse({ success: false, error: "Scheduled calls can only advance a tournament" }, 403);
+      }
+      return await advanceTournament(supabase, request);
+    }
+
+    if (!request.action || !request.sessionToken) {
+      return jsonResponse({ success: false, error: "Missing required fields: action, sessionToken" }, 400);
+    }
+
+    const userId = await getUserId(supabase, request.sessionToken);
+    if (!userId) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    if (!await isAdmin(supabase, userId)) {
+      return jsonResponse({ success: false, error: "Only tournament admins can do this" }, 403);
+    }
+
+    if (request.action === "create") {
+      return await createTournament(supabase, request);
+    }
+
+    if (request.action === "advance") {
+      return await advanceTournament(supabase, request);
+    }
+
+    if (request.action === "finalize") {
+      return await finalizeTournament(supabase, request);
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("Tournament admin error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Tournament admin request failed",
+    }, 500);
+  }
+});
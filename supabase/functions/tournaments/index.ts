@@ -0,0 +1,331 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { bracketAdvancer, pairingWinner, tournamentStandings } from "../../../src/engine/tournament.ts";
+import type { TournamentEntrant, TournamentFormat, TournamentPairing } from "../../../src/types/game.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const MAX_LISTED_TOURNAMENTS = 20;
+
+const TOURNAMENT_COLUMNS =
+  "id, name, format, status, entry_opens_at, entry_closes_at, round_minutes, total_rounds, current_round, max_entrants, arena_id, difficulty, bot_personality, prize_pool, prize_split, payout_tx_hash";
+
+interface TournamentsRequest {
+  action: "list" | "get" | "join";
+  sessionToken?: string;
+  tournamentId?: string;
+}
+
+interface ProfileName {
+  username?: string | null;
+  wallet_address?: string | null;
+}
+
+interface TournamentRow {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: string;
+  entry_opens_at: string;
+  entry_closes_at: string;
+  round_minutes: number;
+  total_rounds: number | null;
+  current_round: number;
+  max_entrants: number;
+  arena_id: string;
+  difficulty: string;
+  bot_personality: string;
+  prize_pool: number;
+  prize_split: number[];
+  payout_tx_hash: string | null;
+}
+
+interface MatchRow {
+  id: string;
+  round: number;
+  position: number;
+  player_a: string;
+  player_b: string | null;
+  score_a: number | null;
+  score_b: number | null;
+  settled_at: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const displayName = (profile: ProfileName | null) =>
+  profile?.username || profile?.wallet_address?.slice(0, 8) || "Someone";
+
+const getUserId = async (supabase: SupabaseClient, sessionToken?: string) => {
+  if (!sessionToken) return null;
+
+  const { data: session } = await supabase
+    .from("auth_sessions")
+    .select("user_id")
+    .eq("session_token", sessionToken)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return session?.user_id ?? null;
+};
+
+const toPairing = (row: MatchRow): TournamentPairing => ({
+  round: row.round,
+  position: row.position,
+  playerA: row.player_a,
+  playerB: row.player_b,
+  scoreA: row.score_a,
+  scoreB: row.score_b,
+  settled: !!row.settled_at,
+});
+
+const summarize = (tournament: TournamentRow, entrants: number) => ({
+  id: tournament.id,
+  name: tournament.name,
+  format: tournament.format,
+  status: tournament.status,
+  entryOpensAt: tournament.entry_opens_at,
+  entryClosesAt: tournament.entry_closes_at,
+  roundMinutes: tournament.round_minutes,
+  totalRounds: tournament.total_rounds,
+  currentRound: tournament.current_round,
+  maxEntrants: tournament.max_entrants,
+  entrants,
+  arenaId: tournament.arena_id,
+  difficulty: tournament.difficulty,
+  botPersonality: tournament.bot_personality,
+  prizePool: tournament.prize_pool,
+  prizeSplit: tournament.prize_split,
+  payoutTxHash: tournament.payout_tx_hash,
+});
+
+const listTournaments = async (supabase: SupabaseClient, userId: string | null) => {
+  const { data: tournaments, error } = await supabase
+    .from("tournaments")
+    .select(`${TOURNAMENT_COLUMNS}, tournament_entries(count)`)
+    .neq("status", "cancelled")
+    .order("entry_closes_at", { ascending: false })
+    .limit(MAX_LISTED_TOURNAMENTS);
+
+  if (error) {
+    console.error("Tournament list error:", error);
+    return jsonResponse({ success: false, error: "Failed to load tournaments" }, 500);
+  }
+
+  const entered = new Set<string>();
+  if (userId) {
+    const { data: entries } = await supabase
+      .from("tournament_entries")
+      .select("tournament_id")
+      .eq("user_id", userId);
+    (entries ?? []).forEach((entry) => entered.add(entry.tournament_id));
+  }
+
+  return jsonResponse({
+    success: true,
+    tournaments: (tournaments ?? []).map((tournament) => ({
+      ...summarize(tournament as TournamentRow, tournament.tournament_entries?.[0]?.count ?? 0),
+      isEntered: entered.has(tournament.id),
+    })),
+  });
+};
+
+// Everything the tournament screen shows: rounds, the pairings of every round
+// and the standings. User ids stay on the server; players are sent by name.
+const getTournament = async (supabase: SupabaseClient, userId: string | null, tournamentId?: string) => {
+  if (!tournamentId) {
+    return jsonResponse({ success: false, error: "Missing required field: tournamentId" }, 400);
+  }
+
+  const { data: tournament } = await supabase
+    .from("tournaments")
+    .select(TOURNAMENT_COLUMNS)
+    .eq("id", tournamentId)
+    .maybeSingle<TournamentRow>();
+
+  if (!tournament) {
+    return jsonResponse({ success: false, error: "Tournament not found" }, 404);
+  }
+
+  const [{ data: entries }, { data: rounds }, { data: matches }] = await Promise.all([
+    supabase
+      .from("tournament_entries")
+      .select("user_id, seed_rank, final_rank, prize, joined_at, player:user_profiles!tournament_entries_user_id_fkey(username, wallet_address)")
+      .eq("tournament_id", tournamentId)
+      .order("joined_at", { ascending: true }),
+    supabase
+      .from("tournament_rounds")
+      .select("round, starts_at, ends_at, closed_at")
+      .eq("tournament_id", tournamentId)
+      .order("round", { ascending: true }),
+    supabase
+      .from("tournament_matches")
+      .select("id, round, position, player_a, player_b, score_a, score_b, settled_at")
+      .eq("tournament_id", tournamentId)
+      .order("round", { ascending: true })
+      .order("position", { ascending: true }),
+  ]);
+
+  const names = new Map((entries ?? []).map((entry) => [entry.user_id, displayName(entry.player as ProfileName | null)]));
+  const prizes = new Map((entries ?? []).map((entry) => [entry.user_id, entry.prize]));
+  // Before the tournament starts, entrants are listed in the order they joined
+  const entrants: TournamentEntrant[] = (entries ?? []).map((entry, index) => ({
+    userId: entry.user_id,
+    seedRank: entry.seed_rank ?? index + 1,
+  }));
+  const seedRanks = new Map(entrants.map((entrant) => [entrant.userId, entrant.seedRank]));
+  const pairings = (matches ?? []).map((row) => toPairing(row as MatchRow));
+
+  const winnerOf = (pairing: TournamentPairing) => {
+    if (!pairing.settled) return null;
+    const winner = tournament.format === "bracket" ? bracketAdvancer(pairing, seedRanks) : pairingWinner(pairing);
+    return winner === pairing.playerA ? "a" : winner && winner === pairing.playerB ? "b" : null;
+  };
+
+  // The player's pairing in the open round, if they have not played it yet
+  let playableMatchId: string | null = null;
+  const openRound = (rounds ?? []).find((round) =>
+    round.round === tournament.current_round && !round.closed_at && new Date(round.ends_at).getTime() > Date.now()
+  );
+  if (userId && tournament.status === "running" && openRound) {
+    const mine = (matches ?? []).find((row) =>
+      row.round === openRound.round && row.player_b !== null && (row.player_a === userId || row.player_b === userId)
+    );
+    if (mine) {
+      const { data: ticket } = await supabase
+        .from("match_tickets")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("tournament_match_id", mine.id)
+        .maybeSingle();
+      playableMatchId = ticket ? null : mine.id;
+    }
+  }
+
+  return jsonResponse({
+    success: true,
+    tournament: summarize(tournament, entrants.length),
+    rounds: (rounds ?? []).map((round) => ({
+      round: round.round,
+      startsAt: round.starts_at,
+      endsAt: round.ends_at,
+      isClosed: !!round.closed_at,
+    })),
+    matches: pairings.map((pairing, index) => ({
+      id: matches![index].id,
+      round: pairing.round,
+      position: pairing.position,
+      playerA: names.get(pairing.playerA) ?? "Someone",
+      playerB: pairing.playerB ? names.get(pairing.playerB) ?? "Someone" : null,
+      scoreA: pairing.scoreA,
+      scoreB: pairing.scoreB,
+      winner: winnerOf(pairing),
+      isSettled: pairing.settled,
+      isYours: pairing.playerA === userId || pairing.playerB === userId,
+    })),
+    standings: tournamentStandings(tournament.format, entrants, pairings).map((standing) => ({
+      rank: standing.rank,
+      name: names.get(standing.userId) ?? "Someone",
+      points: standing.points,
+      totalScore: standing.totalScore,
+      eliminatedRound: standing.eliminatedRound,
+      prize: prizes.get(standing.userId) ?? null,
+      isYou: standing.userId === userId,
+    })),
+    isEntered: !!userId && names.has(userId),
+    playableMatchId,
+  });
+};
+
+const joinTournament = async (supabase: SupabaseClient, userId: string, tournamentId?: string) => {
+  if (!tournamentId) {
+    return jsonResponse({ success: false, error: "Missing required field: tournamentId" }, 400);
+  }
+
+  const { data: tournament } = await supabase
+    .from("tournaments")
+    .select("status, entry_opens_at, entry_closes_at, max_entrants, tournament_entries(count)")
+    .eq("id", tournamentId)
+    .maybeSingle();
+
+  const now = Date.now();
+  if (
+    !tournament ||
+    tournament.status !== "registration" ||
+    now < new Date(tournament.entry_opens_at).getTime() ||
+    now >= new Date(tournament.entry_closes_at).getTime()
+  ) {
+    return jsonResponse({ success: false, error: "Entries for this tournament are closed" }, 409);
+  }
+
+  if ((tournament.tournament_entries?.[0]?.count ?? 0) >= tournament.max_entrants) {
+    return jsonResponse({ success: false, error: "This tournament is full" }, 409);
+  }
+
+  const { error } = await supabase
+    .from("tournament_entries")
+    .upsert({ tournament_id: tournamentId, user_id: userId }, { onConflict: "tournament_id,user_id", ignoreDuplicates: true });
+
+  if (error) {
+    console.error("Tournament entry error:", error);
+    return jsonResponse({ success: false, error: "Failed to join tournament" }, 500);
+  }
+
+  return jsonResponse({ success: true });
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: TournamentsRequest = await req.json();
+
+    if (!request.action) {
+      return jsonResponse({ success: false, error: "Missing required field: action" }, 400);
+    }
+
+    // Anyone may follow a tournament; signed-in players also see their own part in it
+    const userId = await getUserId(supabase, request.sessionToken);
+
+    if (request.action === "list") {
+      return await listTournaments(supabase, userId);
+    }
+
+    if (request.action === "get") {
+      return await getTournament(supabase, userId, request.tournamentId);
+    }
+
+    if (!userId) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    if (request.action === "join") {
+      return await joinTournament(supabase, userId, request.tournamentId);
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("Tournaments error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Tournament request failed",
+    }, 500);
+  }
+});
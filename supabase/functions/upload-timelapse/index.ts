@@ -0,0 +1,113 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const BUCKET = "match-timelapses";
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// The EBML header every WebM file opens with
+const WEBM_SIGNATURE = [0x1a, 0x45, 0xdf, 0xa3];
+// An MP4 file opens with its "ftyp" box, whose type follows the 4-byte size
+const MP4_SIGNATURE = [0x66, 0x74, 0x79, 0x70];
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length &&
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+// The video type the file's own bytes show, whatever type the client declared
+const sniffVideoType = (bytes: Uint8Array) => {
+  if (startsWith(bytes, WEBM_SIGNATURE)) return "video/webm";
+  if (startsWith(bytes, MP4_SIGNATURE, 4)) return "video/mp4";
+  return null;
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const form = await req.formData();
+    const sessionToken = form.get("sessionToken");
+    const matchId = form.get("matchId");
+    const file = form.get("file");
+
+    if (typeof sessionToken !== "string" || typeof matchId !== "string" || !(file instanceof File)) {
+      return jsonResponse({ success: false, error: "Missing required fields: sessionToken, matchId, file" }, 400);
+    }
+
+    // Checked on the bytes actually received rather than on what the form claims
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (bytes.byteLength > MAX_FILE_BYTES) {
+      return jsonResponse({ success: false, error: "Video is too large" }, 413);
+    }
+
+    const contentType = sniffVideoType(bytes);
+    if (!contentType) {
+      return jsonResponse({ success: false, error: "Unsupported video type" }, 415);
+    }
+
+    const { data: session } = await supabase
+      .from("auth_sessions")
+      .select("user_id")
+      .eq("session_token", sessionToken)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    // Only the player who played a match can publish its timelapse
+    const { data: ticket } = await supabase
+      .from("match_tickets")
+      .select("id")
+      .eq("id", matchId)
+      .eq("user_id", session.user_id)
+      .maybeSingle();
+
+    if (!ticket) {
+      return jsonResponse({ success: false, error: "Unknown match" }, 404);
+    }
+
+    const extension = contentType === "video/mp4" ? "mp4" : "webm";
+    const path = `${session.user_id}/${matchId}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, bytes, { contentType, upsert: true });
+
+    if (uploadError) {
+      console.error("Timelapse upload error:", uploadError);
+      return jsonResponse({ success: false, error: "Failed to store timelapse" }, 500);
+    }
+
+    const { data } = supabase.storage.from(BUCKET).getPublicUrl(path);
+
+    return jsonResponse({ success: true, url: data.publicUrl });
+  } catch (error) {
+    console.error("Timelapse upload error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Timelapse upload failed",
+    }, 500);
+  }
+});
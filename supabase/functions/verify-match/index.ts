@@ -0,0 +1,904 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  inputsForTeam,
+  isWellFormedLog,
+  MATCH_LOG_VERSION,
+  replayMatch,
+  ReplayOutcome,
+  resultForTeam,
+} from "../../../src/engine/matchLog.ts";
+import { opponentInputsFromLog } from "../../../src/engine/ghost.ts";
+import { BOT_PERSONALITIES } from "../../../src/engine/botStrategies.ts";
+import { INITIAL_RATING, scoreForResult, updateRating } from "../../../src/engine/rating.ts";
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LEVELS,
+  DIFFICULTY_RATINGS,
+  difficultyForRating,
+  DEFAULT_MATCH_LENGTH,
+  GAME_SETTINGS,
+  MATCH_LENGTHS,
+  rouletteKeysForResult,
+  settingsForMatch,
+} from "../../../src/config/gameSettings.ts";
+import { arenaById } from "../../../src/config/arenas.ts";
+import { DEFAULT_TEAM_MODE, TEAM_MODE_IDS } from "../../../src/config/teamModes.ts";
+import { parseArena } from "../../../src/engine/arena.ts";
+import type {
+  ArenaDefinition,
+  BotPersonality,
+  DifficultyChoice,
+  DifficultyLevel,
+  GameResult,
+  GameSettings,
+  MatchLog,
+  SkillRating,
+  Team,
+  TeamMode,
+} from "../../../src/types/game.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Browsers may round transcendental math differently in the last bit, so a
+// re-simulated score is allowed to drift by one point
+const SCORE_TOLERANCE = 1;
+
+interface VerifyMatchRequest {
+  action: "start" | "submit" | "result";
+  sessionToken: string;
+  matchId?: string;
+  lobbyId?: string;
+  challengeId?: string;
+  daily?: boolean;
+  tournamentId?: string;
+  difficulty?: DifficultyChoice;
+  arena?: string;
+  teamMode?: TeamMode;
+  matchLength?: number;
+  suddenDeath?: boolean;
+  brushPhysics?: boolean;
+  payload?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+interface MatchTicket {
+  id: string;
+  user_id: string;
+  seed: number;
+  created_at: string;
+  lobby_id: string | null;
+  challenge_id: string | null;
+  team: Team;
+  difficulty: DifficultyLevel | null;
+  bot_rating: number | null;
+  arena_id: string | null;
+  team_mode: TeamMode | null;
+  match_length: number | null;
+  sudden_death: boolean;
+  brush_physics: boolean;
+  daily_date: string | null;
+  tournament_match_id: string | null;
+}
+
+const TICKET_COLUMNS =
+  "id, user_id, seed, created_at, lobby_id, challenge_id, team, difficulty, bot_rating, arena_id, team_mode, match_length, sudden_death, brush_physics, daily_date, tournament_match_id";
+
+// What a verified match paid out, as returned to the player
+interface VerifiedMatch {
+  result: GameResult;
+  rouletteKeysAwarded: number;
+  rating: { rating: number; change: number } | null;
+}
+
+// A PvP ticket's outcome, kept until its player asks for it
+type Settlement = ({ verified: true } & VerifiedMatch) | { verified: false; error: string; voided?: boolean };
+
+// How long a submitted PvP log waits on the other player's before the match
+// is voided for both of them
+const PVP_SETTLE_DEADLINE_MS = 60_000;
+
+const VOIDED_SETTLEMENT: Settlement = {
+  verified: false,
+  voided: true,
+  error: "Both logs of the match did not come in in time, so it does not count",
+};
+
+// The part of a PvP log held until the other player's is in
+interface HeldLog {
+  inputs: number[];
+  botPersonality: BotPersonality;
+}
+
+// The built-in bot plays exactly at the rating it was sized for
+const BOT_RATING_DEVIATION = 0;
+
+// How often a rating update is recomputed when another match of the same
+// player wrote the rating in between
+const RATING_UPDATE_ATTEMPTS = 5;
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = "23505";
+
+// A built-in arena, or one saved from the arena editor
+const loadArena = async (supabase: SupabaseClient, arenaId: string): Promise<ArenaDefinition | null> => {
+  const builtIn = arenaById(arenaId);
+  if (builtIn) return builtIn;
+
+  const { data: row } = await supabase
+    .from("custom_arenas")
+    .select("id, definition")
+    .eq("id", arenaId)
+    .maybeSingle();
+
+  return row ? parseArena({ ...row.definition, id: row.id }, GAME_SETTINGS) : null;
+};
+
+const startMatch = async (
+  supabase: SupabaseClient,
+  userId: string,
+  { lobbyId, challengeId, daily, tournamentId, difficulty, arena, teamMode, matchLength, suddenDeath, brushPhysics }: VerifyMatchRequest,
+) => {
+  if ([lobbyId, challengeId, daily, tournamentId].filter(Boolean).length > 1) {
+    return jsonResponse({ success: false, error: "A match is either PvP, a challenge, daily or for a tournament" }, 400);
+  }
+  if (teamMode && !TEAM_MODE_IDS.includes(teamMode)) {
+    return jsonResponse({ success: false, error: `Unknown team mode: ${teamMode}` }, 400);
+  }
+  // Everything but a solo match is one brush against one
+  if (teamMode && teamMode !== DEFAULT_TEAM_MODE && (lobbyId || challengeId || daily || tournamentId)) {
+    return jsonResponse({ success: false, error: "Team modes are only for matches against the bot" }, 400);
+  }
+  if (matchLength !== undefined && !MATCH_LENGTHS.includes(matchLength)) {
+    return jsonResponse({ success: false, error: `Unknown match length: ${matchLength}` }, 400);
+  }
+  // Challenges keep the length of the run they replay; the rest are fixed
+  const customLength = (matchLength !== undefined && matchLength !== DEFAULT_MATCH_LENGTH) || !!suddenDeath;
+  if (customLength && (lobbyId || challengeId || daily || tournamentId)) {
+    return jsonResponse({ success: false, error: "Match lengths and overtime are only for matches against the bot" }, 400);
+  }
+  // ...and so does their brush physics: everyone else plays the classic brush
+  if (brushPhysics && (lobbyId || challengeId || daily || tournamentId)) {
+    return jsonResponse({ success: false, error: "Brush physics are only for matches against the bot" }, 400);
+  }
+  if (difficulty && difficulty !== "ADAPTIVE" && !DIFFICULTY_LEVELS.includes(difficulty)) {
+    return jsonResponse({ success: false, error: `Unknown difficulty: ${difficulty}` }, 400);
+  }
+  if (arena && !await loadArena(supabase, arena)) {
+    return jsonResponse({ success: false, error: `Unknown arena: ${arena}` }, 400);
+  }
+
+  let seed = crypto.getRandomValues(new Uint32Array(1))[0];
+  let team: Team = "player";
+  let ghostInputs: number[] | undefined;
+  let arenaId: string | null = null;
+  let teamModeId: TeamMode | null = null;
+  let lengthSeconds: number | null = null;
+  let hasSuddenDeath = false;
+  let hasBrushPhysics = false;
+  let dailyDate: string | null = null;
+  let tournamentMatchId: string | null = null;
+  let botPersonality: BotPersonality | undefined;
+
+  // Both players of a PvP lobby simulate the same match
+  if (lobbyId) {
+    const { data: lobby } = await supabase
+      .from("pvp_lobbies")
+      .select("host_user_id, guest_user_id, seed")
+      .eq("id", lobbyId)
+      .maybeSingle();
+
+    if (!lobby || !lobby.guest_user_id || (lobby.host_user_id !== userId && lobby.guest_user_id !== userId)) {
+      return jsonResponse({ success: false, error: "Not a player in this lobby" }, 403);
+    }
+
+    seed = Number(lobby.seed);
+    team = lobby.host_user_id === userId ? "player" : "bot";
+  }
+
+  // A challenge replays the challenger's run on its original seed. The first
+  // player to accept claims it; they may retry until a match is submitted.
+  if (challengeId) {
+    const { data: challenge } = await supabase
+      .from("challenges")
+      .update({ opponent_user_id: userId })
+      .eq("id", challengeId)
+      .neq("challenger_user_id", userId)
+      .is("completed_at", null)
+      .or(`opponent_user_id.is.null,opponent_user_id.eq.${userId}`)
+      .select("seed, ghost_inputs, arena_id, match_length, sudden_death, brush_physics")
+      .maybeSingle();
+
+    if (!challenge) {
+      return jsonResponse({ success: false, error: "This challenge is no longer open" }, 409);
+    }
+
+    seed = Number(challenge.seed);
+    ghostInputs = challenge.ghost_inputs;
+    arenaId = challenge.arena_id;
+    lengthSeconds = challenge.match_length;
+    hasSuddenDeath = challenge.sudden_death;
+    hasBrushPhysics = challenge.brush_physics;
+  }
+
+  // Only matches against the built-in bot have a difficulty, and they pick
+  // their arena, team mode, length, overtime and brush physics; a challenge
+  // is played on the arena, for the length and with the brush of the run it
+  // replays.
+  // An adaptive bot is sized to the player's rating when the match starts.
+  let level: DifficultyLevel | null = null;
+  let botRating: number | null = null;
+
+  // The daily challenge is the same match for everyone: seed, arena,
+  // difficulty and bot all come from the day's row
+  if (daily) {
+    const today = new Date().toISOString().slice(0, 10);
+    const { data: challenge } = await supabase
+      .from("daily_challenges")
+      .select("challenge_date, seed, arena_id, difficulty, bot_personality")
+      .eq("challenge_date", today)
+      .maybeSingle();
+
+    if (!challenge) {
+      return jsonResponse({ success: false, error: "Today's daily challenge is not ready yet" }, 409);
+    }
+
+    seed = Number(challenge.seed);
+    arenaId = challenge.arena_id;
+    level = challenge.difficulty;
+    dailyDate = challenge.challenge_date;
+    botPersonality = challenge.bot_personality;
+  } else if (tournamentId) {
+    // Everyone in a tournament round plays the round's seed against the
+    // tournament's bot; the better score takes the pairing
+    const { data: tournament } = await supabase
+      .from("tournaments")
+      .select("status, current_round, arena_id, difficulty, bot_personality")
+      .eq("id", tournamentId)
+      .maybeSingle();
+
+    const { data: round } = tournament?.status === "running"
+      ? await supabase
+        .from("tournament_rounds")
+        .select("seed, ends_at, closed_at")
+        .eq("tournament_id", tournamentId)
+        .eq("round", tournament.current_round)
+        .maybeSingle()
+      : { data: null };
+
+    if (!tournament || !round || round.closed_at || new Date(round.ends_at).getTime() <= Date.now()) {
+      return jsonResponse({ success: false, error: "No round of this tournament is open" }, 409);
+    }
+
+    const { data: pairing } = await supabase
+      .from("tournament_matches")
+      .select("id")
+      .eq("tournament_id", tournamentId)
+      .eq("round", tournament.current_round)
+      .not("player_b", "is", null)
+      .or(`player_a.eq.${userId},player_b.eq.${userId}`)
+      .maybeSingle();
+
+    if (!pairing) {
+      return jsonResponse({ success: false, error: "You have no match to play in this round" }, 403);
+    }
+
+    seed = Number(round.seed);
+    arenaId = tournament.arena_id;
+    level = tournament.difficulty;
+    tournamentMatchId = pairing.id;
+    botPersonality = tournament.bot_personality;
+  } else if (!lobbyId && !challengeId) {
+    arenaId = arena ?? null;
+    teamModeId = teamMode && teamMode !== DEFAULT_TEAM_MODE ? teamMode : null;
+    lengthSeconds = matchLength && matchLength !== DEFAULT_MATCH_LENGTH ? matchLength : null;
+    hasSuddenDeath = !!suddenDeath;
+    hasBrushPhysics = !!brushPhysics;
+    if (difficulty === "ADAPTIVE") {
+      botRating = (await fetchRating(supabase, userId)).rating;
+      level = difficultyForRating(botRating);
+    } else {
+      level = difficulty ?? DEFAULT_DIFFICULTY;
+    }
+  }
+
+  const { data: ticket, error } = await supabase
+    .from("match_tickets")
+    .insert({
+      user_id: userId,
+      seed,
+      lobby_id: lobbyId ?? null,
+      challenge_id: challengeId ?? null,
+      team,
+      difficulty: level,
+      bot_rating: botRating,
+      arena_id: arenaId,
+      team_mode: teamModeId,
+      match_length: lengthSeconds,
+      sudden_death: hasSuddenDeath,
+      brush_physics: hasBrushPhysics,
+      daily_date: dailyDate,
+      tournament_match_id: tournamentMatchId,
+    })
+    .select("id, seed, team, difficulty, bot_rating, arena_id, team_mode, match_length, sudden_death, brush_physics")
+    .single();
+
+  // Each player gets one attempt at the daily challenge
+  if (error?.code === UNIQUE_VIOLATION && dailyDate) {
+    return jsonResponse({ success: false, error: "You have already played today's daily challenge" }, 409);
+  }
+  // ...and one at each tournament pairing
+  if (error?.code === UNIQUE_VIOLATION && tournamentMatchId) {
+    return jsonResponse({ success: false, error: "You have already played this round" }, 409);
+  }
+  if (error || !ticket) {
+    console.error("Ticket creation error:", error);
+    return jsonResponse({ success: false, error: "Failed to start match" }, 500);
+  }
+
+  return jsonResponse({
+    success: true,
+    matchId: ticket.id,
+    seed: Number(ticket.seed),
+    team: ticket.team,
+    difficulty: ticket.difficulty ?? undefined,
+    botRating: ticket.bot_rating ?? undefined,
+    arenaId: ticket.arena_id ?? undefined,
+    teamMode: ticket.team_mode ?? undefined,
+    matchLength: ticket.match_length ?? undefined,
+    suddenDeath: ticket.sudden_death || undefined,
+    brushPhysics: ticket.brush_physics || undefined,
+    botPersonality,
+    ghostInputs,
+  });
+};
+
+const fetchRating = async (supabase: SupabaseClient, userId: string): Promise<SkillRating> => {
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("skill_rating, rating_deviation")
+    .eq("id", userId)
+    .maybeSingle();
+
+  return profile ? { rating: profile.skill_rating, deviation: profile.rating_deviation } : INITIAL_RATING;
+};
+
+// Who the player was rated against: the other player of a PvP lobby, the
+// challenger behind a ghost, or the bot at the rating of its difficulty
+const opponentRating = async (supabase: SupabaseClient, userId: string, ticket: MatchTicket): Promise<SkillRating> => {
+  if (ticket.lobby_id) {
+    const { data: lobby } = await supabase
+      .from("pvp_lobbies")
+      .select("host_user_id, guest_user_id")
+      .eq("id", ticket.lobby_id)
+      .maybeSingle();
+
+    const opponentId = lobby?.host_user_id === userId ? lobby?.guest_user_id : lobby?.host_user_id;
+    return opponentId ? fetchRating(supabase, opponentId) : INITIAL_RATING;
+  }
+
+  if (ticket.challenge_id) {
+    const { data: challenge } = await supabase
+      .from("challenges")
+      .select("challenger_user_id")
+      .eq("id", ticket.challenge_id)
+      .maybeSingle();
+
+    return challenge ? fetchRating(supabase, challenge.challenger_user_id) : INITIAL_RATING;
+  }
+
+  return {
+    rating: ticket.bot_rating ?? DIFFICULTY_RATINGS[ticket.difficulty ?? DEFAULT_DIFFICULTY],
+    deviation: BOT_RATING_DEVIATION,
+  };
+};
+
+// Runs after every verified game session. A failure here only costs the
+// rating update, never the verified result.
+//
+// The update only lands on the rating it was computed from: if another match
+// of the player was rated in between, it is read and computed again, so
+// concurrent matches can't overwrite each other's change.
+const rateMatch = async (supabase: SupabaseClient, userId: string, ticket: MatchTicket, result: GameResult) => {
+  const opponent = await opponentRating(supabase, userId, ticket);
+
+  for (let attempt = 0; attempt < RATING_UPDATE_ATTEMPTS; attempt++) {
+    const { data: profile } = await supabase
+      .from("user_profiles")
+      .select("skill_rating, rating_deviation, rated_games")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (!profile) return null;
+
+    const before: SkillRating = { rating: profile.skill_rating, deviation: profile.rating_deviation };
+    const after = updateRating(before, opponent, scoreForResult(result));
+
+    const { data: updated, error } = await supabase
+      .from("user_profiles")
+      .update({
+        skill_rating: after.rating,
+        rating_deviation: after.deviation,
+        rated_games: profile.rated_games + 1,
+      })
+      .eq("id", userId)
+      .eq("skill_rating", profile.skill_rating)
+      .eq("rating_deviation", profile.rating_deviation)
+      .eq("rated_games", profile.rated_games)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Rating update error:", error);
+      return null;
+    }
+
+    if (updated) {
+      return { rating: after.rating, change: after.rating - before.rating };
+    }
+  }
+
+  console.error(`Rating update for ${userId} kept losing to concurrent updates`);
+  return null;
+};
+
+// The ghost must be exactly the stored run, or the head-to-head is meaningless
+const ghostDiffers = async (supabase: SupabaseClient, challengeId: string, log: MatchLog) => {
+  const { data: challenge } = await supabase
+    .from("challenges")
+    .select("ghost_inputs")
+    .eq("id", challengeId)
+    .maybeSingle();
+
+  return !challenge || JSON.stringify(opponentInputsFromLog(log)) !== JSON.stringify(challenge.ghost_inputs);
+};
+
+// Everyone plays the daily challenge against the same bot
+const dailyBotDiffers = async (supabase: SupabaseClient, dailyDate: string, log: MatchLog) => {
+  const { data: challenge } = await supabase
+    .from("daily_challenges")
+    .select("bot_personality")
+    .eq("challenge_date", dailyDate)
+    .maybeSingle();
+
+  return !challenge || log.botPersonality !== challenge.bot_personality;
+};
+
+// A tournament is played against the same bot in every pairing
+const tournamentBotDiffers = async (supabase: SupabaseClient, tournamentMatchId: string, log: MatchLog) => {
+  const { data: pairing } = await supabase
+    .from("tournament_matches")
+    .select("tournament:tournaments(bot_personality)")
+    .eq("id", tournamentMatchId)
+    .maybeSingle();
+
+  const tournament = pairing?.tournament as { bot_personality?: string } | null | undefined;
+  return !tournament || log.botPersonality !== tournament.bot_personality;
+};
+
+// Record a verified result from the ticket holder's side, so "player" is
+// always them, and pay it out. Null if the session could not be stored.
+const recordResult = async (
+  supabase: SupabaseClient,
+  ticket: MatchTicket,
+  replay: ReplayOutcome,
+): Promise<VerifiedMatch | null> => {
+  const userId = ticket.user_id;
+  const difficulty = ticket.difficulty;
+  const result = { ...resultForTeam(replay.result, ticket.team), difficulty: difficulty ?? undefined };
+
+  const { error: sessionError } = await supabase
+    .from("game_sessions")
+    .insert({
+      user_id: userId,
+      match_id: ticket.id,
+      player_score: result.playerScore,
+      bot_score: result.botScore,
+      winner: result.winner,
+      game_duration: Math.ceil(replay.duration / 1000),
+      power_ups_collected: replay.powerUpsCollected[ticket.team],
+      verified: true,
+      difficulty,
+      arena_id: ticket.arena_id,
+      team_mode: ticket.team_mode,
+      match_length: ticket.match_length,
+      sudden_death: ticket.sudden_death,
+      brush_physics: ticket.brush_physics,
+    });
+
+  if (sessionError) {
+    console.error("Game session insert error:", sessionError);
+    return null;
+  }
+
+  // A bot's rating says nothing about a match with allies or several bots, so
+  // only duels are rated
+  const rating = ticket.team_mode ? null : await rateMatch(supabase, userId, ticket, result);
+
+  if (ticket.daily_date) {
+    const { error: dailyError } = await supabase
+      .from("daily_results")
+      .insert({
+        challenge_date: ticket.daily_date,
+        user_id: userId,
+        match_id: ticket.id,
+        player_score: result.playerScore,
+        bot_score: result.botScore,
+        winner: result.winner,
+      });
+
+    if (dailyError) {
+      console.error("Daily result insert error:", dailyError);
+    }
+  }
+
+  // A pairing only takes scores while its round is open
+  if (ticket.tournament_match_id) {
+    const { data: pairing } = await supabase
+      .from("tournament_matches")
+      .select("player_a")
+      .eq("id", ticket.tournament_match_id)
+      .maybeSingle();
+
+    const { error: tournamentError } = await supabase
+      .from("tournament_matches")
+      .update(pairing?.player_a === userId ? { score_a: result.playerScore } : { score_b: result.playerScore })
+      .eq("id", ticket.tournament_match_id)
+      .is("settled_at", null);
+
+    if (tournamentError) {
+      console.error("Tournament score update error:", tournamentError);
+    }
+  }
+
+  // Only the first finished attempt settles a challenge
+  if (ticket.challenge_id) {
+    await supabase
+      .from("challenges")
+      .update({
+        opponent_score: result.playerScore,
+        ghost_score: result.botScore,
+        winner: result.winner === "player" ? "opponent" : result.winner === "bot" ? "challenger" : "draw",
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", ticket.challenge_id)
+      .is("completed_at", null);
+  }
+
+  // Keys scale with the bot's difficulty; PvP and challenges pay like MEDIUM.
+  // They are only ever spent through the roulette function.
+  const rouletteKeysAwarded = rouletteKeysForResult(result, difficulty ?? DEFAULT_DIFFICULTY);
+  if (rouletteKeysAwarded > 0) {
+    const { error: keysError } = await supabase
+      .from("roulette_keys")
+      .insert(Array.from({ length: rouletteKeysAwarded }, () => ({ user_id: userId, match_id: ticket.id })));
+
+    if (keysError) {
+      console.error("Roulette key insert error:", keysError);
+    }
+  }
+
+  return { result, rouletteKeysAwarded, rating };
+};
+
+const settlementResponse = (settlement: Settlement | null) => {
+  if (!settlement) {
+    return jsonResponse({ success: true, verified: false, pending: true }, 202);
+  }
+  if (!settlement.verified) {
+    return jsonResponse({ success: false, verified: false, voided: settlement.voided, error: settlement.error }, 422);
+  }
+  return jsonResponse({ success: true, ...settlement });
+};
+
+const loadSettlement = async (supabase: SupabaseClient, ticketId: string): Promise<Settlement | null> => {
+  const { data } = await supabase
+    .from("match_tickets")
+    .select("settlement")
+    .eq("id", ticketId)
+    .maybeSingle();
+
+  return data?.settlement ?? null;
+};
+
+// A log can't vouch for the other player's strokes on its own, so a match
+// whose other log never comes in counts for neither player. Whoever claims
+// the lobby voids every ticket of it that is still unsettled.
+const voidPvpMatch = async (supabase: SupabaseClient, lobbyId: string) => {
+  const { data: claimed } = await supabase
+    .from("pvp_lobbies")
+    .update({ settled_at: new Date().toISOString() })
+    .eq("id", lobbyId)
+    .is("settled_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (!claimed) return;
+
+  const { error } = await supabase
+    .from("match_tickets")
+    .update({ settlement: VOIDED_SETTLEMENT })
+    .eq("lobby_id", lobbyId)
+    .is("settlement", null);
+
+  if (error) {
+    console.error("PvP void error:", error);
+  }
+};
+
+// Each player's log is only their word on their own strokes: the other
+// team's are whatever it says it received. A PvP result is held until both
+// logs are in, and a log counts only if its record of the other player's
+// strokes is what that player logged themselves.
+const settlePvpMatch = async (
+  supabase: SupabaseClient,
+  ticket: MatchTicket,
+  log: MatchLog,
+  replay: ReplayOutcome,
+  settings: GameSettings,
+) => {
+  const held: HeldLog = { inputs: log.inputs, botPersonality: log.botPersonality };
+  await supabase
+    .from("match_tickets")
+    .update({ held_log: held })
+    .eq("id", ticket.id);
+
+  const { data: other } = await supabase
+    .from("match_tickets")
+    .select(`${TICKET_COLUMNS}, held_log`)
+    .eq("lobby_id", ticket.lobby_id!)
+    .neq("id", ticket.id)
+    .maybeSingle<MatchTicket & { held_log: HeldLog | null }>();
+
+  if (!other?.held_log) {
+    return settlementResponse(null);
+  }
+
+  // Both logs are in; whichever submission claims the lobby settles both
+  const { data: claimed } = await supabase
+    .from("pvp_lobbies")
+    .update({ settled_at: new Date().toISOString() })
+    .eq("id", ticket.lobby_id!)
+    .is("settled_at", null)
+    .select("id")
+    .maybeSingle();
+
+  // Settled by the other submission, or voided at the deadline
+  if (!claimed) {
+    return settlementResponse(await loadSettlement(supabase, ticket.id));
+  }
+
+  const mineAgrees = JSON.stringify(inputsForTeam(log.inputs, other.team)) ===
+    JSON.stringify(inputsForTeam(other.held_log.inputs, other.team));
+  const theirsAgree = JSON.stringify(inputsForTeam(other.held_log.inputs, ticket.team)) ===
+    JSON.stringify(inputsForTeam(log.inputs, ticket.team));
+
+  const settle = async (settled: MatchTicket, agrees: boolean, settledReplay: () => ReplayOutcome) => {
+    let settlement: Settlement = { verified: false, error: "Match log does not match your opponent's" };
+    if (agrees) {
+      const verified = await recordResult(supabase, settled, settledReplay());
+      settlement = verified
+        ? { verified: true, ...verified }
+        : { verified: false, error: "Failed to record game session" };
+    }
+
+    await supabase
+      .from("match_tickets")
+      .update({ settlement })
+      .eq("id", settled.id);
+    return settlement;
+  };
+
+  if (!mineAgrees || !theirsAgree) {
+    console.warn("PvP logs disagree", { lobbyId: ticket.lobby_id, mineAgrees, theirsAgree });
+  }
+
+  // With both logs in agreement they replay the same match; otherwise the
+  // other log was only checked against its own claims when it came in
+  await settle(other, theirsAgree, () =>
+    mineAgrees ? replay : replayMatch({ ...other.held_log!, seed: Number(other.seed), opponent: "remote" }, settings));
+  return settlementResponse(await settle(ticket, mineAgrees, () => replay));
+};
+
+// A PvP player whose result was held asks for it here once the other log is
+// in. Past the deadline without it, the match is voided.
+const matchResult = async (supabase: SupabaseClient, userId: string, { matchId }: VerifyMatchRequest) => {
+  if (!matchId) {
+    return jsonResponse({ success: false, error: "Missing required field: matchId" }, 400);
+  }
+
+  const { data: ticket } = await supabase
+    .from("match_tickets")
+    .select("id, lobby_id, consumed_at, settlement")
+    .eq("id", matchId)
+    .eq("user_id", userId)
+    .not("lobby_id", "is", null)
+    .not("consumed_at", "is", null)
+    .maybeSingle();
+
+  if (!ticket) {
+    return jsonResponse({ success: false, error: "No PvP match of yours with this id has been submitted" }, 404);
+  }
+
+  if (!ticket.settlement && Date.now() - new Date(ticket.consumed_at).getTime() > PVP_SETTLE_DEADLINE_MS) {
+    await voidPvpMatch(supabase, ticket.lobby_id);
+    return settlementResponse(await loadSettlement(supabase, ticket.id));
+  }
+
+  return settlementResponse(ticket.settlement);
+};
+
+const submitMatch = async (
+  supabase: SupabaseClient,
+  userId: string,
+  { matchId, payload }: VerifyMatchRequest,
+) => {
+  if (!matchId || !payload) {
+    return jsonResponse({ success: false, error: "Missing required fields: matchId, payload" }, 400);
+  }
+
+  // Consume the ticket up front so the same log can never be submitted twice
+  const { data: ticket, error: ticketError } = await supabase
+    .from("match_tickets")
+    .update({ consumed_at: new Date().toISOString() })
+    .eq("id", matchId)
+    .eq("user_id", userId)
+    .is("consumed_at", null)
+    .select(TICKET_COLUMNS)
+    .maybeSingle<MatchTicket>();
+
+  if (ticketError || !ticket) {
+    return jsonResponse({ success: false, verified: false, error: "Unknown or already used match" }, 409);
+  }
+
+  let log: MatchLog;
+  try {
+    log = JSON.parse(payload);
+  } catch {
+    return jsonResponse({ success: false, verified: false, error: "Malformed match log" }, 400);
+  }
+
+  const expectedOpponent = ticket.lobby_id || ticket.challenge_id ? "remote" : "bot";
+  const difficulty = ticket.difficulty;
+  const arena = ticket.arena_id ? await loadArena(supabase, ticket.arena_id) : null;
+  if (ticket.arena_id && !arena) {
+    return jsonResponse({ success: false, verified: false, error: "This match's arena no longer exists" }, 422);
+  }
+  const settings = settingsForMatch({
+    difficulty,
+    botRating: ticket.bot_rating,
+    arena,
+    teamMode: ticket.team_mode,
+    matchLength: ticket.match_length,
+    suddenDeath: ticket.sudden_death,
+    brushPhysics: ticket.brush_physics,
+  });
+
+  if (!isWellFormedLog(log, settings)) {
+    return jsonResponse({ success: false, verified: false, error: "Malformed match log" }, 400);
+  }
+
+  if (
+    log.version !== MATCH_LOG_VERSION ||
+    log.seed !== Number(ticket.seed) ||
+    log.opponent !== expectedOpponent ||
+    !BOT_PERSONALITIES.includes(log.botPersonality) ||
+    JSON.stringify(log.settings) !== JSON.stringify(settings)
+  ) {
+    return jsonResponse({ success: false, verified: false, error: "Match log does not match the issued match" }, 422);
+  }
+
+  // A match cannot be submitted before it could have finished
+  const matchAge = Date.now() - new Date(ticket.created_at).getTime();
+  if (matchAge < settings.timer * 1000) {
+    return jsonResponse({ success: false, verified: false, error: "Match submitted too early" }, 422);
+  }
+
+  if (ticket.daily_date && await dailyBotDiffers(supabase, ticket.daily_date, log)) {
+    return jsonResponse({ success: false, verified: false, error: "Match log does not match the daily challenge" }, 422);
+  }
+
+  if (ticket.tournament_match_id && await tournamentBotDiffers(supabase, ticket.tournament_match_id, log)) {
+    return jsonResponse({ success: false, verified: false, error: "Match log does not match the tournament" }, 422);
+  }
+
+  let replay;
+  try {
+    replay = replayMatch(log, settings);
+  } catch (error) {
+    console.error("Replay failed:", error);
+    return jsonResponse({ success: false, verified: false, error: "Match log could not be replayed" }, 422);
+  }
+
+  if (ticket.challenge_id && await ghostDiffers(supabase, ticket.challenge_id, log)) {
+    return jsonResponse({ success: false, verified: false, error: "Match log does not match the challenge" }, 422);
+  }
+
+  const claimed = log.result;
+  const verified =
+    Math.abs(claimed.playerScore - replay.result.playerScore) <= SCORE_TOLERANCE &&
+    Math.abs(claimed.botScore - replay.result.botScore) <= SCORE_TOLERANCE &&
+    JSON.stringify(log.pickups) === JSON.stringify(replay.pickups);
+
+  if (!verified) {
+    console.warn("Match verification failed", { matchId, claimed, replayed: replay.result });
+    return jsonResponse({
+      success: false,
+      verified: false,
+      error: "Match result does not match the replay",
+    }, 422);
+  }
+
+  if (ticket.lobby_id) {
+    return await settlePvpMatch(supabase, ticket, log, replay, settings);
+  }
+
+  // The replayed result is authoritative, not the claimed one
+  const verifiedMatch = await recordResult(supabase, ticket, replay);
+  if (!verifiedMatch) {
+    return jsonResponse({ success: false, error: "Failed to record game session" }, 500);
+  }
+
+  return jsonResponse({ success: true, verified: true, ...verifiedMatch });
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const request: VerifyMatchRequest = await req.json();
+
+    if (!request.action || !request.sessionToken) {
+      return jsonResponse({ success: false, error: "Missing required fields: action, sessionToken" }, 400);
+    }
+
+    const { data: session } = await supabase
+      .from("auth_sessions")
+      .select("user_id")
+      .eq("session_token", request.sessionToken)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+
+    if (request.action === "start") {
+      return await startMatch(supabase, session.user_id, request);
+    }
+
+    if (request.action === "submit") {
+      return await submitMatch(supabase, session.user_id, request);
+    }
+
+    if (request.action === "result") {
+      return await matchResult(supabase, session.user_id, request);
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${request.action}` }, 400);
+  } catch (error) {
+    console.error("Match verification error:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Match verification failed",
+    }, 500);
+  }
+});
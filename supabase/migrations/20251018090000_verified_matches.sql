@@ -0,0 +1,48 @@
+/*
+  # Server-verified matches
+
+  1. Changes
+    - Create match_tickets table: one row per match the server has issued a seed for
+    - Link game_sessions to the ticket it was verified against
+    - Only the verify-match edge function (service role) may insert game sessions
+
+  2. Tables
+    - `match_tickets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `seed` (bigint, simulation seed chosen by the server)
+      - `created_at` (timestamptz, default now())
+      - `consumed_at` (timestamptz, set when a log is submitted)
+    - `game_sessions`
+      - `match_id` (uuid, unique, references match_tickets)
+      - `verified` (boolean, default false)
+
+  3. Security
+    - RLS enabled on match_tickets, service role only
+    - Drop the client insert policy on game_sessions so scores can only be
+      recorded after a server-side replay
+*/
+
+CREATE TABLE IF NOT EXISTS match_tickets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  seed bigint NOT NULL CHECK (seed >= 0 AND seed <= 4294967295),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  consumed_at timestamptz
+);
+
+ALTER TABLE match_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage match tickets"
+  ON match_tickets FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_match_tickets_user_id ON match_tickets(user_id);
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS match_id uuid UNIQUE REFERENCES match_tickets(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS verified boolean DEFAULT false NOT NULL;
+
+DROP POLICY IF EXISTS "Users can insert own game sessions via session" ON game_sessions;
@@ -0,0 +1,21 @@
+/*
+  # Match timelapse storage
+
+  1. Changes
+    - Create a public `match-timelapses` storage bucket for the short match
+      videos embedded in Farcaster shares
+
+  2. Storage
+    - `match-timelapses`
+      - objects are stored as `<user_id>/<match_id>.webm` (or `.mp4`)
+      - limited to 5 MB WebM/MP4 files
+
+  3. Security
+    - Bucket is public so cast embeds can be fetched without auth
+    - No client write policies: uploads go through the upload-timelapse edge
+      function, which checks the session and that the match belongs to the user
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('match-timelapses', 'match-timelapses', true, 5242880, ARRAY['video/webm', 'video/mp4'])
+ON CONFLICT (id) DO NOTHING;
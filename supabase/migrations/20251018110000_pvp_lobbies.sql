@@ -0,0 +1,54 @@
+/*
+  # Real-time PvP lobbies
+
+  1. Changes
+    - Create pvp_lobbies table: a host, at most one guest, and the seed both
+      players' simulations run with
+    - Link match tickets to the lobby they were issued for and the team the
+      player controls
+
+  2. Tables
+    - `pvp_lobbies`
+      - `id` (uuid, primary key; also names the realtime channel)
+      - `host_user_id` (uuid, references user_profiles; plays the 'player' team)
+      - `guest_user_id` (uuid, references user_profiles; plays the 'bot' team)
+      - `invite_code` (text, unique, shared in invite links)
+      - `seed` (bigint, simulation seed chosen by the server)
+      - `created_at` (timestamptz, default now())
+      - `joined_at` (timestamptz, set when the guest joins)
+    - `match_tickets`
+      - `lobby_id` (uuid, references pvp_lobbies; null for matches against the bot)
+      - `team` (text, 'player' or 'bot')
+
+  3. Security
+    - RLS enabled on pvp_lobbies, service role only; clients go through the
+      pvp-lobby edge function
+    - One ticket per player per lobby
+*/
+
+CREATE TABLE IF NOT EXISTS pvp_lobbies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  host_user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  guest_user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE,
+  invite_code text UNIQUE NOT NULL,
+  seed bigint NOT NULL CHECK (seed >= 0 AND seed <= 4294967295),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  joined_at timestamptz,
+  CHECK (guest_user_id IS NULL OR guest_user_id <> host_user_id)
+);
+
+ALTER TABLE pvp_lobbies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage pvp lobbies"
+  ON pvp_lobbies FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS lobby_id uuid REFERENCES pvp_lobbies(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS team text NOT NULL DEFAULT 'player' CHECK (team IN ('player', 'bot'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_tickets_lobby_user
+  ON match_tickets(lobby_id, user_id)
+  WHERE lobby_id IS NOT NULL;
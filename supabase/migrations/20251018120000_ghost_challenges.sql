@@ -0,0 +1,58 @@
+/*
+  # Asynchronous ghost challenges
+
+  1. Changes
+    - Create challenges table: a verified match a player dares a friend to
+      beat, with the strokes needed to replay them as a ghost opponent
+    - Link match tickets to the challenge they were issued for
+
+  2. Tables
+    - `challenges`
+      - `id` (uuid, primary key; shared in challenge links)
+      - `challenger_user_id` (uuid, references user_profiles)
+      - `source_match_id` (uuid, unique, references match_tickets; the run being replayed)
+      - `seed` (bigint, seed of the source match, reused so power-ups spawn the same)
+      - `ghost_inputs` (jsonb, the challenger's strokes encoded like a match log)
+      - `challenger_score` (integer, the challenger's verified score against the bot)
+      - `opponent_user_id` (uuid, references user_profiles; set when accepted)
+      - `opponent_score` (integer, the friend's score in the head-to-head)
+      - `ghost_score` (integer, the ghost's score in the head-to-head)
+      - `winner` (text, 'challenger', 'opponent' or 'draw')
+      - `created_at` (timestamptz, default now())
+      - `completed_at` (timestamptz)
+    - `match_tickets`
+      - `challenge_id` (uuid, references challenges)
+
+  3. Security
+    - RLS enabled on challenges, service role only; clients go through the
+      challenges edge function
+*/
+
+CREATE TABLE IF NOT EXISTS challenges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenger_user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  source_match_id uuid UNIQUE NOT NULL REFERENCES match_tickets(id) ON DELETE CASCADE,
+  seed bigint NOT NULL CHECK (seed >= 0 AND seed <= 4294967295),
+  ghost_inputs jsonb NOT NULL,
+  challenger_score integer NOT NULL CHECK (challenger_score >= 0 AND challenger_score <= 100),
+  opponent_user_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  opponent_score integer CHECK (opponent_score >= 0 AND opponent_score <= 100),
+  ghost_score integer CHECK (ghost_score >= 0 AND ghost_score <= 100),
+  winner text CHECK (winner IN ('challenger', 'opponent', 'draw')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  completed_at timestamptz
+);
+
+ALTER TABLE challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage challenges"
+  ON challenges FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_challenges_challenger
+  ON challenges(challenger_user_id, created_at DESC);
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS challenge_id uuid REFERENCES challenges(id) ON DELETE CASCADE;
@@ -0,0 +1,27 @@
+/*
+  # Bot difficulty for matches
+
+  1. Changes
+    - Record the difficulty a solo match was issued for, so the server replays
+      it with that difficulty's settings and scales the roulette keys it awards
+    - Record the difficulty with the verified game session
+
+  2. Tables
+    - `match_tickets`
+      - `difficulty` (text, 'EASY', 'MEDIUM', 'HARD' or 'EXPERT'; null for
+        PvP and challenge matches, which have no built-in bot)
+    - `game_sessions`
+      - `difficulty` (text, same values)
+
+  3. Security
+    - No policy changes; both tables are only written by the verify-match
+      edge function
+*/
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS difficulty text
+    CHECK (difficulty IN ('EASY', 'MEDIUM', 'HARD', 'EXPERT'));
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS difficulty text
+    CHECK (difficulty IN ('EASY', 'MEDIUM', 'HARD', 'EXPERT'));
@@ -0,0 +1,54 @@
+/*
+  # Player skill rating
+
+  1. Changes
+    - Give every player a Glicko-style skill rating, updated by the
+      verify-match edge function after each verified game session
+    - Record the rating an adaptive bot was sized for on its match ticket
+
+  2. Tables
+    - `user_profiles`
+      - `skill_rating` (integer, default 1000)
+      - `rating_deviation` (integer, default 350; how unsure the rating still is)
+      - `rated_games` (integer, default 0)
+    - `match_tickets`
+      - `bot_rating` (integer; set for adaptive matches, whose bot settings
+        are derived from it)
+
+  3. Security
+    - Profiles stay publicly readable so ratings can be shown on the leaderboard
+    - A trigger keeps the rating columns unchanged on updates that do not come
+      from the service role, since players may update their own profile
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS skill_rating integer DEFAULT 1000 NOT NULL,
+  ADD COLUMN IF NOT EXISTS rating_deviation integer DEFAULT 350 NOT NULL
+    CHECK (rating_deviation > 0),
+  ADD COLUMN IF NOT EXISTS rated_games integer DEFAULT 0 NOT NULL
+    CHECK (rated_games >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_skill_rating
+  ON user_profiles(skill_rating DESC)
+  WHERE rated_games > 0;
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS bot_rating integer;
+
+CREATE OR REPLACE FUNCTION protect_skill_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.skill_rating := OLD.skill_rating;
+    NEW.rating_deviation := OLD.rating_deviation;
+    NEW.rated_games := OLD.rated_games;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_skill_rating ON user_profiles;
+CREATE TRIGGER protect_skill_rating
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_skill_rating();
@@ -0,0 +1,25 @@
+/*
+  # Arenas for matches
+
+  1. Changes
+    - Record the arena a solo match was issued for, so the server replays it
+      on that arena's walls, holes and bonus zones
+    - Record the arena with the verified game session
+
+  2. Tables
+    - `match_tickets`
+      - `arena_id` (text, id of a built-in arena from src/config/arenas.ts;
+        null for the classic arena, PvP and challenge matches)
+    - `game_sessions`
+      - `arena_id` (text, same values)
+
+  3. Security
+    - No policy changes; both tables are only written by the verify-match
+      edge function
+*/
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS arena_id text;
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS arena_id text;
@@ -0,0 +1,48 @@
+/*
+  # Custom arenas
+
+  1. Changes
+    - Create custom_arenas table for arenas players build in the arena editor
+      and share by link
+    - Record the arena a challenge was played on, so the friend racing the
+      ghost plays the same arena
+
+  2. Tables
+    - `custom_arenas`
+      - `id` (uuid, primary key; shared in arena links and used as the arena id
+        on match tickets)
+      - `creator_user_id` (uuid, references user_profiles)
+      - `name` (text, the arena's name)
+      - `definition` (jsonb, the arena as checked by parseArena in
+        src/engine/arena.ts, without its id)
+      - `created_at` (timestamptz, default now())
+    - `challenges`
+      - `arena_id` (text, built-in arena id or custom arena uuid; null for the
+        classic arena)
+
+  3. Security
+    - RLS enabled on custom_arenas, service role only; clients go through the
+      arenas edge function
+*/
+
+CREATE TABLE IF NOT EXISTS custom_arenas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 24),
+  definition jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE custom_arenas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage custom arenas"
+  ON custom_arenas FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_custom_arenas_creator
+  ON custom_arenas(creator_user_id, created_at DESC);
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS arena_id text;
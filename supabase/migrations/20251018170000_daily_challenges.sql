@@ -0,0 +1,84 @@
+/*
+  # Daily challenge
+
+  1. Changes
+    - Create daily_challenges table: one match per UTC day that everyone plays
+      on the same seed, arena, bot difficulty and bot personality, so the bot
+      and the power-ups behave the same for every player
+    - Create daily_results table: the daily leaderboard, one verified result
+      per player per day
+    - Link match tickets to the daily challenge they were issued for; a player
+      gets one ticket per day
+
+  2. Tables
+    - `daily_challenges`
+      - `challenge_date` (date, primary key; the UTC day)
+      - `seed` (bigint, shared by every match of the day)
+      - `arena_id` (text, built-in arena id)
+      - `difficulty` (text, 'EASY', 'MEDIUM', 'HARD' or 'EXPERT')
+      - `bot_personality` (text, the bot everyone plays against)
+      - `created_at` (timestamptz, default now())
+    - `daily_results`
+      - `id` (uuid, primary key)
+      - `challenge_date` (date, references daily_challenges)
+      - `user_id` (uuid, references user_profiles)
+      - `match_id` (uuid, unique, references match_tickets)
+      - `player_score` (integer, the verified score; the leaderboard is ranked on it)
+      - `bot_score` (integer)
+      - `winner` (text, 'player', 'bot' or 'draw')
+      - `created_at` (timestamptz, default now(); breaks ties, earliest first)
+    - `match_tickets`
+      - `daily_date` (date, references daily_challenges)
+
+  3. Security
+    - RLS enabled on both tables, service role only; clients go through the
+      daily-challenge and verify-match edge functions
+*/
+
+CREATE TABLE IF NOT EXISTS daily_challenges (
+  challenge_date date PRIMARY KEY,
+  seed bigint NOT NULL CHECK (seed >= 0 AND seed <= 4294967295),
+  arena_id text NOT NULL,
+  difficulty text NOT NULL CHECK (difficulty IN ('EASY', 'MEDIUM', 'HARD', 'EXPERT')),
+  bot_personality text NOT NULL CHECK (bot_personality IN ('classic', 'floodFiller', 'stealer', 'powerUpHunter')),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE daily_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage daily challenges"
+  ON daily_challenges FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS daily_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_date date NOT NULL REFERENCES daily_challenges(challenge_date) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  match_id uuid UNIQUE NOT NULL REFERENCES match_tickets(id) ON DELETE CASCADE,
+  player_score integer NOT NULL CHECK (player_score >= 0 AND player_score <= 100),
+  bot_score integer NOT NULL CHECK (bot_score >= 0 AND bot_score <= 100),
+  winner text NOT NULL CHECK (winner IN ('player', 'bot', 'draw')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (challenge_date, user_id)
+);
+
+ALTER TABLE daily_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage daily results"
+  ON daily_results FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_daily_results_ranking
+  ON daily_results(challenge_date, player_score DESC, created_at);
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS daily_date date REFERENCES daily_challenges(challenge_date) ON DELETE CASCADE;
+
+-- One attempt per player per day, whether or not it was submitted
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_tickets_daily
+  ON match_tickets(user_id, daily_date)
+  WHERE daily_date IS NOT NULL;
@@ -0,0 +1,157 @@
+/*
+  # Tournaments
+
+  1. Changes
+    - Create tournaments table: a community event with an entry window,
+      bracket or Swiss rounds and a $CC prize pool
+    - Create tournament_entries, tournament_rounds and tournament_matches for
+      the entrants, the scheduled rounds and the pairings of each round
+    - Link match tickets to the tournament pairing they were issued for; a
+      player gets one ticket per pairing
+
+  2. Tables
+    - `tournaments`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `format` (text, 'bracket' or 'swiss')
+      - `status` (text, 'registration', 'running', 'completed', 'finalized'
+        or 'cancelled')
+      - `entry_opens_at`, `entry_closes_at` (timestamptz, the entry window;
+        the first round starts when it closes)
+      - `round_minutes` (integer, how long each round stays open)
+      - `total_rounds` (integer; set when a bracket starts, chosen up front for Swiss)
+      - `current_round` (integer, 0 until the first round starts)
+      - `max_entrants` (integer)
+      - `arena_id` (text, built-in arena id)
+      - `difficulty` (text, the bot every round is played against)
+      - `bot_personality` (text)
+      - `prize_pool` (integer, whole $CC)
+      - `prize_split` (jsonb, whole percentages of the pool for 1st, 2nd, ...)
+      - `payout_tx_hash` (text, the batchDistributeReward transaction)
+      - `created_at`, `finalized_at` (timestamptz)
+    - `tournament_entries`
+      - `tournament_id`, `user_id` (primary key)
+      - `seed_rank` (integer, 1 is the top seed; set by skill rating when the
+        tournament starts)
+      - `final_rank` (integer, set when the tournament is finalized)
+      - `prize` (integer, whole $CC paid out for the final rank)
+      - `joined_at` (timestamptz)
+    - `tournament_rounds`
+      - `tournament_id`, `round` (primary key)
+      - `seed` (bigint, every match of the round is played on it)
+      - `starts_at`, `ends_at`, `closed_at` (timestamptz)
+    - `tournament_matches`
+      - `id` (uuid, primary key)
+      - `tournament_id`, `round`, `position` (unique; brackets pair the
+        winners of neighbouring positions)
+      - `player_a`, `player_b` (uuid, references user_profiles; player_b is
+        null for a bye)
+      - `score_a`, `score_b` (integer, each player's verified score against the bot)
+      - `settled_at` (timestamptz, set when the round closes)
+    - `match_tickets`
+      - `tournament_match_id` (uuid, references tournament_matches)
+
+  3. Security
+    - RLS enabled on all tournament tables, service role only; clients go
+      through the tournaments and tournament-admin edge functions
+*/
+
+CREATE TABLE IF NOT EXISTS tournaments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  format text NOT NULL CHECK (format IN ('bracket', 'swiss')),
+  status text NOT NULL DEFAULT 'registration'
+    CHECK (status IN ('registration', 'running', 'completed', 'finalized', 'cancelled')),
+  entry_opens_at timestamptz NOT NULL,
+  entry_closes_at timestamptz NOT NULL,
+  round_minutes integer NOT NULL CHECK (round_minutes > 0),
+  total_rounds integer CHECK (total_rounds > 0),
+  current_round integer NOT NULL DEFAULT 0,
+  max_entrants integer NOT NULL CHECK (max_entrants >= 2),
+  arena_id text NOT NULL,
+  difficulty text NOT NULL CHECK (difficulty IN ('EASY', 'MEDIUM', 'HARD', 'EXPERT')),
+  bot_personality text NOT NULL CHECK (bot_personality IN ('classic', 'floodFiller', 'stealer', 'powerUpHunter')),
+  prize_pool integer NOT NULL DEFAULT 0 CHECK (prize_pool >= 0),
+  prize_split jsonb NOT NULL DEFAULT '[]'::jsonb,
+  payout_tx_hash text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  finalized_at timestamptz,
+  CHECK (entry_closes_at > entry_opens_at)
+);
+
+CREATE TABLE IF NOT EXISTS tournament_entries (
+  tournament_id uuid NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  seed_rank integer,
+  final_rank integer,
+  prize integer,
+  joined_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (tournament_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS tournament_rounds (
+  tournament_id uuid NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  round integer NOT NULL CHECK (round > 0),
+  seed bigint NOT NULL CHECK (seed >= 0 AND seed <= 4294967295),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  closed_at timestamptz,
+  PRIMARY KEY (tournament_id, round)
+);
+
+CREATE TABLE IF NOT EXISTS tournament_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id uuid NOT NULL,
+  round integer NOT NULL,
+  position integer NOT NULL,
+  player_a uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  player_b uuid REFERENCES user_profiles(id) ON DELETE CASCADE,
+  score_a integer CHECK (score_a >= 0 AND score_a <= 100),
+  score_b integer CHECK (score_b >= 0 AND score_b <= 100),
+  settled_at timestamptz,
+  UNIQUE (tournament_id, round, position),
+  FOREIGN KEY (tournament_id, round) REFERENCES tournament_rounds(tournament_id, round) ON DELETE CASCADE
+);
+
+ALTER TABLE tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage tournaments"
+  ON tournaments FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage tournament entries"
+  ON tournament_entries FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage tournament rounds"
+  ON tournament_rounds FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage tournament matches"
+  ON tournament_matches FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_status
+  ON tournaments(status, entry_closes_at);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_entries_user
+  ON tournament_entries(user_id);
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS tournament_match_id uuid REFERENCES tournament_matches(id) ON DELETE CASCADE;
+
+-- One attempt per player per pairing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_tickets_tournament
+  ON match_tickets(user_id, tournament_match_id)
+  WHERE tournament_match_id IS NOT NULL;
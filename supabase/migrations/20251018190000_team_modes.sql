@@ -0,0 +1,26 @@
+/*
+  # Team modes
+
+  1. Changes
+    - Record the team mode a solo match was issued for, so the server replays
+      it with the same teams, allies and extra bots
+    - Record the team mode with the verified game session
+
+  2. Tables
+    - `match_tickets`
+      - `team_mode` (text, 'allies' or 'freeForAll' from
+        src/config/teamModes.ts; null for a duel, PvP, challenge, daily and
+        tournament matches)
+    - `game_sessions`
+      - `team_mode` (text, same values)
+
+  3. Security
+    - No policy changes; both tables are only written by the verify-match
+      edge function
+*/
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS team_mode text;
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS team_mode text;
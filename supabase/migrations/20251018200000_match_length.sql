@@ -0,0 +1,38 @@
+/*
+  # Match lengths and sudden death
+
+  1. Changes
+    - Record the length and overtime a solo match was issued for, so the
+      server replays it for as long as it was played
+    - Challenges keep the length and overtime of the run they replay
+    - Record both with the verified game session; `game_duration` now holds
+      how long the match really ran, overtime included
+
+  2. Tables
+    - `match_tickets`
+      - `match_length` (smallint, seconds from MATCH_LENGTHS in
+        src/config/gameSettings.ts; null for the default 10 seconds)
+      - `sudden_death` (boolean, default false)
+    - `challenges`
+      - `match_length` (smallint, same values)
+      - `sudden_death` (boolean, default false)
+    - `game_sessions`
+      - `match_length` (smallint, same values)
+      - `sudden_death` (boolean, default false)
+
+  3. Security
+    - No policy changes; the tables are only written by the verify-match and
+      challenges edge functions
+*/
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS match_length smallint,
+  ADD COLUMN IF NOT EXISTS sudden_death boolean NOT NULL DEFAULT false;
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS match_length smallint,
+  ADD COLUMN IF NOT EXISTS sudden_death boolean NOT NULL DEFAULT false;
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS match_length smallint,
+  ADD COLUMN IF NOT EXISTS sudden_death boolean NOT NULL DEFAULT false;
@@ -0,0 +1,21 @@
+/*
+  # Tournament payout confirmation
+
+  1. Changes
+    - The payout transaction's hash is stored as soon as it is sent, before
+      it is confirmed; a tournament whose payout went out but was never
+      confirmed is reconciled against that transaction on the next finalize
+      instead of being paid again
+
+  2. Tables
+    - `tournaments`
+      - `payout_confirmed_at` (timestamptz, set once `payout_tx_hash` is
+        known to have been mined successfully)
+
+  3. Security
+    - No policy changes; the table is only written by the tournament-admin
+      edge function
+*/
+
+ALTER TABLE tournaments
+  ADD COLUMN IF NOT EXISTS payout_confirmed_at timestamptz;
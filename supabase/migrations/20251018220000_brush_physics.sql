@@ -0,0 +1,31 @@
+/*
+  # Brush physics
+
+  1. Changes
+    - Record whether a solo match was issued with brush physics, where the
+      player's brush chases the pointer instead of jumping to it, so the
+      server replays it the way it was played
+    - Challenges keep the brush physics of the run they replay
+    - Record it with the verified game session
+
+  2. Tables
+    - `match_tickets`
+      - `brush_physics` (boolean, default false)
+    - `challenges`
+      - `brush_physics` (boolean, default false)
+    - `game_sessions`
+      - `brush_physics` (boolean, default false)
+
+  3. Security
+    - No policy changes; the tables are only written by the verify-match and
+      challenges edge functions
+*/
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS brush_physics boolean NOT NULL DEFAULT false;
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS brush_physics boolean NOT NULL DEFAULT false;
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS brush_physics boolean NOT NULL DEFAULT false;
@@ -0,0 +1,31 @@
+/*
+  # Held PvP results
+
+  1. Changes
+    - A PvP result is no longer settled by whichever player submits first.
+      Each player's log is held on their ticket until the other player's is
+      in; a log then only counts if its record of the other player's strokes
+      matches what that player logged themselves
+    - The outcome is kept on the ticket, for the player who was told to wait
+
+  2. Tables
+    - `match_tickets`
+      - `held_log` (jsonb, the inputs and bot personality of a submitted PvP
+        log, kept for checking against the other player's)
+      - `settlement` (jsonb, the verified result, keys and rating change of a
+        settled PvP ticket, or why its log was rejected)
+    - `pvp_lobbies`
+      - `settled_at` (timestamptz, set by the submission that settles both
+        tickets, so they are settled once)
+
+  3. Security
+    - No policy changes; the tables are only written by the verify-match and
+      pvp-lobby edge functions
+*/
+
+ALTER TABLE match_tickets
+  ADD COLUMN IF NOT EXISTS held_log jsonb,
+  ADD COLUMN IF NOT EXISTS settlement jsonb;
+
+ALTER TABLE pvp_lobbies
+  ADD COLUMN IF NOT EXISTS settled_at timestamptz;
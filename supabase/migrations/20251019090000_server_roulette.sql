@@ -0,0 +1,79 @@
+/*
+  # Server-side roulette
+
+  1. Changes
+    - Roulette keys are no longer counted in the browser. verify-match writes
+      a key for each one a verified match earns, and the new roulette edge
+      function spends them, rolls the wheel and records the outcome
+    - A token prize can only be claimed through distribute-reward for a
+      recorded spin of the claiming player; the claim nonce is derived from
+      the spin, so the RewardDistributor pays each spin at most once
+    - A verified score is recorded on-chain at most once, by record-score
+
+  2. Tables
+    - `roulette_keys`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `match_id` (uuid, references match_tickets; the verified match that
+        earned the key, or whose key won it on the wheel)
+      - `created_at` (timestamptz)
+      - `spent_at` (timestamptz, set when the key is spun)
+    - `roulette_spins`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `key_id` (uuid, unique, references roulette_keys)
+      - `reward_type` (text, 'onChainToken', 'inGameCurrency' or 'noReward')
+      - `amount` (integer, whole $CC or keys won)
+      - `label` (text)
+      - `claim_wallet` (text, the wallet a token prize was first signed
+        for; later claims are signed for the same one)
+      - `created_at` (timestamptz)
+    - `game_sessions`
+      - `score_recorded_at` (timestamptz, set when record-score sends the
+        score on-chain)
+
+  3. Security
+    - RLS enabled on roulette_keys and roulette_spins, service role only;
+      clients go through the roulette and distribute-reward edge functions
+*/
+
+CREATE TABLE IF NOT EXISTS roulette_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  match_id uuid REFERENCES match_tickets(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  spent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_roulette_keys_unspent
+  ON roulette_keys(user_id, created_at)
+  WHERE spent_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS roulette_spins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  key_id uuid UNIQUE NOT NULL REFERENCES roulette_keys(id) ON DELETE CASCADE,
+  reward_type text NOT NULL CHECK (reward_type IN ('onChainToken', 'inGameCurrency', 'noReward')),
+  amount integer NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  label text NOT NULL,
+  claim_wallet text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS score_recorded_at timestamptz;
+
+ALTER TABLE roulette_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roulette_spins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage roulette keys"
+  ON roulette_keys FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage roulette spins"
+  ON roulette_spins FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
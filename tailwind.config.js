@@ -2,7 +2,19 @@
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
-    extend: {},
+    extend: {
+      keyframes: {
+        // Each countdown number drops in once per second
+        countdown: {
+          '0%': { transform: 'scale(1.8)', opacity: '0' },
+          '30%': { transform: 'scale(1)', opacity: '1' },
+          '100%': { transform: 'scale(0.9)', opacity: '0.7' },
+        },
+      },
+      animation: {
+        countdown: 'countdown 1s ease-out',
+      },
+    },
   },
   plugins: [],
 };